@@ -1,4 +1,4 @@
-import { TokenManager } from '../../src/index.js';
+import { TokenManager, type AgentToken } from '../../src/index.js';
 
 // Demo del sistema de gestión de tokens
 console.log('🔐 Demo del Sistema de Gestión de Tokens');
@@ -46,12 +46,14 @@ console.log(stats1);
 console.log('\n🔄 Canjeando códigos de reclamo...');
 
 // Canjear los primeros 2 códigos
+const redeemedTokens: AgentToken[] = [];
 for (let i = 0; i < 2 && i < claimCodes.length; i++) {
     const code = claimCodes[i];
     if (!code) continue;
     const token = tokenManager.redeemClaimCode(code);
     
     if (token) {
+        redeemedTokens.push(token);
         console.log(`   ✓ Código ${code} canjeado exitosamente`);
         console.log(`     - Token: ${token.token.substring(0, 20)}...`);
         console.log(`     - Agente: ${token.agentId}`);
@@ -68,17 +70,17 @@ console.log(stats2);
 // 3. Validar tokens
 console.log('\n🔍 Validando tokens...');
 
-// Obtener tokens activos
-const activeTokens = tokenManager.getAgentTokens('survival-server-01');
-if (activeTokens.length > 0 && activeTokens[0]) {
-    const testToken = activeTokens[0].token;
+// El token en claro solo se conoce al generarlo; el TokenManager guarda su hash
+const firstToken = redeemedTokens[0];
+if (firstToken) {
+    const testToken = firstToken.token;
     const isValid = tokenManager.validateToken(testToken);
     
     console.log(`   ✓ Token válido: ${isValid ? 'SÍ' : 'NO'}`);
     console.log(`   - Token: ${testToken.substring(0, 20)}...`);
-    console.log(`   - Agente: ${activeTokens[0].agentId}`);
-    console.log(`   - Namespace: ${activeTokens[0].namespace}`);
-    console.log(`   - Expira: ${activeTokens[0].expiresAt}`);
+    console.log(`   - Agente: ${firstToken.agentId}`);
+    console.log(`   - Namespace: ${firstToken.namespace}`);
+    console.log(`   - Expira: ${firstToken.expiresAt}`);
 }
 
 // 4. Probar límite de tokens por agente
@@ -88,27 +90,30 @@ const testAgentId = 'test-agent-limit';
 const testNamespace = 'test';
 
 // Generar más tokens que el límite permitido
+const testTokens: string[] = [];
 for (let i = 0; i < 5; i++) {
     const code = tokenManager.generateClaimCode(testAgentId, testNamespace);
     const token = tokenManager.redeemClaimCode(code);
     
     if (token) {
+        testTokens.push(token.token);
         console.log(`   ✓ Token ${i + 1} generado: ${token.token.substring(0, 20)}...`);
     }
 }
 
 console.log(`\n📊 Tokens activos para ${testAgentId}:`);
-const testAgentTokens = tokenManager.getAgentTokens(testAgentId);
+const testAgentTokens = tokenManager.getAgentTokenRecords(testAgentId);
 console.log(`   - Total: ${testAgentTokens.length}`);
 testAgentTokens.forEach((token, index) => {
-    console.log(`   - Token ${index + 1}: ${token.token.substring(0, 20)}...`);
+    console.log(`   - Token ${index + 1} (hash): ${token.tokenHash.substring(0, 20)}...`);
 });
 
 // 5. Revocar tokens
 console.log('\n🔒 Revocando tokens...');
 
-if (testAgentTokens.length > 0 && testAgentTokens[0]) {
-    const tokenToRevoke = testAgentTokens[0].token;
+// El más reciente sigue activo aunque se haya superado el límite
+const tokenToRevoke = testTokens[testTokens.length - 1];
+if (tokenToRevoke) {
     const revoked = tokenManager.revokeToken(tokenToRevoke);
     
     console.log(`   ✓ Token revocado: ${revoked ? 'SÍ' : 'NO'}`);
@@ -120,7 +125,7 @@ const allRevoked = tokenManager.revokeAllTokens(testAgentId);
 console.log(`   ✓ Tokens totales revocados para ${testAgentId}: ${allRevoked}`);
 
 console.log(`\n📊 Tokens restantes para ${testAgentId}:`);
-const remainingTokens = tokenManager.getAgentTokens(testAgentId);
+const remainingTokens = tokenManager.getAgentTokenRecords(testAgentId);
 console.log(`   - Total: ${remainingTokens.length}`);
 
 // 6. Estadísticas finales
@@ -1,6 +1,5 @@
 import { loadConfig } from '../config/config-manager.js';
-import { defaultAgentConfig } from '../reverse/agent.js';
-import { TunnelAgent } from '../index.js';
+import { TunnelAgent, defaultAgentConfig } from '../index.js';
 
 console.log('--- Minecraft Tunnel Agent (Home) ---');
 
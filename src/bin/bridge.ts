@@ -1,19 +1,37 @@
-
 import { loadConfig } from '../config/config-manager.js';
-import { defaultBridgeConfig } from '../lib/bridge/BridgeServer.js';
-import { defaultBridgeManager } from '../lib/bridge/BridgeManager.js';
+import { BridgeServerEnhanced, defaultBridgeConfig, type BridgeConfigEnhanced } from '../lib/bridge/BridgeServerEnhanced.js';
+import { PluginManager } from '../lib/plugins/PluginManager.js';
+import { globalMetrics } from '../lib/metrics/MetricsRegistry.js';
+import { createLogger } from '../lib/logging/Logger.js';
 
 console.log('--- Minecraft Bridge Server (VPS) ---');
 
 try {
-    const config = await loadConfig('bridge.yaml', defaultBridgeConfig);
-    
-    // Create the bridge instance using the manager
-    defaultBridgeManager.createInstance(config);
-    
-    console.log(`Bridge Server running on port ${config.port}`);
+    const config = await loadConfig<BridgeConfigEnhanced>('bridge.yaml', defaultBridgeConfig);
+
+    const logger = createLogger(config.logging, config.debug);
+
+    const bridge = new BridgeServerEnhanced(config, logger);
+    const plugins = await PluginManager.load(config.plugins ?? [], undefined, logger.child({ component: 'Plugins' }));
+    await plugins.init({ bridge, metrics: globalMetrics });
+    if (plugins.names.length > 0) {
+        logger.info(`Loaded plugins: ${plugins.names.join(', ')}`);
+    }
+
+    bridge.start();
+
+    logger.info(`Bridge Server running on port ${config.port}`);
     if (config.domain) {
-        console.log(`Subdomain routing enabled for domain: ${config.domain}`);
+        logger.info(`Subdomain routing enabled for domain: ${config.domain}`);
+    }
+
+    for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+        process.once(signal, async () => {
+            await plugins.shutdown();
+            bridge.stop();
+            logger.close();
+            process.exit(0);
+        });
     }
 } catch (error) {
     console.error('Failed to start bridge server:', error);
@@ -1,9 +1,34 @@
 import { loadConfig } from '../config/config-manager.js';
 import { defaultConfig } from '../config/config.js';
-import { startProxy } from '../index.js';
+import { ProxyServer } from '../index.js';
+import { PluginManager } from '../lib/plugins/PluginManager.js';
+import { globalMetrics } from '../lib/metrics/MetricsRegistry.js';
+import { createLogger } from '../lib/logging/Logger.js';
 
 console.log('--- Minecraft TCP Proxy ---');
 
-const config = await loadConfig('proxy.yaml', defaultConfig);
+try {
+    const config = await loadConfig('proxy.yaml', defaultConfig);
+    const logger = createLogger(config.logging, config.debug);
 
-startProxy(config).catch(console.error);
+    const server = new ProxyServer(config, undefined, logger);
+    const plugins = await PluginManager.load(config.plugins ?? [], undefined, logger.child({ component: 'Plugins' }));
+    await plugins.init({ proxy: server, metrics: globalMetrics });
+    if (plugins.names.length > 0) {
+        logger.info(`Loaded plugins: ${plugins.names.join(', ')}`);
+    }
+
+    await server.start();
+
+    for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+        process.once(signal, async () => {
+            await plugins.shutdown();
+            server.stop();
+            logger.close();
+            process.exit(0);
+        });
+    }
+} catch (error) {
+    console.error('Failed to start proxy:', error);
+    process.exit(1);
+}
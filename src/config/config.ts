@@ -1,3 +1,259 @@
+/**
+ * How the proxy answers server list (status) pings.
+ */
+export interface StatusConfig {
+  /**
+   * `passthrough` forwards status pings to the backend, `static` answers them
+   * from this config and `cached` answers from a periodically refreshed copy of
+   * the backend's own status.
+   */
+  mode: 'passthrough' | 'static' | 'cached';
+  /** Message of the day shown in the server list */
+  motd: string;
+  /** Version name shown in the server list */
+  versionName: string;
+  /** Protocol number to advertise; -1 echoes the client's protocol version */
+  versionProtocol: number;
+  /** Maximum players shown in the server list */
+  maxPlayers: number;
+  /** Online players shown in the server list */
+  onlinePlayers: number;
+  /** Path to a 64x64 PNG used as the server icon */
+  faviconPath?: string;
+  /** How long a backend status is reused in `cached` mode, in milliseconds */
+  cacheTtlMs: number;
+  /** MOTD served when the backend is unreachable. Without it such pings are dropped in `passthrough` mode. */
+  fallbackMotd?: string;
+  /**
+   * How pre-1.7 (0xFE) pings are handled: `passthrough` forwards the raw bytes to
+   * the backend, `respond` answers with this status in the legacy kick-string format.
+   */
+  legacyPing: 'passthrough' | 'respond';
+}
+
+/**
+ * Default status settings, merged under `ProxyConfig.status` and route overrides.
+ */
+export const defaultStatusConfig: StatusConfig = {
+  mode: 'passthrough',
+  motd: 'A Minecraft Server',
+  versionName: 'Minecraft Proxy',
+  versionProtocol: -1,
+  maxPlayers: 20,
+  onlinePlayers: 0,
+  cacheTtlMs: 5000,
+  legacyPing: 'passthrough',
+};
+
+/**
+ * Maintenance mode settings. While enabled, the proxy answers status pings with
+ * `motd` and disconnects joining players with `kickMessage`.
+ */
+export interface MaintenanceConfig {
+  /** Whether maintenance mode is active */
+  enabled: boolean;
+  /** MOTD shown in the server list during maintenance */
+  motd: string;
+  /** Disconnect reason shown to players trying to join */
+  kickMessage: string;
+}
+
+/**
+ * Default maintenance settings, merged under `ProxyConfig.maintenance` and route overrides.
+ */
+export const defaultMaintenanceConfig: MaintenanceConfig = {
+  enabled: false,
+  motd: '§cUnder maintenance',
+  kickMessage: 'This server is under maintenance. Please try again later.',
+};
+
+/**
+ * A backend Minecraft server in a load-balanced pool.
+ */
+export interface BackendServer {
+  host: string;
+  port: number;
+}
+
+/**
+ * How a backend is picked from a pool:
+ * - `round-robin` cycles through the backends in order
+ * - `least-connections` picks the backend with the fewest proxied players
+ * - `random` picks any backend
+ * - `sticky-ip` / `sticky-username` always send the same client IP or player
+ *   name to the same backend while the pool is unchanged
+ *
+ * Whatever the strategy, the remaining backends are tried in turn when the
+ * chosen one cannot be reached.
+ */
+export type LoadBalanceStrategy = 'round-robin' | 'least-connections' | 'random' | 'sticky-ip' | 'sticky-username';
+
+/**
+ * Active backend health checking. Each backend is probed with a status ping;
+ * backends marked unhealthy are skipped when picking a backend.
+ */
+export interface HealthCheckConfig {
+  /** Whether backends are probed */
+  enabled: boolean;
+  /** Time between probes of a backend, in milliseconds */
+  intervalMs: number;
+  /** Time to wait for a status response, in milliseconds */
+  timeoutMs: number;
+  /** Consecutive failed probes before a backend is marked unhealthy */
+  unhealthyThreshold: number;
+  /** Consecutive successful probes before an unhealthy backend is marked healthy again */
+  healthyThreshold: number;
+}
+
+/**
+ * Default health check settings, merged under `ProxyConfig.healthCheck`.
+ */
+export const defaultHealthCheckConfig: HealthCheckConfig = {
+  enabled: false,
+  intervalMs: 10000,
+  timeoutMs: 3000,
+  unhealthyThreshold: 2,
+  healthyThreshold: 1,
+};
+
+/**
+ * HTTP endpoint serving metrics in the Prometheus text format.
+ */
+export interface MetricsEndpointConfig {
+  /** Port of the HTTP listener */
+  port: number;
+  /** Interface to bind (default: `0.0.0.0`) */
+  host?: string;
+  /** Request path (default: `/metrics`) */
+  path?: string;
+}
+
+/**
+ * HTTP admin API of the bridge. Every request must send
+ * `Authorization: Bearer <token>`.
+ */
+export interface AdminApiConfig {
+  /** Port of the HTTP listener */
+  port: number;
+  /** Interface to bind (default: `127.0.0.1`) */
+  host?: string;
+  /** Bearer token required on every request, at least 16 characters */
+  token: string;
+}
+
+/** Log levels, from most to least verbose */
+export type LogLevel = 'trace' | 'debug' | 'info' | 'warn' | 'error';
+
+/** `pretty` lines for people, or one JSON object per line for log collectors */
+export type LogFormat = 'pretty' | 'json';
+
+/**
+ * Where and how logs are written. Shared by the proxy, bridge and agent configs.
+ */
+export interface LoggingConfig {
+  /** Lowest level written (default: `debug` when `debug` is set, otherwise `info`) */
+  level?: LogLevel;
+  /** Output format (default: `pretty`) */
+  format?: LogFormat;
+  /** Whether to write to stdout (default: true) */
+  stdout?: boolean;
+  /** Also append logs to a file, rotated by size */
+  file?: LogFileConfig;
+}
+
+/**
+ * Log file rotation. When a write would grow the file past `maxBytes` it is
+ * renamed to `<path>.1`, older files shift up and the oldest is deleted.
+ */
+export interface LogFileConfig {
+  path: string;
+  /** Size at which the file is rotated (default: 10 MiB) */
+  maxBytes?: number;
+  /** Rotated files kept next to the active one (default: 5) */
+  maxFiles?: number;
+  /** Format of the file, overriding `LoggingConfig.format` */
+  format?: LogFormat;
+}
+
+/**
+ * Handshake fields replaced before the handshake is forwarded to a backend.
+ */
+export interface HandshakeRewrite {
+  /** Hostname sent to the backend instead of the one the player typed */
+  serverAddress?: string;
+  serverPort?: number;
+  protocolVersion?: number;
+}
+
+/**
+ * How player identity is passed to backends in the handshake:
+ * - `none` forwards the handshake unchanged
+ * - `bungeecord` injects the player IP and offline-mode UUID into the server
+ *   address, for backends with `bungeecord: true` in spigot.yml
+ */
+export type IpForwardingMode = 'none' | 'bungeecord';
+
+/**
+ * Minecraft versions accepted for logins. Versions are release names
+ * (`'1.20.4'`) or protocol numbers (`765`); status pings are not affected.
+ */
+export interface VersionPolicy {
+  /** Oldest accepted version */
+  min?: string | number;
+  /** Newest accepted version */
+  max?: string | number;
+  /**
+   * Disconnect message for other versions. `{version}` is replaced with the
+   * player's version and `{supported}` with the accepted range.
+   */
+  message?: string;
+}
+
+/**
+ * HAProxy PROXY protocol settings.
+ */
+export interface ProxyProtocolConfig {
+  /**
+   * Prepend a PROXY header of this version to every backend connection so
+   * backends with `proxy-protocol: true` see the real player address. TCP only.
+   */
+  send?: 'v1' | 'v2';
+  /**
+   * Addresses or CIDR ranges of load balancers in front of the proxy. Connections
+   * from them may start with a PROXY v1/v2 header naming the real client. TCP only.
+   */
+  trustedProxies?: string[];
+}
+
+/**
+ * A virtual host route, matched against the server address sent in the handshake.
+ */
+export interface ProxyRoute {
+  /**
+   * Hostname pattern to match. Either an exact name (`survival.example.com`),
+   * a wildcard (`*.play.example.com`) or `*` to catch every hostname.
+   */
+  host: string;
+  /** Hostname of the backend Minecraft server for this route. Required unless `backends` is set. */
+  backendHost?: string;
+  /** Port of the backend Minecraft server for this route. Required unless `backends` is set. */
+  backendPort?: number;
+  /** Pool of backends to balance this route across; takes precedence over `backendHost`/`backendPort` */
+  backends?: BackendServer[];
+  /** Strategy used to pick from `backends` (default: `round-robin`) */
+  strategy?: LoadBalanceStrategy;
+  /** IP forwarding mode for this route's backends, overriding `ProxyConfig.ipForwarding` */
+  ipForwarding?: IpForwardingMode;
+  /** Handshake fields to rewrite before forwarding, e.g. the hostname a backend's virtual-host plugin expects */
+  rewrite?: HandshakeRewrite;
+  /** Accepted client versions for this route, overriding fields of `ProxyConfig.versions` */
+  versions?: VersionPolicy;
+  /** Status (server list) overrides for this route */
+  status?: Partial<StatusConfig>;
+  /** Maintenance mode overrides for this route */
+  maintenance?: Partial<MaintenanceConfig>;
+}
+
 /**
  * Configuration for the Minecraft proxy.
  */
@@ -13,6 +269,41 @@ export interface ProxyConfig {
   transportType: 'tcp' | 'udp';
   /** Whether to enable debug logging */
   debug: boolean;
+  /**
+   * Optional virtual host routing table. Routes are matched in order against the
+   * handshake server address; connections matching no route are sent to
+   * `minecraftHost`/`minecraftPort`.
+   */
+  routes?: ProxyRoute[];
+  /**
+   * Pool of default backends for connections matching no route. When set it
+   * replaces `minecraftHost`/`minecraftPort`.
+   */
+  backends?: BackendServer[];
+  /** Strategy used to pick from `backends` (default: `round-robin`) */
+  strategy?: LoadBalanceStrategy;
+  /** Server list ping handling. Defaults to forwarding pings to the backend. */
+  status?: Partial<StatusConfig>;
+  /** Proxy-wide maintenance mode, can also be toggled at runtime with `ProxyServer.setMaintenance` */
+  maintenance?: Partial<MaintenanceConfig>;
+  /** YAML file holding the player whitelist and ban list, reloaded when it changes */
+  accessListFile?: string;
+  /** Periodic status-ping probing of every configured backend */
+  healthCheck?: Partial<HealthCheckConfig>;
+  /** PROXY protocol handling towards backends */
+  proxyProtocol?: ProxyProtocolConfig;
+  /** Player IP/UUID forwarding to backends (default: `none`) */
+  ipForwarding?: IpForwardingMode;
+  /** Accepted client versions (default: any) */
+  versions?: VersionPolicy;
+  /** Plugin module paths, loaded by the proxy binary */
+  plugins?: string[];
+  /** Serves `globalMetrics` over HTTP when set */
+  metrics?: MetricsEndpointConfig;
+  /** Histogram bucket bounds in seconds, by metric name, replacing the defaults */
+  metricBuckets?: Record<string, number[]>;
+  /** Log level, format and sinks; `debug` only picks the default level */
+  logging?: LoggingConfig;
 }
 
 /**
@@ -0,0 +1,112 @@
+/**
+ * Byte queue kept as a list of chunks, for data that arrives in pieces.
+ *
+ * Appending never copies what is already buffered. Chunks are only joined when
+ * a caller needs a contiguous view, and then only as many as that view covers,
+ * so a decoder that waits for a complete packet before reading it copies each
+ * byte a bounded number of times instead of once per chunk received.
+ */
+export class ChunkBuffer {
+    private chunks: Uint8Array[] = [];
+    private size = 0;
+
+    /** Number of buffered bytes */
+    get length(): number {
+        return this.size;
+    }
+
+    /**
+     * Appends a copy of `chunk`; socket read buffers may be reused once the callback returns.
+     */
+    push(chunk: Uint8Array) {
+        if (chunk.length === 0) return;
+        this.chunks.push(chunk.slice());
+        this.size += chunk.length;
+    }
+
+    /**
+     * Returns the byte at `index`, or undefined past the end. Does not join chunks.
+     */
+    byteAt(index: number): number | undefined {
+        if (index < 0) return undefined;
+        for (const chunk of this.chunks) {
+            if (index < chunk.length) return chunk[index];
+            index -= chunk.length;
+        }
+        return undefined;
+    }
+
+    /**
+     * Position of the first `byte` at or after `fromIndex`, or -1. Does not join chunks.
+     */
+    indexOf(byte: number, fromIndex = 0): number {
+        let start = 0;
+        for (const chunk of this.chunks) {
+            if (fromIndex < start + chunk.length) {
+                const found = chunk.indexOf(byte, Math.max(fromIndex - start, 0));
+                if (found !== -1) return start + found;
+            }
+            start += chunk.length;
+        }
+        return -1;
+    }
+
+    /**
+     * Returns the first `length` bytes (all of them by default) as one array without consuming them.
+     * The view stays valid after further pushes but must not be modified.
+     */
+    peek(length = this.size): Uint8Array {
+        if (length > this.size) {
+            throw new RangeError(`Cannot peek ${length} bytes, only ${this.size} buffered`);
+        }
+        if (length === 0) return new Uint8Array();
+
+        const first = this.chunks[0]!;
+        if (first.length >= length) return first.subarray(0, length);
+
+        // Join just the leading chunks the view needs, so the next peek of the same range is free
+        let count = 0;
+        let joinedLength = 0;
+        while (joinedLength < length) {
+            joinedLength += this.chunks[count++]!.length;
+        }
+        const joined = new Uint8Array(joinedLength);
+        let offset = 0;
+        for (const chunk of this.chunks.splice(0, count, joined)) {
+            joined.set(chunk, offset);
+            offset += chunk.length;
+        }
+        return joined.subarray(0, length);
+    }
+
+    /**
+     * Discards the first `length` bytes.
+     */
+    skip(length: number) {
+        length = Math.min(length, this.size);
+        this.size -= length;
+        while (length > 0) {
+            const first = this.chunks[0]!;
+            if (first.length > length) {
+                this.chunks[0] = first.subarray(length);
+                return;
+            }
+            this.chunks.shift();
+            length -= first.length;
+        }
+    }
+
+    /**
+     * Removes and returns the first `length` bytes (all of them by default).
+     */
+    read(length = this.size): Uint8Array {
+        const bytes = this.peek(length);
+        this.skip(length);
+        return bytes;
+    }
+
+    clear() {
+        this.chunks = [];
+        this.size = 0;
+    }
+}
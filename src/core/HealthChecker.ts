@@ -0,0 +1,170 @@
+import { defaultHealthCheckConfig, type BackendServer, type HealthCheckConfig } from '../config/config.js';
+import { globalMetrics, type MetricsRegistry } from '../lib/metrics/MetricsRegistry.js';
+import { noopLogger, type Logger } from '../lib/logging/Logger.js';
+import { backendKey } from './LoadBalancer.js';
+import type { ProxyProtocolVersion } from './proxy-protocol.js';
+import { queryServerStatus } from './status.js';
+
+/**
+ * Last known state of a backend.
+ */
+export interface BackendHealth {
+    host: string;
+    port: number;
+    /** Backends are assumed healthy until probes say otherwise */
+    healthy: boolean;
+    /** Status ping round-trip time of the last successful probe */
+    latencyMs: number | null;
+    onlinePlayers: number | null;
+    maxPlayers: number | null;
+    /** Unix timestamp (ms) of the last probe, null before the first one */
+    lastCheckedAt: number | null;
+    /** Error of the last failed probe */
+    lastError?: string;
+    consecutiveFailures: number;
+    consecutiveSuccesses: number;
+}
+
+export interface HealthCheckerOptions extends Partial<HealthCheckConfig> {
+    /** PROXY header version sent before each probe, for backends that require one */
+    proxyProtocol?: ProxyProtocolVersion;
+}
+
+/**
+ * Probes backends with a Minecraft status ping and tracks whether they are up.
+ */
+export class HealthChecker {
+    private options: HealthCheckConfig & HealthCheckerOptions;
+    private health = new Map<string, BackendHealth>();
+    private timer: ReturnType<typeof setInterval> | null = null;
+    private running: Promise<void> | null = null;
+
+    constructor(
+        options: HealthCheckerOptions = {},
+        private metrics: MetricsRegistry = globalMetrics,
+        private logger: Logger = noopLogger,
+    ) {
+        this.options = { ...defaultHealthCheckConfig, ...options };
+
+        this.metrics.registerGauge('proxy_backend_up', 'Whether the backend passes health checks (1) or not (0)', ['backend']);
+        this.metrics.registerGauge('proxy_backend_latency_ms', 'Status ping latency of the last successful health check', ['backend']);
+        this.metrics.registerGauge('proxy_backend_players_online', 'Players online reported by the backend', ['backend']);
+    }
+
+    /**
+     * Sets the backends to probe. State of backends that remain is kept.
+     */
+    setBackends(backends: BackendServer[]) {
+        const next = new Map<string, BackendHealth>();
+        for (const backend of backends) {
+            const key = backendKey(backend);
+            next.set(key, this.health.get(key) ?? {
+                host: backend.host,
+                port: backend.port,
+                healthy: true,
+                latencyMs: null,
+                onlinePlayers: null,
+                maxPlayers: null,
+                lastCheckedAt: null,
+                consecutiveFailures: 0,
+                consecutiveSuccesses: 0,
+            });
+        }
+        this.health = next;
+    }
+
+    /**
+     * Probes every backend now and then every `intervalMs`.
+     */
+    start() {
+        if (this.timer) return;
+        void this.checkAll();
+        this.timer = setInterval(() => void this.checkAll(), this.options.intervalMs);
+    }
+
+    stop() {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+
+    /**
+     * Probes every backend once. Overlapping calls share the same round of probes.
+     */
+    checkAll(): Promise<void> {
+        if (!this.running) {
+            this.running = Promise.all([...this.health.values()].map((entry) => this.check(entry)))
+                .then(() => {})
+                .finally(() => {
+                    this.running = null;
+                });
+        }
+        return this.running;
+    }
+
+    private async check(entry: BackendHealth) {
+        const key = backendKey(entry);
+        const wasHealthy = entry.healthy;
+
+        try {
+            const { status, latencyMs } = await queryServerStatus(entry.host, entry.port, {
+                timeoutMs: this.options.timeoutMs,
+                proxyProtocol: this.options.proxyProtocol,
+            });
+            entry.latencyMs = latencyMs;
+            entry.onlinePlayers = status.players?.online ?? null;
+            entry.maxPlayers = status.players?.max ?? null;
+            entry.lastError = undefined;
+            entry.consecutiveFailures = 0;
+            entry.consecutiveSuccesses++;
+            if (!entry.healthy && entry.consecutiveSuccesses >= this.options.healthyThreshold) {
+                entry.healthy = true;
+            }
+        } catch (err: unknown) {
+            entry.lastError = err instanceof Error ? err.message : String(err);
+            entry.consecutiveSuccesses = 0;
+            entry.consecutiveFailures++;
+            if (entry.healthy && entry.consecutiveFailures >= this.options.unhealthyThreshold) {
+                entry.healthy = false;
+            }
+        }
+        entry.lastCheckedAt = Date.now();
+
+        if (wasHealthy !== entry.healthy) {
+            if (entry.healthy) this.logger.info(`Backend ${key} is now healthy`);
+            else this.logger.warn(`Backend ${key} is now unhealthy`, { error: entry.lastError });
+        }
+
+        this.metrics.set('proxy_backend_up', entry.healthy ? 1 : 0, { backend: key });
+        if (entry.latencyMs !== null) {
+            this.metrics.set('proxy_backend_latency_ms', entry.latencyMs, { backend: key });
+        }
+        if (entry.onlinePlayers !== null) {
+            this.metrics.set('proxy_backend_players_online', entry.onlinePlayers, { backend: key });
+        }
+    }
+
+    /**
+     * Whether a backend may receive connections. Backends that are not
+     * probed are always considered healthy.
+     */
+    isHealthy(backend: BackendServer): boolean {
+        return this.health.get(backendKey(backend))?.healthy ?? true;
+    }
+
+    /**
+     * Health of a single backend, or undefined if it is not probed.
+     */
+    get(backend: BackendServer): BackendHealth | undefined {
+        const entry = this.health.get(backendKey(backend));
+        return entry ? { ...entry } : undefined;
+    }
+
+    /**
+     * Health of every probed backend.
+     */
+    getAll(): BackendHealth[] {
+        return [...this.health.values()].map((entry) => ({ ...entry }));
+    }
+}
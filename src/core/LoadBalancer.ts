@@ -0,0 +1,101 @@
+import type { BackendServer, LoadBalanceStrategy } from '../config/config.js';
+
+/**
+ * What is known about a connection when its backend is picked.
+ */
+export interface BalanceContext {
+    /** Client IP, used by `sticky-ip` */
+    ip?: string;
+    /** Player name, used by `sticky-username`; falls back to the IP when unknown (e.g. status pings) */
+    username?: string;
+}
+
+/**
+ * Identifies a backend as `host:port`.
+ */
+export function backendKey(backend: BackendServer): string {
+    return `${backend.host}:${backend.port}`;
+}
+
+/**
+ * FNV-1a hash, stable across restarts so sticky clients keep their backend.
+ */
+function hashKey(value: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+/**
+ * Picks backends from a pool and tracks the connections proxied to each.
+ */
+export class LoadBalancer {
+    /** Next round-robin index per pool */
+    private cursors = new Map<string, number>();
+    /** Open connections per backend (`host:port`) */
+    private connections = new Map<string, number>();
+
+    /**
+     * Orders a pool for a new connection: the backend chosen by the strategy
+     * comes first, followed by the others to fail over to.
+     * @param poolId Identifies the pool for round-robin state (e.g. the route host)
+     */
+    order(poolId: string, backends: BackendServer[], strategy: LoadBalanceStrategy, context: BalanceContext = {}): BackendServer[] {
+        if (backends.length <= 1) return [...backends];
+
+        switch (strategy) {
+            case 'round-robin': {
+                const start = (this.cursors.get(poolId) ?? 0) % backends.length;
+                this.cursors.set(poolId, start + 1);
+                return rotate(backends, start);
+            }
+            case 'least-connections':
+                // Stable sort keeps config order between backends with equal load
+                return [...backends].sort((a, b) => this.getConnections(a) - this.getConnections(b));
+            case 'random':
+                return rotate(backends, Math.floor(Math.random() * backends.length));
+            case 'sticky-ip':
+            case 'sticky-username': {
+                const key = strategy === 'sticky-username' && context.username
+                    ? context.username.toLowerCase()
+                    : context.ip ?? '';
+                return rotate(backends, hashKey(key) % backends.length);
+            }
+        }
+    }
+
+    /**
+     * Records a connection to a backend. Returns a function that releases it;
+     * calling the release more than once has no further effect.
+     */
+    acquire(backend: BackendServer): () => void {
+        const key = backendKey(backend);
+        this.connections.set(key, (this.connections.get(key) ?? 0) + 1);
+
+        let released = false;
+        return () => {
+            if (released) return;
+            released = true;
+            const remaining = (this.connections.get(key) ?? 1) - 1;
+            if (remaining > 0) {
+                this.connections.set(key, remaining);
+            } else {
+                this.connections.delete(key);
+            }
+        };
+    }
+
+    /**
+     * Number of open connections to a backend.
+     */
+    getConnections(backend: BackendServer): number {
+        return this.connections.get(backendKey(backend)) ?? 0;
+    }
+}
+
+function rotate<T>(items: T[], start: number): T[] {
+    return [...items.slice(start), ...items.slice(0, start)];
+}
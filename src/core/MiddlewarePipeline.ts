@@ -0,0 +1,132 @@
+import type { Connection } from '../transports/Transport.js';
+import type { Handshake } from './handshake.js';
+import type { LoginStart } from './login.js';
+import type { RouteTarget } from './router.js';
+
+/**
+ * Per-connection view handed to every middleware hook.
+ */
+export interface MiddlewareContext {
+    readonly client: Connection;
+    /** Route picked for the connection; null until the handshake hooks have run */
+    target: RouteTarget | null;
+    handshake: Handshake | null;
+    /** Set for logins once Login Start has been read */
+    player: LoginStart | null;
+    /** Storage shared by all middleware for this connection */
+    readonly state: Map<string, unknown>;
+    /** Writes bytes to the client without passing them through `onServerData` */
+    sendToClient(data: Uint8Array): void;
+    /**
+     * Writes bytes to the backend without passing them through `onClientData`.
+     * Bytes sent before the backend is connected follow the handshake.
+     */
+    sendToServer(data: Uint8Array): void;
+    /**
+     * Ends the connection. A reason is sent as a Login Disconnect while the
+     * player is still logging in, and ignored once bytes are being tunnelled.
+     */
+    disconnect(reason?: string): void;
+}
+
+/**
+ * Hooks into a proxied connection. Every hook is optional and synchronous.
+ *
+ * Hooks that receive a value may return a replacement, return nothing to keep
+ * it (including any changes made to it in place), or return null to drop it.
+ * Dropping a handshake or Login Start closes the connection; dropping data
+ * discards just that chunk.
+ */
+export interface ProxyMiddleware {
+    /** Shown in debug logs */
+    name?: string;
+    /**
+     * Runs before routing, so a changed `serverAddress` picks the route.
+     * Changes are forwarded to the backend.
+     */
+    onHandshake?(handshake: Handshake, context: MiddlewareContext): Handshake | null | void;
+    /** Runs for logins when the protocol can parse Login Start; changes are forwarded to the backend */
+    onLoginStart?(player: LoginStart, context: MiddlewareContext): LoginStart | null | void;
+    /** Client bytes on their way to the backend, after the handshake and Login Start */
+    onClientData?(data: Uint8Array, context: MiddlewareContext): Uint8Array | null | void;
+    /** Backend bytes on their way to the client */
+    onServerData?(data: Uint8Array, context: MiddlewareContext): Uint8Array | null | void;
+    /** Runs once when the client connection closes */
+    onClose?(context: MiddlewareContext): void;
+}
+
+/**
+ * Ordered chain of middleware. Each hook receives the previous one's result;
+ * a hook that drops the value stops the chain.
+ */
+export class MiddlewarePipeline {
+    private middleware: ProxyMiddleware[] = [];
+
+    get size(): number {
+        return this.middleware.length;
+    }
+
+    /**
+     * Appends middleware to the end of the chain.
+     */
+    use(middleware: ProxyMiddleware) {
+        this.middleware.push(middleware);
+    }
+
+    /**
+     * Removes middleware added with `use`. Returns false if it was not in the chain.
+     */
+    remove(middleware: ProxyMiddleware): boolean {
+        const index = this.middleware.indexOf(middleware);
+        if (index === -1) return false;
+        this.middleware.splice(index, 1);
+        return true;
+    }
+
+    handshake(handshake: Handshake, context: MiddlewareContext): Handshake | null {
+        return this.run('onHandshake', { ...handshake }, context);
+    }
+
+    loginStart(player: LoginStart, context: MiddlewareContext): LoginStart | null {
+        return this.run('onLoginStart', { ...player }, context);
+    }
+
+    clientData(data: Uint8Array, context: MiddlewareContext): Uint8Array | null {
+        return this.run('onClientData', data, context);
+    }
+
+    serverData(data: Uint8Array, context: MiddlewareContext): Uint8Array | null {
+        return this.run('onServerData', data, context);
+    }
+
+    /**
+     * Runs every `onClose` hook, even if an earlier one throws. The first error is rethrown afterwards.
+     */
+    close(context: MiddlewareContext) {
+        let failure: unknown = null;
+        for (const middleware of this.middleware) {
+            try {
+                middleware.onClose?.(context);
+            } catch (error) {
+                failure ??= error;
+            }
+        }
+        if (failure) throw failure;
+    }
+
+    private run<T>(
+        hook: 'onHandshake' | 'onLoginStart' | 'onClientData' | 'onServerData',
+        value: T,
+        context: MiddlewareContext,
+    ): T | null {
+        for (const middleware of this.middleware) {
+            const handler = middleware[hook] as ((value: T, context: MiddlewareContext) => T | null | void) | undefined;
+            if (!handler) continue;
+
+            const result = handler.call(middleware, value, context);
+            if (result === null) return null;
+            if (result !== undefined) value = result;
+        }
+        return value;
+    }
+}
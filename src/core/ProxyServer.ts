@@ -1,122 +1,839 @@
-import { createConfig, type ProxyConfig } from '../config/config.js';
+import {
+    createConfig,
+    defaultMaintenanceConfig,
+    type BackendServer,
+    type HandshakeRewrite,
+    type MaintenanceConfig,
+    type ProxyConfig,
+    type ProxyRoute,
+    type VersionPolicy,
+} from '../config/config.js';
 import type { Transport, Connection } from '../transports/Transport.js';
 import { TcpTransport } from '../transports/TcpTransport.js';
 import { UdpTransport } from '../transports/UdpTransport.js';
 import type { Protocol, Packet } from '../protocols/Protocol.js';
 import { MinecraftProtocol } from '../protocols/MinecraftProtocol.js';
+import { resolveRoute, routeBackends, type RouteTarget } from './router.js';
+import { decodeFrame, readPacket, type DecodeResult } from './packet.js';
+import { ChunkBuffer } from './ChunkBuffer.js';
+import { PING_ID, STATUS_REQUEST_ID, writePong, writeStatusResponse, type ServerStatus } from './status.js';
+import { StatusResponder, resolveStatusConfig } from './StatusResponder.js';
+import { writeLoginDisconnect, writeLoginStart, type LoginStart } from './login.js';
+import { AccessList } from '../lib/access/AccessList.js';
+import { LEGACY_PING_ID, toLegacyStatus, writeLegacyKick, type LegacyPing } from './legacy-ping.js';
+import { LoadBalancer, backendKey } from './LoadBalancer.js';
+import { HealthChecker, type BackendHealth } from './HealthChecker.js';
+import { writeProxyHeader } from './proxy-protocol.js';
+import { offlineUuid, writeBungeeCordAddress } from './forwarding.js';
+import { isLoginIntent, parseHandshake, writeHandshake, type Handshake } from './handshake.js';
+import { versionRegistry } from './VersionRegistry.js';
+import { globalMetrics, SESSION_BUCKETS } from '../lib/metrics/MetricsRegistry.js';
+import { createLogger, type Logger, type StructuredLogger } from '../lib/logging/Logger.js';
+import { MetricsServer } from '../lib/metrics/MetricsServer.js';
+import { MiddlewarePipeline, type MiddlewareContext, type ProxyMiddleware } from './MiddlewarePipeline.js';
+import { TypedEventEmitter } from '../lib/events/TypedEventEmitter.js';
 
 const MAX_HANDSHAKE_SIZE = 4096; // 4KB
 const HANDSHAKE_TIMEOUT_MS = 5000;
+// Wait for a lone 0xFE to turn into a 1.4+ legacy ping before answering it as Beta 1.8 - 1.3
+const LEGACY_PING_GRACE_MS = 250;
 
-export class ProxyServer {
+type ClientPhase = 'handshake' | 'login' | 'connecting' | 'status' | 'proxying' | 'closed';
+
+/**
+ * What a handshake rewriter knows about the connection.
+ */
+export interface HandshakeRewriteContext {
+    client: Connection;
+    target: RouteTarget;
+    /** Set for logins once Login Start has been read */
+    player?: LoginStart;
+}
+
+/**
+ * Returns the handshake fields to change before forwarding, or nothing to keep them.
+ * Runs after the route's `rewrite` settings and before IP forwarding.
+ */
+export type HandshakeRewriter = (handshake: Readonly<Handshake>, context: HandshakeRewriteContext) => HandshakeRewrite | null | undefined | void;
+
+/**
+ * Events emitted by `ProxyServer`, keyed by name.
+ */
+export interface ProxyEvents {
+    listening: { port: number; transport: 'tcp' | 'udp' };
+    connection: { client: Connection };
+    /** A Minecraft handshake was read and routed */
+    handshake: { client: Connection; handshake: Handshake; target: RouteTarget };
+    backendConnected: { client: Connection; backend: BackendServer };
+    /** A backend could not be reached; the next one in the pool may still be tried */
+    backendFailed: { client: Connection; backend: BackendServer; error: Error };
+    /** A client connection ended. Fired once per `connection`. */
+    closed: {
+        client: Connection;
+        /** Backend the client was tunnelled to, if any */
+        backend: BackendServer | null;
+        /** Set for logins once Login Start was read */
+        player: LoginStart | null;
+        /** Bytes received from the client */
+        bytesIn: number;
+        /** Bytes forwarded from the backend to the client */
+        bytesOut: number;
+        durationMs: number;
+    };
+    /** Protocol, middleware and socket errors. The connection is closed. */
+    error: { client?: Connection; error: Error };
+}
+
+/** Per-connection numbers reported in the `closed` event and to metrics */
+interface ConnectionStats {
+    /** `performance.now()` when the client connected */
+    startedAt: number;
+    /** `performance.now()` when the client's first bytes arrived */
+    firstByteAt: number | null;
+    bytesIn: number;
+    bytesOut: number;
+    /** `route` label value, set once the connection is routed */
+    route: string | null;
+    backend: BackendServer | null;
+}
+
+export class ProxyServer extends TypedEventEmitter<ProxyEvents> {
     private transport: Transport;
     private protocol: Protocol;
     private config: ProxyConfig;
+    private statusResponder: StatusResponder;
+    /** Runtime maintenance toggles keyed by route host ('' for the whole proxy) */
+    private maintenanceOverrides = new Map<string, boolean>();
+    private accessList: AccessList | null = null;
+    private loadBalancer = new LoadBalancer();
+    private healthChecker: HealthChecker | null = null;
+    private handshakeRewriter: HandshakeRewriter | null = null;
+    private middleware = new MiddlewarePipeline();
+    private metricsServer: MetricsServer | null = null;
+    private logger: Logger;
+    /** Logger built from `config.logging`, closed on stop */
+    private ownLogger: StructuredLogger | null = null;
+    private nextConnId = 1;
 
-    constructor(config?: Partial<ProxyConfig>, protocol?: Protocol) {
-        this.config = createConfig(config);
+    /**
+     * @param logger Replaces the logger built from `config.logging`
+     */
+    constructor(config?: Partial<ProxyConfig>, protocol?: Protocol, logger?: Logger) {
+        const resolved = createConfig(config);
+        const ownLogger = logger ? null : createLogger(resolved.logging, resolved.debug);
+        const log = (logger ?? ownLogger!).child({ component: 'Proxy' });
+        super(log);
+        this.config = resolved;
+        this.ownLogger = ownLogger;
+        this.logger = log;
         
         if (this.config.transportType === 'udp') {
-            this.transport = new UdpTransport();
+            this.transport = new UdpTransport(this.logger);
         } else {
-            this.transport = new TcpTransport();
+            this.transport = new TcpTransport({ trustedProxies: this.config.proxyProtocol?.trustedProxies, logger: this.logger });
         }
 
         this.protocol = protocol || new MinecraftProtocol();
+        // Backends expecting PROXY headers from players reject status queries without one
+        const probeProxyProtocol = this.config.transportType === 'tcp' ? this.config.proxyProtocol?.send : undefined;
+        this.statusResponder = new StatusResponder(this.logger.child({ component: 'Status' }), probeProxyProtocol);
+
+        if (this.config.accessListFile) {
+            this.accessList = new AccessList({ fileName: this.config.accessListFile, silent: !this.config.debug });
+        }
+
+        // Fail on unknown version names now rather than on the first login
+        for (const policy of [this.config.versions, ...(this.config.routes ?? []).map((r) => r.versions)]) {
+            if (policy?.min !== undefined) versionRegistry.resolve(policy.min);
+            if (policy?.max !== undefined) versionRegistry.resolve(policy.max);
+        }
+        this.registerMetrics();
+
+        if (this.config.healthCheck?.enabled) {
+            this.healthChecker = new HealthChecker(
+                { ...this.config.healthCheck, proxyProtocol: probeProxyProtocol },
+                undefined,
+                this.logger.child({ component: 'Health' }),
+            );
+            this.healthChecker.setBackends(this.getConfiguredBackends());
+        }
+
+        if (this.config.metrics) {
+            this.metricsServer = new MetricsServer(this.config.metrics);
+        }
     }
 
     async start() {
+        if (this.accessList) {
+            await this.accessList.load();
+        }
+        this.healthChecker?.start();
+        this.metricsServer?.start();
         this.transport.onConnection((client) => this.handleClient(client));
         await this.transport.listen(this.config.proxyPort);
-        if (this.config.debug) {
-            console.log(`[Proxy] Listening on ${this.config.transportType.toUpperCase()} :${this.config.proxyPort}`);
-        }
+        this.logger.info(`Listening on ${this.config.transportType.toUpperCase()} :${this.config.proxyPort}`);
+        this.emit('listening', { port: this.config.proxyPort, transport: this.config.transportType });
     }
 
     stop() {
         this.transport.close();
+        this.accessList?.close();
+        this.healthChecker?.stop();
+        this.metricsServer?.stop();
+        this.ownLogger?.close();
     }
 
     private handleClient(client: Connection) {
-        const log = this.config.debug ? console.log : () => {};
-        log(`[Proxy] New connection from ${client.remoteAddress}:${client.remotePort}`);
+        const log = this.logger.child({ connId: this.nextConnId++, remote: client.remoteAddress });
+        log.debug(`New connection from ${client.remoteAddress}:${client.remotePort}${client.proxyAddress ? ` via ${client.proxyAddress}` : ''}`);
+        const stats: ConnectionStats = { startedAt: performance.now(), firstByteAt: null, bytesIn: 0, bytesOut: 0, route: null, backend: null };
+        client.data = { ...client.data, stats, log };
+        this.emit('connection', { client });
 
-        let buffer: Uint8Array = new Uint8Array();
-        let connected = false;
+        let phase: ClientPhase = 'handshake';
+        const buffer = new ChunkBuffer();
         let backend: Connection | null = null;
-        let isHandshakeComplete = false;
+        let statusSession: ((data: Uint8Array) => Promise<void>) | null = null;
+
+        // Filled in once the handshake is parsed
+        let handshakeSize = 0;
+        let handshake: Handshake | null = null;
+        let legacyPing: LegacyPing | null = null;
+        let target: RouteTarget | null = null;
+        let loginStartSize = 0;
+
+        // Bytes middleware sends to the backend before it is connected
+        const injected: Uint8Array[] = [];
+        const context: MiddlewareContext = {
+            client,
+            target: null,
+            handshake: null,
+            player: null,
+            state: new Map(),
+            sendToClient: (data) => client.write(data),
+            sendToServer: (data) => {
+                if (phase === 'proxying' && backend) backend.write(data);
+                else injected.push(data);
+            },
+            disconnect: (reason) => {
+                const loggingIn = phase === 'handshake' || phase === 'login' || phase === 'connecting';
+                phase = 'closed';
+                if (reason && loggingIn) this.disconnect(client, reason);
+                else client.close();
+            },
+        };
+        client.data = { ...client.data, middleware: context };
+        let closeNotified = false;
 
         const handshakeTimeout = setTimeout(() => {
-            if (!isHandshakeComplete) {
-                log('[Proxy] Handshake timeout');
+            if (phase === 'handshake' || phase === 'login') {
+                log.debug('Handshake timeout');
                 client.close();
             }
         }, HANDSHAKE_TIMEOUT_MS);
+        let legacyGrace: Timer | undefined;
 
         const cleanup = () => {
+            phase = 'closed';
             clearTimeout(handshakeTimeout);
+            clearTimeout(legacyGrace);
             if (backend) backend.close();
+            if (!closeNotified) {
+                closeNotified = true;
+                try {
+                    this.middleware.close(context);
+                } catch (e: unknown) {
+                    log.warn('Middleware error on close', { error: e });
+                    this.emit('error', { client, error: toError(e) });
+                }
+                this.emit('closed', {
+                    client,
+                    backend: stats.backend,
+                    player: context.player,
+                    bytesIn: stats.bytesIn,
+                    bytesOut: stats.bytesOut,
+                    durationMs: performance.now() - stats.startedAt,
+                });
+                this.recordSession(stats);
+            }
+        };
+
+        const startStatusSession = async (getStatus: () => Promise<ServerStatus>, pending: Uint8Array) => {
+            phase = 'status';
+            buffer.clear();
+            statusSession = this.createStatusSession(client, getStatus);
+            await statusSession(pending);
+        };
+
+        const connect = async () => {
+            clearTimeout(handshakeTimeout);
+
+            if (handshake && isLoginIntent(handshake.nextState) && this.accessList) {
+                const player = client.data?.['player'] as LoginStart | undefined;
+                const decision = this.accessList.check({
+                    username: player?.username,
+                    uuid: player?.uuid,
+                    ip: client.remoteAddress,
+                });
+                if (!decision.allowed) {
+                    log.info(`Rejected ${player?.username ?? client.remoteAddress}: ${decision.reason}`);
+                    phase = 'closed';
+                    this.disconnect(client, decision.reason);
+                    return;
+                }
+            }
+
+            phase = 'connecting';
+
+            // Data arriving while the backend connects is kept in `buffer` and flushed after
+            const received = buffer.read();
+            const forwarded = this.filterInitialData(received, handshakeSize + loginStartSize, context);
+            const initialData = handshake ? this.rewriteHandshake(client, handshake, handshakeSize, forwarded, target!) : forwarded;
+
+            if (!await this.connectBackend(client, initialData, target!)) {
+                const statusSettings = handshake?.nextState === 1 || legacyPing ? resolveStatusConfig(this.config, target!.route) : null;
+                if (legacyPing && statusSettings?.fallbackMotd !== undefined) {
+                    log.debug('Backend unreachable, answering legacy ping with fallback status');
+                    phase = 'closed';
+                    await this.respondLegacyPing(client, this.statusResponder.buildStatus(
+                        statusSettings, legacyHandshake(legacyPing, target!), statusSettings.fallbackMotd));
+                    return;
+                }
+                if (handshake && statusSettings?.fallbackMotd !== undefined) {
+                    log.debug('Backend unreachable, serving fallback status');
+                    const parsed = handshake;
+                    const rest = buffer.read();
+                    const pending = new Uint8Array(received.length - handshakeSize + rest.length);
+                    pending.set(received.subarray(handshakeSize));
+                    pending.set(rest, received.length - handshakeSize);
+                    await startStatusSession(() =>
+                        this.statusResponder.buildStatus(statusSettings, parsed, statusSettings.fallbackMotd), pending);
+                    return;
+                }
+                phase = 'closed';
+                client.close();
+                return;
+            }
+
+            // Safely retrieve backend from data
+            backend = (client.data?.['backend'] as Connection) || null;
+
+            // The client may have gone away while we were connecting
+            if ((phase as ClientPhase) === 'closed') {
+                backend?.close();
+                return;
+            }
+            phase = 'proxying';
+
+            if (backend) {
+                for (const data of injected.splice(0)) backend.write(data);
+                const pending = buffer.length > 0 ? this.middlewareData('clientData', buffer.read(), context) : null;
+                if (pending) backend.write(pending);
+            }
+            buffer.clear();
+        };
+
+        // Parsing runs synchronously so protocol errors close the client immediately
+        const advance = (complete: boolean): Promise<void> | void => {
+            if (phase === 'handshake') {
+                const result = this.decodePacket(buffer, complete);
+                if (result.status === 'incomplete') return;
+                if (result.status === 'invalid') throw new Error(result.reason);
+                const packet = result.packet;
+
+                log.trace('Handshake parsed', { handshake: packet.data });
+                handshakeSize = packet.size;
+                handshake = isHandshake(packet.data) ? packet.data : null;
+                legacyPing = isLegacyPingData(packet.data) ? packet.data : null;
+
+                if (handshake && this.middleware.size > 0) {
+                    const replaced = this.middleware.handshake(handshake, context);
+                    if ((phase as ClientPhase) === 'closed') return;
+                    if (!replaced) {
+                        log.debug('Handshake dropped by middleware');
+                        phase = 'closed';
+                        client.close();
+                        return;
+                    }
+                    if (!sameHandshake(replaced, handshake)) {
+                        // Swap the client's handshake bytes so routing and forwarding see the new one
+                        const encoded = writeHandshake(replaced);
+                        const rest = buffer.read().subarray(handshakeSize);
+                        buffer.push(encoded);
+                        buffer.push(rest);
+                        handshakeSize = encoded.length;
+                        handshake = parseHandshake(encoded).handshake;
+                    }
+                }
+
+                target = this.resolveTarget(handshake ?? packet.data);
+                context.handshake = handshake;
+                context.target = target;
+                stats.route = routeLabel(target.route);
+                globalMetrics.observe('proxy_handshake_parse_seconds', (performance.now() - stats.firstByteAt!) / 1000, { route: stats.route });
+                log.debug(`Routing to ${target.host}:${target.port}${target.route ? ` (route ${target.route.host})` : ''}`);
+                if (handshake) this.emit('handshake', { client, handshake, target });
+
+                if (legacyPing) {
+                    const settings = resolveStatusConfig(this.config, target.route);
+                    const maintenance = this.getActiveMaintenance(target.route);
+                    const fakeHandshake = legacyHandshake(legacyPing, target);
+
+                    if (maintenance || settings.legacyPing === 'respond') {
+                        clearTimeout(handshakeTimeout);
+                        phase = 'closed';
+                        const { host, port } = target;
+                        return this.respondLegacyPing(client, maintenance
+                            ? this.statusResponder.buildStatus(settings, fakeHandshake, maintenance.motd)
+                            : settings.mode === 'cached'
+                                ? this.statusResponder.getCachedStatus(settings, fakeHandshake, host, port)
+                                : this.statusResponder.buildStatus(settings, fakeHandshake));
+                    }
+                    // Forward the raw legacy ping to the backend
+                    return connect();
+                }
+
+                if (handshake) {
+                    const parsed = handshake;
+                    const version = versionRegistry.getLabel(parsed.protocolVersion);
+                    log.debug(`Client version ${versionRegistry.format(parsed.protocolVersion)}`);
+                    globalMetrics.increment('proxy_client_versions_total', {
+                        version,
+                        next_state: parsed.nextState === 1 ? 'status' : 'login',
+                    });
+
+                    const maintenance = this.getActiveMaintenance(target.route);
+                    if (maintenance) {
+                        clearTimeout(handshakeTimeout);
+                        if (parsed.nextState === 1) {
+                            const settings = resolveStatusConfig(this.config, target.route);
+                            return startStatusSession(() =>
+                                this.statusResponder.buildStatus(settings, parsed, maintenance.motd), buffer.peek().subarray(handshakeSize));
+                        }
+                        log.debug('Maintenance mode active, disconnecting player');
+                        this.disconnect(client, maintenance.kickMessage);
+                        return;
+                    }
+
+                    const versions = this.getVersionPolicy(target.route);
+                    if (parsed.nextState !== 1 && versions && !versionRegistry.isAllowed(parsed.protocolVersion, versions)) {
+                        clearTimeout(handshakeTimeout);
+                        log.info(`Rejected unsupported version ${versionRegistry.format(parsed.protocolVersion)}`);
+                        phase = 'closed';
+                        this.disconnect(client, versionRegistry.rejectionMessage(parsed.protocolVersion, versions));
+                        return;
+                    }
+
+                    // Status pings may be answered by the proxy itself
+                    if (parsed.nextState === 1) {
+                        const statusSettings = resolveStatusConfig(this.config, target.route);
+                        if (statusSettings.mode !== 'passthrough') {
+                            clearTimeout(handshakeTimeout);
+                            const { host, port } = target;
+                            return startStatusSession(() => statusSettings.mode === 'cached'
+                                ? this.statusResponder.getCachedStatus(statusSettings, parsed, host, port)
+                                : this.statusResponder.buildStatus(statusSettings, parsed), buffer.peek().subarray(handshakeSize));
+                        }
+                    } else if (isLoginIntent(parsed.nextState) && this.protocol.parseLoginStart) {
+                        // Hold the connection until Login Start identifies the player
+                        phase = 'login';
+                    }
+                }
+
+                if (phase === 'handshake') {
+                    return connect();
+                }
+            }
+
+            if (phase === 'login') {
+                // Wait for the whole Login Start frame before joining the buffered chunks
+                const frame = decodeFrame(buffer, handshakeSize, MAX_HANDSHAKE_SIZE);
+                if (frame.status === 'incomplete') return;
+                if (frame.status === 'invalid') throw new Error(frame.reason);
+
+                const packet = this.protocol.parseLoginStart!(buffer.peek().subarray(handshakeSize), handshake!.protocolVersion);
+                if (!packet) return;
+
+                let player = packet.data as LoginStart;
+                loginStartSize = packet.size;
+
+                if (this.middleware.size > 0) {
+                    const replaced = this.middleware.loginStart(player, context);
+                    if ((phase as ClientPhase) === 'closed') return;
+                    if (!replaced) {
+                        log.debug('Login Start dropped by middleware');
+                        phase = 'closed';
+                        client.close();
+                        return;
+                    }
+                    if (replaced.username !== player.username || replaced.uuid !== player.uuid) {
+                        const encoded = writeLoginStart(replaced, handshake!.protocolVersion);
+                        const received = buffer.read();
+                        buffer.push(received.subarray(0, handshakeSize));
+                        buffer.push(encoded);
+                        buffer.push(received.subarray(handshakeSize + packet.size));
+                        loginStartSize = encoded.length;
+                    }
+                    player = replaced;
+                }
+
+                context.player = player;
+                client.data = { ...client.data, player };
+                log.info(`Login from ${player.username}${player.uuid ? ` (${player.uuid})` : ''}`);
+
+                return connect();
+            }
+        };
+
+        const step = async (complete: boolean) => {
+            try {
+                await advance(complete);
+            } catch (e: unknown) {
+                log.debug('Handshake error or unknown protocol', { error: e });
+                this.emit('error', { client, error: toError(e) });
+                phase = 'closed';
+                client.close();
+            }
         };
 
         client.on('data', async (dataArg: unknown) => {
             const data = dataArg as Uint8Array;
-            if (connected && backend) {
-                backend.write(data);
+            stats.firstByteAt ??= performance.now();
+            stats.bytesIn += data.length;
+            if (phase === 'proxying' && backend) {
+                const forwarded = this.middlewareData('clientData', data, context);
+                if (forwarded) backend.write(forwarded);
+                return;
+            }
+
+            if (phase === 'status' && statusSession) {
+                await statusSession(data);
                 return;
             }
 
+            if (phase === 'closed') return;
+
             // Buffer logic
             if (buffer.length + data.length > MAX_HANDSHAKE_SIZE) {
-                log('[Proxy] Handshake buffer overflow');
+                log.debug('Handshake buffer overflow');
                 client.close();
                 return;
             }
 
-            const newBuffer = new Uint8Array(buffer.length + data.length);
-            newBuffer.set(buffer);
-            newBuffer.set(data, buffer.length);
-            buffer = newBuffer;
+            buffer.push(data);
+            clearTimeout(legacyGrace);
 
-            if (!isHandshakeComplete) {
-                try {
-                    const packet = this.protocol.parse(buffer);
-                    if (packet) {
-                        isHandshakeComplete = true;
-                        clearTimeout(handshakeTimeout);
-                        
-                        log('[Proxy] Handshake parsed:', packet.data);
-                        
-                        // Decide backend? 
-                        await this.connectBackend(client, buffer); // Send accumulated buffer
-                        
-                        // Safely retrieve backend from data
-                        backend = (client.data?.['backend'] as Connection) || null;
-                        
-                        connected = true;
-                        buffer = new Uint8Array(); // clear
-                    }
-                } catch (e: unknown) {
-                    const msg = e instanceof Error ? e.message : String(e);
-                    log('[Proxy] Handshake error or unknown protocol:', msg);
-                    client.close();
-                }
+            if (phase === 'connecting') return;
+
+            await step(false);
+            if (phase === 'handshake' && buffer.length === 1 && buffer.byteAt(0) === LEGACY_PING_ID) {
+                legacyGrace = setTimeout(() => step(true), LEGACY_PING_GRACE_MS);
             }
         });
 
         client.on('close', () => {
-            log('[Proxy] Client closed');
+            log.debug('Client closed');
             cleanup();
         });
 
         client.on('error', (err: unknown) => {
-            log('[Proxy] Client error:', err);
+            log.debug('Client error', { error: err });
+            this.emit('error', { client, error: toError(err) });
             cleanup();
         });
     }
 
-    private async connectBackend(client: Connection, initialData: Uint8Array) {
-        const log = this.config.debug ? console.log : () => {};
-        
+    /**
+     * Appends middleware to the chain run for every connection. Hooks run in the order added.
+     */
+    use(middleware: ProxyMiddleware): this {
+        this.middleware.use(middleware);
+        return this;
+    }
+
+    /**
+     * Removes middleware added with `use`. Returns false if it was not registered.
+     */
+    removeMiddleware(middleware: ProxyMiddleware): boolean {
+        return this.middleware.remove(middleware);
+    }
+
+    /**
+     * Runs a data hook, closing the client if middleware throws. Returns null for dropped chunks.
+     */
+    private middlewareData(hook: 'clientData' | 'serverData', data: Uint8Array, context: MiddlewareContext): Uint8Array | null {
+        if (this.middleware.size === 0) return data;
+        try {
+            return this.middleware[hook](data, context);
+        } catch (e: unknown) {
+            connectionLog(context.client, this.logger).warn(`Middleware error in ${hook}`, { error: e });
+            this.emit('error', { client: context.client, error: toError(e) });
+            context.disconnect();
+            return null;
+        }
+    }
+
+    /**
+     * Passes the client bytes that follow the handshake and Login Start through `onClientData`.
+     */
+    private filterInitialData(received: Uint8Array, headerSize: number, context: MiddlewareContext): Uint8Array {
+        if (this.middleware.size === 0 || received.length <= headerSize) return received;
+
+        const tail = this.middlewareData('clientData', received.subarray(headerSize), context) ?? new Uint8Array();
+        const result = new Uint8Array(headerSize + tail.length);
+        result.set(received.subarray(0, headerSize));
+        result.set(tail, headerSize);
+        return result;
+    }
+
+    /**
+     * Forwards backend bytes to the client through `onServerData`.
+     */
+    private forwardToClient(client: Connection, data: Uint8Array) {
+        const context = client.data?.['middleware'] as MiddlewareContext | undefined;
+        const forwarded = context ? this.middlewareData('serverData', data, context) : data;
+        if (!forwarded) return;
+        const stats = client.data?.['stats'] as ConnectionStats | undefined;
+        if (stats) stats.bytesOut += forwarded.length;
+        client.write(forwarded);
+    }
+
+    /**
+     * Decodes the first packet with the protocol's incremental decoder, or with
+     * `parse` over the joined buffer for protocols that only implement that.
+     */
+    private decodePacket(buffer: ChunkBuffer, complete: boolean): DecodeResult<Packet> {
+        if (this.protocol.decode) return this.protocol.decode(buffer, complete);
+        const packet = this.protocol.parse(buffer.peek());
+        return packet ? { status: 'packet', packet, size: packet.size } : { status: 'incomplete' };
+    }
+
+    /**
+     * Answers a legacy (0xFE) ping with a kick string and closes the connection.
+     */
+    private async respondLegacyPing(client: Connection, status: Promise<ServerStatus>) {
+        try {
+            client.write(writeLegacyKick(toLegacyStatus(await status)));
+        } finally {
+            client.close();
+        }
+    }
+
+    /**
+     * Sends a Login Disconnect with the given reason and closes the connection.
+     */
+    private disconnect(client: Connection, reason: string) {
+        client.write(writeLoginDisconnect(reason));
+        client.close();
+    }
+
+    /**
+     * Answers Status Request and Ping packets locally instead of tunnelling them.
+     * Packets are processed one at a time in arrival order; the connection is
+     * closed after the Pong, as a vanilla server does.
+     */
+    private createStatusSession(client: Connection, getStatus: () => Promise<ServerStatus>) {
+        const log = connectionLog(client, this.logger);
+        const pending = new ChunkBuffer();
+        let queue = Promise.resolve();
+        let done = false;
+
+        const nextPacket = () => {
+            const frame = decodeFrame(pending);
+            if (frame.status === 'invalid') throw new Error(frame.reason);
+            return frame.status === 'packet' ? readPacket(pending.peek(frame.size)) : null;
+        };
+
+        const process = async (data: Uint8Array) => {
+            if (done) return;
+            pending.push(data);
+
+            if (pending.length > MAX_HANDSHAKE_SIZE) {
+                log.debug('Status buffer overflow');
+                done = true;
+                client.close();
+                return;
+            }
+
+            try {
+                let packet = nextPacket();
+                while (packet && !done) {
+                    pending.skip(packet.size);
+
+                    if (packet.id === STATUS_REQUEST_ID) {
+                        client.write(writeStatusResponse(await getStatus()));
+                    } else if (packet.id === PING_ID) {
+                        client.write(writePong(packet.payload));
+                        done = true;
+                        client.close();
+                    } else {
+                        throw new Error(`Unexpected status packet 0x${packet.id.toString(16)}`);
+                    }
+
+                    packet = nextPacket();
+                }
+            } catch (e: unknown) {
+                log.debug('Status error', { error: e });
+                done = true;
+                client.close();
+            }
+        };
+
+        return (data: Uint8Array) => {
+            queue = queue.then(() => process(data));
+            return queue;
+        };
+    }
+
+    /**
+     * Toggles maintenance mode at runtime, overriding the configured value.
+     * @param routeHost Host pattern of the route to toggle; omit for the whole proxy
+     */
+    setMaintenance(enabled: boolean, routeHost?: string) {
+        this.maintenanceOverrides.set(routeHost ?? '', enabled);
+    }
+
+    /**
+     * Whether maintenance mode applies to the given route (or proxy-wide when omitted).
+     */
+    isInMaintenance(routeHost?: string): boolean {
+        const route = routeHost === undefined
+            ? null
+            : this.config.routes?.find((r) => r.host === routeHost) ?? null;
+        return this.getActiveMaintenance(route) !== null;
+    }
+
+    /**
+     * Returns the maintenance settings in effect for a route, or null when the
+     * route and the proxy are both open. Route messages override proxy-wide ones.
+     */
+    private getActiveMaintenance(route: ProxyRoute | null): MaintenanceConfig | null {
+        const globalEnabled = this.maintenanceOverrides.get('') ?? this.config.maintenance?.enabled ?? false;
+        const routeEnabled = route
+            ? this.maintenanceOverrides.get(route.host) ?? route.maintenance?.enabled ?? false
+            : false;
+
+        if (!globalEnabled && !routeEnabled) return null;
+
+        return {
+            ...defaultMaintenanceConfig,
+            ...this.config.maintenance,
+            ...route?.maintenance,
+            enabled: true,
+        };
+    }
+
+    /**
+     * Version policy for a route: its own `versions` fields over the proxy-wide ones.
+     */
+    private getVersionPolicy(route: ProxyRoute | null): VersionPolicy | null {
+        if (!this.config.versions && !route?.versions) return null;
+        return { ...this.config.versions, ...route?.versions };
+    }
+
+    /**
+     * Sets a hook that may rewrite the handshake before it is forwarded, or null to remove it.
+     */
+    setHandshakeRewriter(rewriter: HandshakeRewriter | null) {
+        this.handshakeRewriter = rewriter;
+    }
+
+    /**
+     * Builds the data sent to the backend: the handshake with the route's
+     * `rewrite` settings, the rewriter hook and IP forwarding applied. Bytes
+     * pipelined after the handshake are kept as they are. The original data is
+     * returned when nothing changes.
+     */
+    private rewriteHandshake(client: Connection, handshake: Handshake, handshakeSize: number, data: Uint8Array, target: RouteTarget): Uint8Array {
+        const player = client.data?.['player'] as LoginStart | undefined;
+        let rewritten: Handshake = { ...handshake, ...target.route?.rewrite };
+
+        const overrides = this.handshakeRewriter?.(rewritten, { client, target, player });
+        if (overrides) {
+            rewritten = { ...rewritten, ...overrides };
+        }
+
+        const forwarding = target.route?.ipForwarding ?? this.config.ipForwarding ?? 'none';
+        if (forwarding === 'bungeecord' && isLoginIntent(handshake.nextState)) {
+            if (player && client.remoteAddress) {
+                rewritten.serverAddress = writeBungeeCordAddress(rewritten.serverAddress, {
+                    ip: client.remoteAddress,
+                    uuid: offlineUuid(player.username),
+                });
+            } else {
+                connectionLog(client, this.logger).warn('Player identity unknown, forwarding handshake without BungeeCord data');
+            }
+        }
+
+        if (sameHandshake(rewritten, handshake)) {
+            return data;
+        }
+
+        const encoded = writeHandshake(rewritten);
+        const result = new Uint8Array(encoded.length + data.length - handshakeSize);
+        result.set(encoded);
+        result.set(data.subarray(handshakeSize), encoded.length);
+        return result;
+    }
+
+    /**
+     * Picks the backend for a parsed packet. Protocols that do not produce a
+     * Minecraft handshake always use the default backend.
+     */
+    private resolveTarget(data: unknown): RouteTarget {
+        const serverAddress = isHandshake(data) || isLegacyPingData(data) ? data.serverAddress : undefined;
+        return resolveRoute(this.config, serverAddress);
+    }
+
+    /**
+     * Opens a backend connection and forwards the initial data. Backends of the
+     * target pool are tried in the order picked by the load balancer until one
+     * accepts. Returns false if none could be reached.
+     */
+    private async connectBackend(client: Connection, initialData: Uint8Array, target: RouteTarget): Promise<boolean> {
+        const log = connectionLog(client, this.logger);
+        const player = client.data?.['player'] as LoginStart | undefined;
+
+        // Skip backends failing health checks, unless that would leave none to try
+        const healthy = target.backends.filter((backend) => this.healthChecker?.isHealthy(backend) ?? true);
+        const candidates = this.loadBalancer.order(target.route?.host ?? '', healthy.length > 0 ? healthy : target.backends, target.strategy, {
+            ip: client.remoteAddress,
+            username: player?.username,
+        });
+
+        // PROXY headers go first on every TCP backend connection
+        const proxyProtocol = this.config.proxyProtocol?.send;
+        let payload = initialData;
+        if (proxyProtocol && this.config.transportType === 'tcp') {
+            const header = writeProxyHeader(proxyProtocol, client.remoteAddress && client.remotePort !== undefined ? {
+                sourceAddress: client.remoteAddress,
+                sourcePort: client.remotePort,
+                destinationAddress: client.localAddress ?? '0.0.0.0',
+                destinationPort: client.localPort ?? this.config.proxyPort,
+            } : null);
+            payload = new Uint8Array(header.length + initialData.length);
+            payload.set(header);
+            payload.set(initialData, header.length);
+        }
+
+        for (const candidate of candidates) {
+            if (await this.connectTo(client, payload, candidate, routeLabel(target.route))) {
+                return true;
+            }
+            if (candidates.length > 1) {
+                log.debug(`Backend ${backendKey(candidate)} unavailable, trying next`);
+            }
+        }
+        return false;
+    }
+
+    /**
+     * Connects to a single backend. Returns false if it could not be reached.
+     */
+    private async connectTo(client: Connection, initialData: Uint8Array, target: BackendServer, route: string): Promise<boolean> {
+        const log = connectionLog(client, this.logger);
+        const started = performance.now();
+
         try {
             if (this.config.transportType === 'udp') {
                 // UDP Backend
@@ -124,7 +841,7 @@ export class ProxyServer {
                     port: 0,
                     socket: {
                         data: (s, data, port, addr) => {
-                           client.write(data);
+                           this.forwardToClient(client, data);
                         },
                         error: (s, err) => {
                            client.close();
@@ -132,52 +849,189 @@ export class ProxyServer {
                     }
                 });
                 
+                const release = this.loadBalancer.acquire(target);
                 const backendConn = {
                     write: (data: Uint8Array) => {
-                        socket.send(data, this.config.minecraftPort, this.config.minecraftHost);
+                        socket.send(data, target.port, target.host);
+                    },
+                    close: () => {
+                        release();
+                        socket.close();
                     },
-                    close: () => socket.close(),
                     on: () => {}, 
                     // ...
                 } as unknown as Connection;
                 
-                client.data = { backend: backendConn };
+                client.data = { ...client.data, backend: backendConn };
                 
                 // Forward initial data
                 backendConn.write(initialData);
 
             } else {
                 // TCP Backend
-                 const socket = await Bun.connect({
-                    hostname: this.config.minecraftHost,
-                    port: this.config.minecraftPort,
+                let release = () => {};
+                const socket = await Bun.connect({
+                    hostname: target.host,
+                    port: target.port,
                     socket: {
                         data: (s, data) => {
-                            client.write(new Uint8Array(data));
+                            this.forwardToClient(client, new Uint8Array(data));
                         },
                         open: (s) => {
-                            log('[Proxy] Connected to backend');
+                            log.debug(`Connected to backend ${backendKey(target)}`);
                         },
-                        close: () => client.close(),
-                        error: () => client.close()
+                        close: () => {
+                            release();
+                            client.close();
+                        },
+                        error: () => {
+                            release();
+                            client.close();
+                        }
                     }
                 });
+                release = this.loadBalancer.acquire(target);
                 
                 const backendConn = {
                     write: (data: Uint8Array) => socket.write(data),
-                    close: () => socket.end(),
+                    close: () => {
+                        release();
+                        socket.end();
+                    },
                     on: () => {}
                 } as unknown as Connection;
 
-                client.data = { backend: backendConn };
+                client.data = { ...client.data, backend: backendConn };
                 
                 // Forward initial data
                 backendConn.write(initialData);
             }
 
+            globalMetrics.observe('proxy_backend_connect_seconds', (performance.now() - started) / 1000, {
+                route,
+                backend: backendKey(target),
+            });
+            const stats = client.data?.['stats'] as ConnectionStats | undefined;
+            if (stats) stats.backend = target;
+            this.emit('backendConnected', { client, backend: target });
+            return true;
         } catch (err: unknown) {
-            log('[Proxy] Failed to connect to backend', err);
-            client.close();
+            log.warn(`Failed to connect to backend ${backendKey(target)}`, { error: err });
+            this.emit('backendFailed', { client, backend: target, error: toError(err) });
+            return false;
         }
     }
+
+    private registerMetrics() {
+        const buckets = this.config.metricBuckets ?? {};
+        globalMetrics.registerCounter('proxy_client_versions_total', 'Handshakes by client version', ['version', 'next_state']);
+        globalMetrics.registerHistogram('proxy_handshake_parse_seconds',
+            'Time from the first byte of a connection until its handshake was parsed', ['route'],
+            buckets['proxy_handshake_parse_seconds']);
+        globalMetrics.registerHistogram('proxy_backend_connect_seconds',
+            'Time to open a backend connection', ['route', 'backend'],
+            buckets['proxy_backend_connect_seconds']);
+        globalMetrics.registerHistogram('proxy_session_duration_seconds',
+            'Lifetime of client connections tunnelled to a backend', ['route', 'backend'],
+            buckets['proxy_session_duration_seconds'] ?? SESSION_BUCKETS);
+        globalMetrics.registerCounter('proxy_bytes_received_total',
+            'Bytes received from clients, counted when their connection closes', ['route', 'backend']);
+        globalMetrics.registerCounter('proxy_bytes_sent_total',
+            'Bytes forwarded from backends to clients, counted when the connection closes', ['route', 'backend']);
+    }
+
+    /**
+     * Records the duration and traffic of a closed connection that reached a backend.
+     */
+    private recordSession(stats: ConnectionStats) {
+        if (!stats.backend) return;
+        const labels = { route: stats.route ?? routeLabel(null), backend: backendKey(stats.backend) };
+        globalMetrics.observe('proxy_session_duration_seconds', (performance.now() - stats.startedAt) / 1000, labels);
+        globalMetrics.increment('proxy_bytes_received_total', labels, stats.bytesIn);
+        globalMetrics.increment('proxy_bytes_sent_total', labels, stats.bytesOut);
+    }
+
+    /**
+     * Health of every configured backend. Empty unless `healthCheck.enabled` is set.
+     */
+    getBackendHealth(): BackendHealth[] {
+        return this.healthChecker?.getAll() ?? [];
+    }
+
+    /**
+     * Every backend named in the config, without duplicates.
+     */
+    private getConfiguredBackends(): BackendServer[] {
+        const backends = new Map<string, BackendServer>();
+        const add = (backend: BackendServer) => backends.set(backendKey(backend), backend);
+
+        if (this.config.backends?.length) {
+            this.config.backends.forEach(add);
+        } else {
+            add({ host: this.config.minecraftHost, port: this.config.minecraftPort });
+        }
+        for (const route of this.config.routes ?? []) {
+            routeBackends(route).forEach(add);
+        }
+        return [...backends.values()];
+    }
+
+    /**
+     * Number of open proxied connections to a backend.
+     */
+    getBackendConnections(host: string, port: number): number {
+        return this.loadBalancer.getConnections({ host, port });
+    }
+}
+
+/**
+ * Value of the `route` metric label: the route's host pattern, or `default`.
+ */
+function routeLabel(route: ProxyRoute | null): string {
+    return route?.host ?? 'default';
+}
+
+/**
+ * Logger of a connection, carrying its `connId` and `remote` fields.
+ */
+function connectionLog(client: Connection, fallback: Logger): Logger {
+    return (client.data?.['log'] as Logger | undefined) ?? fallback;
+}
+
+function toError(error: unknown): Error {
+    return error instanceof Error ? error : new Error(String(error));
+}
+
+/**
+ * Whether two handshakes would encode to the same bytes.
+ */
+function sameHandshake(a: Handshake, b: Handshake): boolean {
+    return a.serverAddress === b.serverAddress
+        && a.serverPort === b.serverPort
+        && a.protocolVersion === b.protocolVersion
+        && a.nextState === b.nextState;
+}
+
+function isHandshake(data: unknown): data is Handshake {
+    return typeof data === 'object' && data !== null
+        && typeof (data as Handshake).serverAddress === 'string'
+        && typeof (data as Handshake).nextState === 'number';
+}
+
+function isLegacyPingData(data: unknown): data is LegacyPing {
+    return typeof data === 'object' && data !== null && (data as LegacyPing).legacy === true;
+}
+
+/**
+ * Builds the handshake-shaped input the status responder expects for a legacy ping.
+ */
+function legacyHandshake(ping: LegacyPing, target: RouteTarget): Handshake {
+    return {
+        packetLength: 0,
+        packetId: 0,
+        protocolVersion: ping.protocolVersion ?? 47,
+        serverAddress: ping.serverAddress ?? target.host,
+        serverPort: ping.serverPort ?? target.port,
+        nextState: 1,
+    };
 }
@@ -0,0 +1,130 @@
+import { defaultStatusConfig, type ProxyConfig, type ProxyRoute, type StatusConfig } from '../config/config.js';
+import type { Handshake } from './handshake.js';
+import { queryServerStatus, type ServerStatus } from './status.js';
+import { noopLogger, type Logger } from '../lib/logging/Logger.js';
+import type { ProxyProtocolVersion } from './proxy-protocol.js';
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A];
+const BACKEND_QUERY_TIMEOUT_MS = 3000;
+
+interface CachedStatus {
+    status: ServerStatus;
+    fetchedAt: number;
+}
+
+/**
+ * Merges the default, proxy-wide and per-route status settings.
+ */
+export function resolveStatusConfig(config: ProxyConfig, route: ProxyRoute | null): StatusConfig {
+    return {
+        ...defaultStatusConfig,
+        ...config.status,
+        ...route?.status,
+    };
+}
+
+/**
+ * Builds the status documents the proxy serves itself: static ones from config,
+ * cached copies of backend statuses and fallbacks for unreachable backends.
+ */
+export class StatusResponder {
+    private cache = new Map<string, CachedStatus>();
+    private inflight = new Map<string, Promise<ServerStatus>>();
+    private favicons = new Map<string, Promise<string | undefined>>();
+
+    /**
+     * @param proxyProtocol PROXY header version sent before backend queries, for backends that require one
+     */
+    constructor(private logger: Logger = noopLogger, private proxyProtocol?: ProxyProtocolVersion) {}
+
+    /**
+     * Builds a status document from config.
+     * @param motd Overrides the configured MOTD (used for fallback and maintenance messages)
+     */
+    async buildStatus(settings: StatusConfig, handshake: Handshake, motd: string = settings.motd): Promise<ServerStatus> {
+        const status: ServerStatus = {
+            version: {
+                name: settings.versionName,
+                protocol: settings.versionProtocol === -1 ? handshake.protocolVersion : settings.versionProtocol,
+            },
+            players: {
+                max: settings.maxPlayers,
+                online: settings.onlinePlayers,
+            },
+            description: { text: motd },
+        };
+
+        if (settings.faviconPath) {
+            const favicon = await this.loadFavicon(settings.faviconPath);
+            if (favicon) status.favicon = favicon;
+        }
+
+        return status;
+    }
+
+    /**
+     * Returns the backend's status, refreshing it when older than `cacheTtlMs`.
+     * Serves a stale copy, then the fallback MOTD, when the backend cannot be reached.
+     */
+    async getCachedStatus(settings: StatusConfig, handshake: Handshake, host: string, port: number): Promise<ServerStatus> {
+        const key = `${host}:${port}`;
+        const cached = this.cache.get(key);
+        if (cached && Date.now() - cached.fetchedAt < settings.cacheTtlMs) {
+            return cached.status;
+        }
+
+        try {
+            return await this.refresh(key, handshake, host, port);
+        } catch (err) {
+            this.logger.debug(`Backend ${key} unreachable`, { error: err });
+            if (cached) return cached.status;
+            return this.buildStatus(settings, handshake, settings.fallbackMotd ?? settings.motd);
+        }
+    }
+
+    /**
+     * Drops all cached backend statuses and favicons.
+     */
+    clearCache() {
+        this.cache.clear();
+        this.favicons.clear();
+    }
+
+    private refresh(key: string, handshake: Handshake, host: string, port: number): Promise<ServerStatus> {
+        let pending = this.inflight.get(key);
+        if (!pending) {
+            pending = queryServerStatus(host, port, {
+                protocolVersion: handshake.protocolVersion,
+                serverAddress: handshake.serverAddress,
+                timeoutMs: BACKEND_QUERY_TIMEOUT_MS,
+                proxyProtocol: this.proxyProtocol,
+            })
+                .then(({ status }) => {
+                    this.cache.set(key, { status, fetchedAt: Date.now() });
+                    return status;
+                })
+                .finally(() => this.inflight.delete(key));
+            this.inflight.set(key, pending);
+        }
+        return pending;
+    }
+
+    private loadFavicon(path: string): Promise<string | undefined> {
+        let favicon = this.favicons.get(path);
+        if (!favicon) {
+            favicon = Bun.file(path).bytes()
+                .then((bytes) => {
+                    if (!PNG_SIGNATURE.every((b, i) => bytes[i] === b)) {
+                        throw new Error('not a PNG file');
+                    }
+                    return `data:image/png;base64,${Buffer.from(bytes).toString('base64')}`;
+                })
+                .catch((err) => {
+                    this.logger.warn(`Could not load favicon ${path}`, { error: err });
+                    return undefined;
+                });
+            this.favicons.set(path, favicon);
+        }
+        return favicon;
+    }
+}
@@ -0,0 +1,191 @@
+import type { VersionPolicy } from '../config/config.js';
+
+/**
+ * Protocol numbers of Minecraft releases since 1.7, with every release name that uses them.
+ */
+const RELEASES: Array<[number, string[]]> = [
+    [4, ['1.7.2', '1.7.3', '1.7.4', '1.7.5']],
+    [5, ['1.7.6', '1.7.7', '1.7.8', '1.7.9', '1.7.10']],
+    [47, ['1.8', '1.8.1', '1.8.2', '1.8.3', '1.8.4', '1.8.5', '1.8.6', '1.8.7', '1.8.8', '1.8.9']],
+    [107, ['1.9']],
+    [108, ['1.9.1']],
+    [109, ['1.9.2']],
+    [110, ['1.9.3', '1.9.4']],
+    [210, ['1.10', '1.10.1', '1.10.2']],
+    [315, ['1.11']],
+    [316, ['1.11.1', '1.11.2']],
+    [335, ['1.12']],
+    [338, ['1.12.1']],
+    [340, ['1.12.2']],
+    [393, ['1.13']],
+    [401, ['1.13.1']],
+    [404, ['1.13.2']],
+    [477, ['1.14']],
+    [480, ['1.14.1']],
+    [485, ['1.14.2']],
+    [490, ['1.14.3']],
+    [498, ['1.14.4']],
+    [573, ['1.15']],
+    [575, ['1.15.1']],
+    [578, ['1.15.2']],
+    [735, ['1.16']],
+    [736, ['1.16.1']],
+    [751, ['1.16.2']],
+    [753, ['1.16.3']],
+    [754, ['1.16.4', '1.16.5']],
+    [755, ['1.17']],
+    [756, ['1.17.1']],
+    [757, ['1.18', '1.18.1']],
+    [758, ['1.18.2']],
+    [759, ['1.19']],
+    [760, ['1.19.1', '1.19.2']],
+    [761, ['1.19.3']],
+    [762, ['1.19.4']],
+    [763, ['1.20', '1.20.1']],
+    [764, ['1.20.2']],
+    [765, ['1.20.3', '1.20.4']],
+    [766, ['1.20.5', '1.20.6']],
+    [767, ['1.21', '1.21.1']],
+    [768, ['1.21.2', '1.21.3']],
+    [769, ['1.21.4']],
+    [770, ['1.21.5']],
+    [771, ['1.21.6']],
+    [772, ['1.21.7', '1.21.8']],
+    [773, ['1.21.9', '1.21.10']],
+];
+
+/** Since 1.16.4 snapshots and pre-releases set bit 30 and count up from there */
+const SNAPSHOT_BIT = 0x40000000;
+
+const DEFAULT_VERSION_MESSAGE = 'Unsupported Minecraft version {version}. Please use {supported}.';
+
+/**
+ * Maps protocol numbers to Minecraft version names and back.
+ *
+ * Releases that share a protocol number are shown by the newest name
+ * ("1.20.4 (765)"). Numbers between two releases up to 1.16.3 belong to the
+ * snapshots of the later one; newer snapshots are recognised by bit 30.
+ */
+export class VersionRegistry {
+    /** Sorted by protocol number */
+    private releases: Array<{ protocol: number; names: string[] }> = [];
+    private byName = new Map<string, number>();
+
+    constructor(releases: Array<[number, string[]]> = RELEASES) {
+        for (const [protocol, names] of releases) {
+            this.register(protocol, ...names);
+        }
+    }
+
+    /**
+     * Adds release names for a protocol number, e.g. for versions newer than the built-in table.
+     */
+    register(protocol: number, ...names: string[]) {
+        let release = this.releases.find((r) => r.protocol === protocol);
+        if (!release) {
+            release = { protocol, names: [] };
+            this.releases.push(release);
+            this.releases.sort((a, b) => a.protocol - b.protocol);
+        }
+        for (const name of names) {
+            if (!release.names.includes(name)) release.names.push(name);
+            this.byName.set(name, protocol);
+        }
+    }
+
+    /**
+     * Human-readable version for a protocol number, or null if it is not known.
+     */
+    getName(protocol: number): string | null {
+        if (protocol >= SNAPSHOT_BIT) {
+            return `snapshot ${protocol - SNAPSHOT_BIT}`;
+        }
+
+        const index = this.releases.findIndex((r) => r.protocol >= protocol);
+        if (index === -1) return null;
+
+        const release = this.releases[index]!;
+        if (release.protocol === protocol) {
+            return release.names[release.names.length - 1] ?? null;
+        }
+        // Before 1.16.4 snapshots counted up towards the next release's number
+        const previous = this.releases[index - 1];
+        if (previous && release.protocol <= 753) {
+            return `${release.names[0]} snapshot`;
+        }
+        return null;
+    }
+
+    /**
+     * Metric label for a protocol number: the release name, `snapshot` for every
+     * snapshot since 1.16.4, or `unknown`. Clients choose the number, so the
+     * label must only take values from the registered table.
+     */
+    getLabel(protocol: number): string {
+        if (protocol >= SNAPSHOT_BIT) return 'snapshot';
+        return this.getName(protocol) ?? 'unknown';
+    }
+
+    /**
+     * Formats a protocol number for logs, e.g. "1.20.4 (765)".
+     */
+    format(protocol: number): string {
+        return `${this.getName(protocol) ?? 'unknown'} (${protocol})`;
+    }
+
+    /**
+     * Resolves a release name or protocol number to a protocol number.
+     * Throws for names that are not registered.
+     */
+    resolve(version: string | number): number {
+        if (typeof version === 'number') return version;
+        const protocol = this.byName.get(version);
+        if (protocol === undefined) {
+            throw new Error(`Unknown Minecraft version: ${version}`);
+        }
+        return protocol;
+    }
+
+    /**
+     * Whether a protocol number falls within the policy's range.
+     */
+    isAllowed(protocol: number, policy: VersionPolicy): boolean {
+        if (policy.min !== undefined && protocol < this.resolve(policy.min)) return false;
+        if (policy.max !== undefined && protocol > this.resolve(policy.max)) return false;
+        return true;
+    }
+
+    /**
+     * Disconnect message for a player whose version the policy does not allow.
+     */
+    rejectionMessage(protocol: number, policy: VersionPolicy): string {
+        return (policy.message ?? DEFAULT_VERSION_MESSAGE)
+            .replaceAll('{version}', this.getName(protocol) ?? String(protocol))
+            .replaceAll('{supported}', this.describe(policy));
+    }
+
+    /**
+     * Describes a policy's range, e.g. "1.20.3 to 1.21.4" or "1.20.5 or newer".
+     */
+    describe(policy: VersionPolicy): string {
+        const name = (version: string | number) => typeof version === 'string'
+            ? version
+            : this.getName(version) ?? String(version);
+        const oldest = (version: string | number) => {
+            const release = this.releases.find((r) => r.protocol === this.resolve(version));
+            return typeof version === 'string' || !release ? name(version) : release.names[0]!;
+        };
+
+        if (policy.min !== undefined && policy.max !== undefined) {
+            return `${oldest(policy.min)} to ${name(policy.max)}`;
+        }
+        if (policy.min !== undefined) return `${oldest(policy.min)} or newer`;
+        if (policy.max !== undefined) return `${name(policy.max)} or older`;
+        return 'any version';
+    }
+}
+
+/**
+ * Shared registry used by the proxy. Register newer versions here.
+ */
+export const versionRegistry = new VersionRegistry();
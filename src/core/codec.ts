@@ -0,0 +1,322 @@
+/**
+ * Codecs for the Minecraft protocol's primitive field types.
+ * Based on Minecraft protocol specification: https://wiki.vg/Protocol#Data_types
+ *
+ * Like the VarInt helpers, each type has a sync form over a buffer with an
+ * offset (`readXSync` returns the value and the new offset, `writeXSync`
+ * returns the new offset) and a streaming form over a reader or writer.
+ */
+import { readVarInt, readVarIntSync, varIntLength, writeVarIntSync } from './varint.js';
+import type { StreamReader } from './stream.js';
+
+/** Default maximum string length, in UTF-16 code units */
+export const MAX_STRING_LENGTH = 32767;
+
+/** Identifiers look like `namespace:path`; the namespace defaults to `minecraft` */
+const IDENTIFIER_PATTERN = /^(?:[a-z0-9._-]+:)?[a-z0-9._/-]+$/;
+
+/**
+ * Block position packed into a 64-bit integer (1.14+ layout: x 26 bits, z 26 bits, y 12 bits).
+ */
+export interface Position {
+  x: number;
+  y: number;
+  z: number;
+}
+
+function view(buffer: Uint8Array): DataView {
+  return new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+}
+
+function ensureAvailable(buffer: Uint8Array, offset: number, length: number, type: string) {
+  if (offset < 0 || offset + length > buffer.length) {
+    throw new Error(`Buffer too short for ${type}`);
+  }
+}
+
+function checkStringLength(value: string, byteLength: number, maxLength: number) {
+  if (byteLength > maxLength * 3 || value.length > maxLength) {
+    throw new Error(`String longer than ${maxLength} characters`);
+  }
+}
+
+function checkIdentifier(value: string) {
+  if (!IDENTIFIER_PATTERN.test(value)) {
+    throw new Error(`Invalid identifier: ${value}`);
+  }
+}
+
+function uuidToBytes(uuid: string): Uint8Array {
+  const hex = uuid.replace(/-/g, '');
+  if (!/^[0-9a-fA-F]{32}$/.test(hex)) {
+    throw new Error(`Invalid UUID: ${uuid}`);
+  }
+  return Uint8Array.from(Buffer.from(hex, 'hex'));
+}
+
+/**
+ * Formats 16 raw bytes as a dashed UUID string.
+ */
+export function formatUuid(bytes: Uint8Array): string {
+  const hex = Buffer.from(bytes).toString('hex');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20, 32)}`;
+}
+
+function packPosition(position: Position): bigint {
+  return (BigInt(position.x & 0x3FFFFFF) << 38n)
+    | (BigInt(position.z & 0x3FFFFFF) << 12n)
+    | BigInt(position.y & 0xFFF);
+}
+
+function unpackPosition(packed: bigint): Position {
+  return {
+    x: Number(BigInt.asIntN(26, packed >> 38n)),
+    y: Number(BigInt.asIntN(12, packed)),
+    z: Number(BigInt.asIntN(26, packed >> 12n)),
+  };
+}
+
+// --- Fixed-size integers (big-endian) ---
+
+export function readShortSync(buffer: Uint8Array, offset: number): { value: number; offset: number } {
+  ensureAvailable(buffer, offset, 2, 'short');
+  return { value: view(buffer).getInt16(offset), offset: offset + 2 };
+}
+
+export function writeShortSync(buffer: Uint8Array, value: number, offset: number): number {
+  view(buffer).setInt16(offset, value);
+  return offset + 2;
+}
+
+export function readUnsignedShortSync(buffer: Uint8Array, offset: number): { value: number; offset: number } {
+  ensureAvailable(buffer, offset, 2, 'unsigned short');
+  return { value: view(buffer).getUint16(offset), offset: offset + 2 };
+}
+
+export function writeUnsignedShortSync(buffer: Uint8Array, value: number, offset: number): number {
+  view(buffer).setUint16(offset, value);
+  return offset + 2;
+}
+
+export function readIntSync(buffer: Uint8Array, offset: number): { value: number; offset: number } {
+  ensureAvailable(buffer, offset, 4, 'int');
+  return { value: view(buffer).getInt32(offset), offset: offset + 4 };
+}
+
+export function writeIntSync(buffer: Uint8Array, value: number, offset: number): number {
+  view(buffer).setInt32(offset, value);
+  return offset + 4;
+}
+
+export function readLongSync(buffer: Uint8Array, offset: number): { value: bigint; offset: number } {
+  ensureAvailable(buffer, offset, 8, 'long');
+  return { value: view(buffer).getBigInt64(offset), offset: offset + 8 };
+}
+
+export function writeLongSync(buffer: Uint8Array, value: bigint, offset: number): number {
+  view(buffer).setBigInt64(offset, BigInt.asIntN(64, value));
+  return offset + 8;
+}
+
+// --- Length-prefixed types ---
+
+/**
+ * Reads a VarInt length-prefixed UTF-8 string of at most `maxLength` characters.
+ */
+export function readStringSync(buffer: Uint8Array, offset: number, maxLength = MAX_STRING_LENGTH): { value: string; offset: number } {
+  const length = readVarIntSync(buffer, offset);
+  if (length.value < 0 || length.value > maxLength * 3) {
+    throw new Error(`Invalid string length: ${length.value}`);
+  }
+  ensureAvailable(buffer, length.offset, length.value, 'string');
+
+  const end = length.offset + length.value;
+  const value = new TextDecoder().decode(buffer.subarray(length.offset, end));
+  checkStringLength(value, length.value, maxLength);
+  return { value, offset: end };
+}
+
+/**
+ * Writes a VarInt length-prefixed UTF-8 string. Size the buffer with `stringByteLength`.
+ */
+export function writeStringSync(buffer: Uint8Array, value: string, offset: number, maxLength = MAX_STRING_LENGTH): number {
+  const bytes = new TextEncoder().encode(value);
+  checkStringLength(value, bytes.length, maxLength);
+  offset = writeVarIntSync(buffer, bytes.length, offset);
+  buffer.set(bytes, offset);
+  return offset + bytes.length;
+}
+
+/**
+ * Encodes a VarInt length-prefixed UTF-8 string into a buffer of its own, e.g. a packet payload.
+ */
+export function encodeString(value: string, maxLength = MAX_STRING_LENGTH): Uint8Array {
+  const buffer = new Uint8Array(stringByteLength(value));
+  writeStringSync(buffer, value, 0, maxLength);
+  return buffer;
+}
+
+/**
+ * Encoded size of a string, including its length prefix.
+ */
+export function stringByteLength(value: string): number {
+  const length = new TextEncoder().encode(value).length;
+  return varIntLength(length) + length;
+}
+
+/**
+ * Reads an identifier such as `minecraft:stone`, rejecting invalid characters.
+ */
+export function readIdentifierSync(buffer: Uint8Array, offset: number): { value: string; offset: number } {
+  const result = readStringSync(buffer, offset);
+  checkIdentifier(result.value);
+  return result;
+}
+
+export function writeIdentifierSync(buffer: Uint8Array, value: string, offset: number): number {
+  checkIdentifier(value);
+  return writeStringSync(buffer, value, offset);
+}
+
+/**
+ * Reads a VarInt length-prefixed byte array of at most `maxLength` bytes.
+ * The result is a view into `buffer`.
+ */
+export function readByteArraySync(buffer: Uint8Array, offset: number, maxLength = 1048576): { value: Uint8Array; offset: number } {
+  const length = readVarIntSync(buffer, offset);
+  if (length.value < 0 || length.value > maxLength) {
+    throw new Error(`Invalid byte array length: ${length.value}`);
+  }
+  ensureAvailable(buffer, length.offset, length.value, 'byte array');
+  const end = length.offset + length.value;
+  return { value: buffer.subarray(length.offset, end), offset: end };
+}
+
+/**
+ * Writes a VarInt length-prefixed byte array. It needs `varIntLength(value.length) + value.length` bytes.
+ */
+export function writeByteArraySync(buffer: Uint8Array, value: Uint8Array, offset: number): number {
+  offset = writeVarIntSync(buffer, value.length, offset);
+  buffer.set(value, offset);
+  return offset + value.length;
+}
+
+// --- Composite types ---
+
+/**
+ * Reads a 128-bit UUID as a dashed hex string.
+ */
+export function readUuidSync(buffer: Uint8Array, offset: number): { value: string; offset: number } {
+  ensureAvailable(buffer, offset, 16, 'UUID');
+  return { value: formatUuid(buffer.subarray(offset, offset + 16)), offset: offset + 16 };
+}
+
+/**
+ * Writes a UUID given as a hex string, with or without dashes.
+ */
+export function writeUuidSync(buffer: Uint8Array, value: string, offset: number): number {
+  buffer.set(uuidToBytes(value), offset);
+  return offset + 16;
+}
+
+export function readPositionSync(buffer: Uint8Array, offset: number): { value: Position; offset: number } {
+  const packed = readLongSync(buffer, offset);
+  return { value: unpackPosition(packed.value), offset: packed.offset };
+}
+
+export function writePositionSync(buffer: Uint8Array, value: Position, offset: number): number {
+  return writeLongSync(buffer, packPosition(value), offset);
+}
+
+// --- Streaming ---
+
+async function writeEncoded(writer: WritableStreamDefaultWriter<Uint8Array>, length: number, encode: (buffer: Uint8Array) => void): Promise<void> {
+  const buffer = new Uint8Array(length);
+  encode(buffer);
+  await writer.write(buffer);
+}
+
+export async function readShort(reader: StreamReader): Promise<number> {
+  return readShortSync(await reader.readExact(2), 0).value;
+}
+
+export async function writeShort(writer: WritableStreamDefaultWriter<Uint8Array>, value: number): Promise<void> {
+  await writeEncoded(writer, 2, (buffer) => writeShortSync(buffer, value, 0));
+}
+
+export async function readUnsignedShort(reader: StreamReader): Promise<number> {
+  return readUnsignedShortSync(await reader.readExact(2), 0).value;
+}
+
+export async function writeUnsignedShort(writer: WritableStreamDefaultWriter<Uint8Array>, value: number): Promise<void> {
+  await writeEncoded(writer, 2, (buffer) => writeUnsignedShortSync(buffer, value, 0));
+}
+
+export async function readInt(reader: StreamReader): Promise<number> {
+  return readIntSync(await reader.readExact(4), 0).value;
+}
+
+export async function writeInt(writer: WritableStreamDefaultWriter<Uint8Array>, value: number): Promise<void> {
+  await writeEncoded(writer, 4, (buffer) => writeIntSync(buffer, value, 0));
+}
+
+export async function readLong(reader: StreamReader): Promise<bigint> {
+  return readLongSync(await reader.readExact(8), 0).value;
+}
+
+export async function writeLong(writer: WritableStreamDefaultWriter<Uint8Array>, value: bigint): Promise<void> {
+  await writeEncoded(writer, 8, (buffer) => writeLongSync(buffer, value, 0));
+}
+
+export async function readString(reader: StreamReader, maxLength = MAX_STRING_LENGTH): Promise<string> {
+  const length = await readVarInt(reader);
+  if (length < 0 || length > maxLength * 3) {
+    throw new Error(`Invalid string length: ${length}`);
+  }
+  const value = new TextDecoder().decode(await reader.readExact(length));
+  checkStringLength(value, length, maxLength);
+  return value;
+}
+
+export async function writeString(writer: WritableStreamDefaultWriter<Uint8Array>, value: string, maxLength = MAX_STRING_LENGTH): Promise<void> {
+  await writeEncoded(writer, stringByteLength(value), (buffer) => writeStringSync(buffer, value, 0, maxLength));
+}
+
+export async function readIdentifier(reader: StreamReader): Promise<string> {
+  const value = await readString(reader);
+  checkIdentifier(value);
+  return value;
+}
+
+export async function writeIdentifier(writer: WritableStreamDefaultWriter<Uint8Array>, value: string): Promise<void> {
+  checkIdentifier(value);
+  await writeString(writer, value);
+}
+
+export async function readByteArray(reader: StreamReader, maxLength = 1048576): Promise<Uint8Array> {
+  const length = await readVarInt(reader);
+  if (length < 0 || length > maxLength) {
+    throw new Error(`Invalid byte array length: ${length}`);
+  }
+  return reader.readExact(length);
+}
+
+export async function writeByteArray(writer: WritableStreamDefaultWriter<Uint8Array>, value: Uint8Array): Promise<void> {
+  await writeEncoded(writer, varIntLength(value.length) + value.length, (buffer) => writeByteArraySync(buffer, value, 0));
+}
+
+export async function readUuid(reader: StreamReader): Promise<string> {
+  return formatUuid(await reader.readExact(16));
+}
+
+export async function writeUuid(writer: WritableStreamDefaultWriter<Uint8Array>, value: string): Promise<void> {
+  await writer.write(uuidToBytes(value));
+}
+
+export async function readPosition(reader: StreamReader): Promise<Position> {
+  return unpackPosition(await readLong(reader));
+}
+
+export async function writePosition(writer: WritableStreamDefaultWriter<Uint8Array>, value: Position): Promise<void> {
+  await writeLong(writer, packPosition(value));
+}
@@ -1,11 +1,12 @@
-import { parseHandshake } from './handshake.js';
+import { decodeHandshake } from './handshake.js';
+import { ChunkBuffer } from './ChunkBuffer.js';
 import type { ProxyConfig } from '../config/config.js';
 
 type Socket = any; // To avoid TypeScript issues with Bun's Socket
 
 export class ConnectionHandler {
   private config: ProxyConfig;
-  private handshakeBuffer: Uint8Array = new Uint8Array();
+  private handshakeBuffer = new ChunkBuffer();
   private handshakeParsed = false;
   private backendSocket: Socket | null = null;
   private connectFunction: typeof Bun.connect;
@@ -82,83 +83,81 @@ export class ConnectionHandler {
    * If the handshake is complete, connects to the backend and sets up the tunnel.
    */
   private handleHandshake(client: Socket, data: Buffer, cleanup: () => void, log: (...args: any[]) => void): void {
-    // Append new data to buffer
-    const newBuffer = new Uint8Array(this.handshakeBuffer.length + data.length);
-    newBuffer.set(this.handshakeBuffer);
-    newBuffer.set(data, this.handshakeBuffer.length);
-    this.handshakeBuffer = newBuffer;
-
-    try {
-      const { handshake, bytesRead } = parseHandshake(this.handshakeBuffer);
-      log('Parsed handshake:', handshake);
-      this.handshakeParsed = true;
-
-      // Connect to backend
-      this.connectFunction({
-        hostname: this.config.minecraftHost,
-        port: this.config.minecraftPort,
-        socket: {
-          open: (backend: Socket) => {
-            log(`Connected to Minecraft server at ${this.config.minecraftHost}:${this.config.minecraftPort}`);
-            this.backendSocket = backend;
-
-            // Send handshake packet to backend
-            const writtenHandshake = backend.write(this.handshakeBuffer.slice(0, bytesRead));
-            log(`Sent handshake to backend: ${writtenHandshake} bytes`);
-
-            // Send any leftover data
-            if (bytesRead < this.handshakeBuffer.length) {
-              const leftover = this.handshakeBuffer.slice(bytesRead);
-              const writtenLeftover = backend.write(leftover);
-              log(`Sent leftover data to backend: ${writtenLeftover} bytes`);
-            }
+    this.handshakeBuffer.push(data);
+
+    const result = decodeHandshake(this.handshakeBuffer);
+    if (result.status === 'incomplete') {
+      // Not enough data yet, wait for more
+      return;
+    }
+    if (result.status === 'invalid') {
+      log(`Handshake error: ${result.reason}`);
+      client.end();
+      return;
+    }
 
-            log('Tunnel established');
+    const { packet: handshake, size: bytesRead } = result;
+    log('Parsed handshake:', handshake);
+    this.handshakeParsed = true;
+
+    // Connect to backend
+    this.connectFunction({
+      hostname: this.config.minecraftHost,
+      port: this.config.minecraftPort,
+      socket: {
+        open: (backend: Socket) => {
+          log(`Connected to Minecraft server at ${this.config.minecraftHost}:${this.config.minecraftPort}`);
+          this.backendSocket = backend;
+
+          // Send handshake packet to backend
+          const writtenHandshake = backend.write(this.handshakeBuffer.read(bytesRead));
+          log(`Sent handshake to backend: ${writtenHandshake} bytes`);
+
+          // Send any leftover data
+          if (this.handshakeBuffer.length > 0) {
+            const leftover = this.handshakeBuffer.read();
+            const writtenLeftover = backend.write(leftover);
+            log(`Sent leftover data to backend: ${writtenLeftover} bytes`);
+          }
 
-            // Flush buffered client data
-            if (this.clientBuffer.length > 0) {
-              log(`Flushing ${this.clientBuffer.length} buffered packets to backend`);
-              for (const chunk of this.clientBuffer) {
-                backend.write(chunk);
-              }
-              this.clientBuffer = [];
-            }
-          },
-          data: (backend: Socket, chunk: Buffer) => {
-            log(`Received ${chunk.length} bytes from backend`);
-            // Forward data to client
-            // Bun might return readyState as string 'open' or number 1
-            if (client.readyState === 'open' || client.readyState === 1) {
-              const written = client.write(chunk);
-              log(`Forwarded to client: ${written} bytes`);
-            } else {
-              log(`Client not open (state: ${client.readyState}), closing backend`);
-              backend.end();
+          log('Tunnel established');
+
+          // Flush buffered client data
+          if (this.clientBuffer.length > 0) {
+            log(`Flushing ${this.clientBuffer.length} buffered packets to backend`);
+            for (const chunk of this.clientBuffer) {
+              backend.write(chunk);
             }
-          },
-          drain: (backend: Socket) => {
-            // Optional: handle backpressure
-          },
-          close: (backend: Socket) => {
-            log('Backend connection closed');
-            this.cleanup(client);
-          },
-          error: (backend: Socket, error: Error) => {
-            log(`Backend connection error: ${error}`);
-            this.cleanup(client);
-          },
+            this.clientBuffer = [];
+          }
         },
-      }).catch((error) => {
-        log(`Failed to connect to backend: ${error}`);
-        client.end();
-      });
-    } catch (error: any) {
-      if (error.message === 'Buffer too short') {
-        // Not enough data yet, wait for more
-        return;
-      }
-      log(`Handshake error: ${error.message}`);
+        data: (backend: Socket, chunk: Buffer) => {
+          log(`Received ${chunk.length} bytes from backend`);
+          // Forward data to client
+          // Bun might return readyState as string 'open' or number 1
+          if (client.readyState === 'open' || client.readyState === 1) {
+            const written = client.write(chunk);
+            log(`Forwarded to client: ${written} bytes`);
+          } else {
+            log(`Client not open (state: ${client.readyState}), closing backend`);
+            backend.end();
+          }
+        },
+        drain: (backend: Socket) => {
+          // Optional: handle backpressure
+        },
+        close: (backend: Socket) => {
+          log('Backend connection closed');
+          this.cleanup(client);
+        },
+        error: (backend: Socket, error: Error) => {
+          log(`Backend connection error: ${error}`);
+          this.cleanup(client);
+        },
+      },
+    }).catch((error) => {
+      log(`Failed to connect to backend: ${error}`);
       client.end();
-    }
+    });
   }
 }
@@ -0,0 +1,49 @@
+import { createHash } from 'node:crypto';
+import { formatUuid } from './codec.js';
+
+/**
+ * A game profile property (e.g. `textures`) forwarded to the backend.
+ */
+export interface ProfileProperty {
+  name: string;
+  value: string;
+  signature?: string;
+}
+
+/**
+ * Player details injected into the handshake for BungeeCord IP forwarding.
+ */
+export interface ForwardedPlayer {
+  /** Real client IP address */
+  ip: string;
+  /** Player UUID, with or without dashes */
+  uuid: string;
+  properties?: ProfileProperty[];
+}
+
+/**
+ * Returns the UUID an offline-mode server assigns to a player name:
+ * a version 3 UUID of the MD5 hash of `OfflinePlayer:<name>`.
+ */
+export function offlineUuid(username: string): string {
+  const hash = createHash('md5').update(`OfflinePlayer:${username}`, 'utf8').digest();
+  hash[6] = (hash[6]! & 0x0F) | 0x30;
+  hash[8] = (hash[8]! & 0x3F) | 0x80;
+  return formatUuid(hash);
+}
+
+/**
+ * Builds the handshake server address used by BungeeCord IP forwarding:
+ * `host\0clientIP\0uuid[\0propertiesJson]`, with the UUID undashed.
+ * Data appended to the host by the client (e.g. Forge markers) is dropped.
+ */
+export function writeBungeeCordAddress(serverAddress: string, player: ForwardedPlayer): string {
+  const nul = serverAddress.indexOf('\0');
+  const host = nul === -1 ? serverAddress : serverAddress.slice(0, nul);
+
+  const parts = [host, player.ip, player.uuid.replace(/-/g, '')];
+  if (player.properties?.length) {
+    parts.push(JSON.stringify(player.properties));
+  }
+  return parts.join('\0');
+}
@@ -1,4 +1,6 @@
-import { readVarIntSync } from './varint.js';
+import { readVarIntSync, writeVarIntSync } from './varint.js';
+import { decodeFrame, decodeVarInt, type DecodeResult } from './packet.js';
+import type { ChunkBuffer } from './ChunkBuffer.js';
 
 export interface Handshake {
   packetLength: number;
@@ -9,6 +11,23 @@ export interface Handshake {
   nextState: number;
 }
 
+const MAX_ADDRESS_LENGTH = 1024;
+
+/** Handshake intents: 1 is a status ping, 2 a login, 3 a login transferred from another server (1.20.5+) */
+const NEXT_STATE_STATUS = 1;
+const NEXT_STATE_LOGIN = 2;
+const NEXT_STATE_TRANSFER = 3;
+
+/**
+ * Whether a handshake starts a login, directly or as a transfer.
+ */
+export function isLoginIntent(nextState: number): boolean {
+  return nextState === NEXT_STATE_LOGIN || nextState === NEXT_STATE_TRANSFER;
+}
+
+/** Largest handshake body: ID, protocol version, address length and address, port, next state */
+const MAX_HANDSHAKE_LENGTH = 1 + 5 + 2 + MAX_ADDRESS_LENGTH + 2 + 5;
+
 /**
  * Parses a Minecraft handshake packet from a buffer.
  * Assumes the buffer contains the entire handshake packet starting at offset 0.
@@ -42,7 +61,7 @@ export function parseHandshake(buffer: Uint8Array): { handshake: Handshake; byte
   const addressLength = addressLengthResult.value;
   offset = addressLengthResult.offset;
 
-  if (addressLength > 1024) {
+  if (addressLength > MAX_ADDRESS_LENGTH) {
       throw new Error(`Server address too long: ${addressLength}`);
   }
 
@@ -72,13 +91,8 @@ export function parseHandshake(buffer: Uint8Array): { handshake: Handshake; byte
   offset = nextStateResult.offset;
 
   // Validate Next State
-  if (nextState !== 1 && nextState !== 2) {
-      // Technically Minecraft only uses 1 (Status) or 2 (Login)
-      // Some mods might use others, but for a standard proxy, we might want to warn or strict checks.
-      // Let's just validate it's positive for now.
-      if (nextState < 0 || nextState > 4) {
-          throw new Error(`Invalid next state: ${nextState}`);
-      }
+  if (nextState !== NEXT_STATE_STATUS && !isLoginIntent(nextState)) {
+      throw new Error(`Invalid next state: ${nextState}`);
   }
 
   // Verify that we read exactly the packet length (excluding the packet length field itself)
@@ -100,6 +114,60 @@ export function parseHandshake(buffer: Uint8Array): { handshake: Handshake; byte
   };
 }
 
+/**
+ * Decodes a handshake starting at `offset` as its bytes arrive.
+ * Checks on partial data only look at the length prefix and packet ID, so
+ * calling this after every chunk does not re-read or copy the whole buffer.
+ */
+export function decodeHandshake(buffer: ChunkBuffer, offset = 0): DecodeResult<Handshake> {
+  const length = decodeVarInt(buffer, offset);
+  if (length.status !== 'packet') return length;
+
+  // Anything but packet 0x00 can be turned away before the rest arrives
+  const id = buffer.byteAt(offset + length.size);
+  if (id !== undefined && id !== 0x00 && (id & 0x80) === 0) {
+    return { status: 'invalid', reason: `Expected packet ID 0x00 for handshake, got ${id}` };
+  }
+
+  const frame = decodeFrame(buffer, offset, MAX_HANDSHAKE_LENGTH);
+  if (frame.status !== 'packet') return frame;
+
+  try {
+    const { handshake, bytesRead } = parseHandshake(buffer.peek(offset + frame.size).subarray(offset));
+    return { status: 'packet', packet: handshake, size: bytesRead };
+  } catch (error) {
+    return { status: 'invalid', reason: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Serializes a handshake packet, the inverse of `parseHandshake`.
+ * The packet length and ID are always recomputed from the other fields.
+ */
+export function writeHandshake(handshake: Pick<Handshake, 'protocolVersion' | 'serverAddress' | 'serverPort' | 'nextState'>): Uint8Array {
+  const addressBytes = new TextEncoder().encode(handshake.serverAddress);
+  const bodyLength =
+    varIntLength(0x00) +
+    varIntLength(handshake.protocolVersion) +
+    varIntLength(addressBytes.length) +
+    addressBytes.length +
+    2 +
+    varIntLength(handshake.nextState);
+
+  const buffer = new Uint8Array(varIntLength(bodyLength) + bodyLength);
+  let offset = writeVarIntSync(buffer, bodyLength, 0);
+  offset = writeVarIntSync(buffer, 0x00, offset);
+  offset = writeVarIntSync(buffer, handshake.protocolVersion, offset);
+  offset = writeVarIntSync(buffer, addressBytes.length, offset);
+  buffer.set(addressBytes, offset);
+  offset += addressBytes.length;
+  buffer[offset++] = (handshake.serverPort >> 8) & 0xFF;
+  buffer[offset++] = handshake.serverPort & 0xFF;
+  writeVarIntSync(buffer, handshake.nextState, offset);
+
+  return buffer;
+}
+
 /**
  * Helper to calculate VarInt length (same as in varint.ts but exported)
  */
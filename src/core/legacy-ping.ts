@@ -0,0 +1,166 @@
+/**
+ * Pre-1.7 server list ping (0xFE) support.
+ * See https://wiki.vg/Server_List_Ping#1.6
+ */
+import type { ServerStatus } from './status.js';
+
+export const LEGACY_PING_ID = 0xFE;
+export const LEGACY_KICK_ID = 0xFF;
+const PLUGIN_MESSAGE_ID = 0xFA;
+const PING_HOST_CHANNEL = 'MC|PingHost';
+
+/**
+ * A legacy ping. 1.6 clients also send the address they connected to.
+ */
+export interface LegacyPing {
+  legacy: true;
+  protocolVersion?: number;
+  serverAddress?: string;
+  serverPort?: number;
+}
+
+/**
+ * Values reported in a legacy kick-string response.
+ */
+export interface LegacyStatus {
+  protocolVersion: number;
+  versionName: string;
+  motd: string;
+  onlinePlayers: number;
+  maxPlayers: number;
+}
+
+/**
+ * Returns true if the buffer starts like a legacy ping. As on vanilla servers, a
+ * leading 0xFE byte is always treated as legacy.
+ */
+export function isLegacyPing(buffer: Uint8Array): boolean {
+  return buffer.length > 0 && buffer[0] === LEGACY_PING_ID;
+}
+
+function readUtf16(buffer: Uint8Array, offset: number, chars: number): string {
+  let value = '';
+  for (let i = 0; i < chars; i++) {
+    value += String.fromCharCode((buffer[offset + i * 2]! << 8) | buffer[offset + i * 2 + 1]!);
+  }
+  return value;
+}
+
+function readShort(buffer: Uint8Array, offset: number): number {
+  return (buffer[offset]! << 8) | buffer[offset + 1]!;
+}
+
+/**
+ * Parses a legacy ping in any of its forms:
+ * - `FE` (Beta 1.8 - 1.3)
+ * - `FE 01` (1.4 - 1.5)
+ * - `FE 01 FA <MC|PingHost plugin message>` (1.6)
+ *
+ * Returns null while more bytes are needed, throws if the 1.6 payload is malformed.
+ * Pass `complete` once the client stopped sending, so a lone 0xFE is taken as
+ * the Beta 1.8 - 1.3 form instead of waiting for an 0x01 that never comes.
+ */
+export function parseLegacyPing(buffer: Uint8Array, complete = false): { ping: LegacyPing; bytesRead: number } | null {
+  if (!isLegacyPing(buffer)) {
+    throw new Error('Not a legacy ping');
+  }
+
+  // A lone 0xFE may still be followed by 0x01
+  if (buffer.length < 2) return complete ? { ping: { legacy: true }, bytesRead: 1 } : null;
+
+  if (buffer[1] !== 0x01) {
+    return { ping: { legacy: true }, bytesRead: 1 };
+  }
+
+  if (buffer.length === 2) {
+    return { ping: { legacy: true }, bytesRead: 2 };
+  }
+
+  if (buffer[2] !== PLUGIN_MESSAGE_ID) {
+    return { ping: { legacy: true }, bytesRead: 2 };
+  }
+
+  // FE 01 FA, channel length (short), channel (UTF-16BE), data length (short), data
+  if (buffer.length < 5) return null;
+  const channelChars = readShort(buffer, 3);
+  let offset = 5 + channelChars * 2;
+  if (buffer.length < offset + 2) return null;
+
+  const channel = readUtf16(buffer, 5, channelChars);
+  if (channel !== PING_HOST_CHANNEL) {
+    throw new Error(`Unexpected legacy ping channel: ${channel}`);
+  }
+
+  const dataLength = readShort(buffer, offset);
+  offset += 2;
+  if (buffer.length < offset + dataLength) return null;
+
+  // Data: protocol (byte), host length (short), host (UTF-16BE), port (int)
+  const end = offset + dataLength;
+  const protocolVersion = buffer[offset]!;
+  const hostChars = readShort(buffer, offset + 1);
+  const hostOffset = offset + 3;
+  if (hostOffset + hostChars * 2 + 4 > end) {
+    throw new Error('Legacy ping data too short');
+  }
+
+  const serverAddress = readUtf16(buffer, hostOffset, hostChars);
+  const portOffset = hostOffset + hostChars * 2;
+  const serverPort = new DataView(buffer.buffer, buffer.byteOffset + portOffset, 4).getInt32(0);
+
+  return {
+    ping: { legacy: true, protocolVersion, serverAddress, serverPort },
+    bytesRead: end,
+  };
+}
+
+/**
+ * Encodes the `§1` kick-string response understood by 1.4+ clients
+ * (older clients show the MOTD only).
+ */
+export function writeLegacyKick(status: LegacyStatus): Uint8Array {
+  const message = [
+    '§1',
+    String(status.protocolVersion),
+    status.versionName,
+    status.motd,
+    String(status.onlinePlayers),
+    String(status.maxPlayers),
+  ].join('\0');
+
+  const buffer = new Uint8Array(3 + message.length * 2);
+  buffer[0] = LEGACY_KICK_ID;
+  buffer[1] = (message.length >> 8) & 0xFF;
+  buffer[2] = message.length & 0xFF;
+  for (let i = 0; i < message.length; i++) {
+    const code = message.charCodeAt(i);
+    buffer[3 + i * 2] = (code >> 8) & 0xFF;
+    buffer[4 + i * 2] = code & 0xFF;
+  }
+  return buffer;
+}
+
+/**
+ * Flattens a chat component into plain text, keeping formatting codes embedded in the text.
+ */
+function flattenDescription(description: ServerStatus['description']): string {
+  if (typeof description === 'string') return description;
+  const text = typeof description['text'] === 'string' ? description['text'] : '';
+  const extra = Array.isArray(description['extra'])
+    ? description['extra'].map((part) => flattenDescription(part as ServerStatus['description'])).join('')
+    : '';
+  return text + extra;
+}
+
+/**
+ * Converts a modern status document into the fields of a legacy kick string.
+ */
+export function toLegacyStatus(status: ServerStatus): LegacyStatus {
+  return {
+    protocolVersion: status.version.protocol,
+    versionName: status.version.name,
+    motd: flattenDescription(status.description),
+    onlinePlayers: status.players.online,
+    maxPlayers: status.players.max,
+  };
+}
@@ -0,0 +1,127 @@
+import { readPacket, writePacket } from './packet.js';
+import { readVarIntSync } from './varint.js';
+import { encodeString, readStringSync, readUuidSync, writeUuidSync } from './codec.js';
+
+/**
+ * Login-state packet IDs.
+ */
+export const LOGIN_DISCONNECT_ID = 0x00;
+export const LOGIN_START_ID = 0x00;
+
+/**
+ * Player identity sent by the client in the Login Start packet.
+ */
+export interface LoginStart {
+  username: string;
+  /** Player UUID in dashed form, sent by 1.19.1+ clients (always present from 1.20.2) */
+  uuid?: string;
+}
+
+/** 1.19 - Login Start carries optional signature data */
+const PROTOCOL_1_19 = 759;
+/** 1.19.1 - adds an optional player UUID after the signature data */
+const PROTOCOL_1_19_1 = 760;
+/** 1.19.3 - signature data removed, UUID still optional */
+const PROTOCOL_1_19_3 = 761;
+/** 1.20.2 - UUID becomes mandatory */
+const PROTOCOL_1_20_2 = 764;
+
+const MAX_USERNAME_LENGTH = 16;
+
+/**
+ * Encodes a Login Disconnect packet with a plain-text chat component as the reason.
+ * Formatting codes (`§c`) are preserved and rendered by the client.
+ */
+export function writeLoginDisconnect(reason: string): Uint8Array {
+  return writePacket(LOGIN_DISCONNECT_ID, encodeString(JSON.stringify({ text: reason })));
+}
+
+/**
+ * Parses a Login Start packet from the start of a buffer.
+ * The layout after the username depends on the protocol version from the handshake.
+ * Returns null if the packet is not complete yet, throws if it is malformed.
+ */
+export function parseLoginStart(buffer: Uint8Array, protocolVersion: number): { loginStart: LoginStart; bytesRead: number } | null {
+  const packet = readPacket(buffer, 0, 4096);
+  if (!packet) return null;
+
+  if (packet.id !== LOGIN_START_ID) {
+    throw new Error(`Expected packet ID 0x00 for login start, got ${packet.id}`);
+  }
+
+  const payload = packet.payload;
+  const name = readStringSync(payload, 0, MAX_USERNAME_LENGTH);
+  let offset = name.offset;
+
+  if (name.value.length === 0) {
+    throw new Error(`Invalid username length: ${name.value.length}`);
+  }
+
+  const readUuid = (): string => {
+    const uuid = readUuidSync(payload, offset);
+    offset = uuid.offset;
+    return uuid.value;
+  };
+
+  const readBoolean = (): boolean => {
+    if (offset >= payload.length) {
+      throw new Error('Buffer too short for boolean');
+    }
+    return payload[offset++] !== 0;
+  };
+
+  const skipByteArray = () => {
+    const length = readVarIntSync(payload, offset);
+    offset = length.offset + length.value;
+    if (offset > payload.length) {
+      throw new Error('Buffer too short for byte array');
+    }
+  };
+
+  let uuid: string | undefined;
+
+  if (protocolVersion >= PROTOCOL_1_20_2) {
+    uuid = readUuid();
+  } else if (protocolVersion >= PROTOCOL_1_19_3) {
+    if (readBoolean()) uuid = readUuid();
+  } else if (protocolVersion >= PROTOCOL_1_19) {
+    if (readBoolean()) {
+      offset += 8; // expiry timestamp
+      skipByteArray(); // public key
+      skipByteArray(); // signature
+    }
+    if (protocolVersion >= PROTOCOL_1_19_1 && readBoolean()) {
+      uuid = readUuid();
+    }
+  }
+
+  return {
+    loginStart: uuid ? { username: name.value, uuid } : { username: name.value },
+    bytesRead: packet.size,
+  };
+}
+
+/**
+ * Encodes a Login Start packet in the layout of the given protocol version,
+ * the inverse of `parseLoginStart`. 1.19 signature data is never written.
+ */
+export function writeLoginStart(loginStart: LoginStart, protocolVersion: number): Uint8Array {
+  const name = encodeString(loginStart.username);
+  const uuid = new Uint8Array(16);
+  if (loginStart.uuid) writeUuidSync(uuid, loginStart.uuid, 0);
+
+  const fields: number[][] = [[...name]];
+  if (protocolVersion >= PROTOCOL_1_20_2) {
+    if (!loginStart.uuid) {
+      throw new Error('Login Start requires a player UUID from 1.20.2');
+    }
+    fields.push([...uuid]);
+  } else if (protocolVersion >= PROTOCOL_1_19) {
+    if (protocolVersion < PROTOCOL_1_19_3) fields.push([0]); // no signature data
+    if (protocolVersion >= PROTOCOL_1_19_1) {
+      fields.push(loginStart.uuid ? [1, ...uuid] : [0]);
+    }
+  }
+
+  return writePacket(LOGIN_START_ID, Uint8Array.from(fields.flat()));
+}
@@ -0,0 +1,126 @@
+import { readVarIntSync, writeVarIntSync, varIntLength } from './varint.js';
+import type { ChunkBuffer } from './ChunkBuffer.js';
+
+/**
+ * A single uncompressed Minecraft packet frame.
+ */
+export interface RawPacket {
+  /** Packet ID */
+  id: number;
+  /** Packet body after the ID */
+  payload: Uint8Array;
+  /** Total bytes consumed from the buffer, including the length prefix */
+  size: number;
+}
+
+/**
+ * Outcome of decoding from a stream that may not hold a whole packet yet:
+ * more bytes are needed, a value was read from the first `size` bytes, or
+ * the bytes can never form a valid packet however much more arrives.
+ */
+export type DecodeResult<T> =
+  | { status: 'incomplete' }
+  | { status: 'packet'; packet: T; size: number }
+  | { status: 'invalid'; reason: string };
+
+const MAX_VARINT_BYTES = 5;
+
+/**
+ * Returns true when a complete VarInt starts at `offset`.
+ */
+function hasCompleteVarInt(buffer: Uint8Array, offset: number): boolean {
+  for (let i = 0; i < MAX_VARINT_BYTES; i++) {
+    if (offset + i >= buffer.length) return false;
+    if ((buffer[offset + i]! & 0x80) === 0) return true;
+  }
+  // Five continuation bytes - let readVarIntSync report the error
+  return true;
+}
+
+/**
+ * Reads the body of one VarInt length-prefixed frame without interpreting it.
+ * Returns null if the frame is not complete yet, throws if its length is invalid.
+ */
+export function readFrame(buffer: Uint8Array, offset = 0, maxLength = 2097151): { body: Uint8Array; size: number } | null {
+  if (!hasCompleteVarInt(buffer, offset)) return null;
+
+  const length = readVarIntSync(buffer, offset);
+  if (length.value <= 0 || length.value > maxLength) {
+    throw new Error(`Invalid packet length: ${length.value}`);
+  }
+
+  const end = length.offset + length.value;
+  if (end > buffer.length) return null;
+
+  return {
+    body: buffer.subarray(length.offset, end),
+    size: end - offset,
+  };
+}
+
+/**
+ * Reads one length-prefixed packet frame from a buffer.
+ * Returns null if the frame is not complete yet, throws if it is malformed.
+ */
+export function readPacket(buffer: Uint8Array, offset = 0, maxLength = 2097151): RawPacket | null {
+  const frame = readFrame(buffer, offset, maxLength);
+  if (!frame) return null;
+
+  if (!hasCompleteVarInt(frame.body, 0)) {
+    throw new Error('Packet ID exceeds packet length');
+  }
+  const id = readVarIntSync(frame.body, 0);
+
+  return {
+    id: id.value,
+    payload: frame.body.subarray(id.offset),
+    size: frame.size,
+  };
+}
+
+/**
+ * Reads a VarInt at `offset` without joining the buffer's chunks.
+ */
+export function decodeVarInt(buffer: ChunkBuffer, offset = 0): DecodeResult<number> {
+  let value = 0;
+  for (let i = 0; i < MAX_VARINT_BYTES; i++) {
+    const byte = buffer.byteAt(offset + i);
+    if (byte === undefined) return { status: 'incomplete' };
+    value |= (byte & 0x7F) << (7 * i);
+    if ((byte & 0x80) === 0) return { status: 'packet', packet: value, size: i + 1 };
+  }
+  return { status: 'invalid', reason: 'VarInt too big' };
+}
+
+/**
+ * Incremental form of `readFrame`: reports `incomplete` until the whole frame
+ * starting at `offset` is buffered, and only then joins it into one array.
+ */
+export function decodeFrame(buffer: ChunkBuffer, offset = 0, maxLength = 2097151): DecodeResult<Uint8Array> {
+  const length = decodeVarInt(buffer, offset);
+  if (length.status !== 'packet') return length;
+  if (length.packet <= 0 || length.packet > maxLength) {
+    return { status: 'invalid', reason: `Invalid packet length: ${length.packet}` };
+  }
+
+  const size = length.size + length.packet;
+  if (buffer.length < offset + size) return { status: 'incomplete' };
+
+  return {
+    status: 'packet',
+    packet: buffer.peek(offset + size).subarray(offset + length.size),
+    size,
+  };
+}
+
+/**
+ * Encodes a packet frame: VarInt length, VarInt ID, payload.
+ */
+export function writePacket(id: number, payload: Uint8Array = new Uint8Array()): Uint8Array {
+  const bodyLength = varIntLength(id) + payload.length;
+  const buffer = new Uint8Array(varIntLength(bodyLength) + bodyLength);
+  let offset = writeVarIntSync(buffer, bodyLength, 0);
+  offset = writeVarIntSync(buffer, id, offset);
+  buffer.set(payload, offset);
+  return buffer;
+}
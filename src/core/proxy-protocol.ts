@@ -0,0 +1,222 @@
+/**
+ * HAProxy PROXY protocol headers, which pass the real client address to a backend.
+ * See https://www.haproxy.org/download/2.9/doc/proxy-protocol.txt
+ */
+import { bytesToIp, ipToBytes } from '../utils/cidr.js';
+
+export type ProxyProtocolVersion = 'v1' | 'v2';
+
+/**
+ * Addresses carried in a PROXY header.
+ */
+export interface ProxyAddresses {
+  /** Address of the real client */
+  sourceAddress: string;
+  sourcePort: number;
+  /** Address the client connected to */
+  destinationAddress: string;
+  destinationPort: number;
+}
+
+export const PROXY_V2_SIGNATURE = new Uint8Array([0x0D, 0x0A, 0x0D, 0x0A, 0x00, 0x0D, 0x0A, 0x51, 0x55, 0x49, 0x54, 0x0A]);
+
+const V2_VERSION_LOCAL = 0x20;
+const V2_VERSION_PROXY = 0x21;
+const V2_TCP4 = 0x11;
+const V2_TCP6 = 0x21;
+
+/**
+ * Converts both addresses to bytes of the same family. A destination of another
+ * family (e.g. a dual-stack listener) is replaced by the unspecified address.
+ * Returns null when the source address is unknown or invalid.
+ */
+function toAddressBytes(addresses: ProxyAddresses | null): { source: Uint8Array; destination: Uint8Array } | null {
+  if (!addresses) return null;
+  const source = ipToBytes(addresses.sourceAddress);
+  if (!source) return null;
+
+  let destination = ipToBytes(addresses.destinationAddress);
+  if (!destination || destination.length !== source.length) {
+    destination = new Uint8Array(source.length);
+  }
+  return { source, destination };
+}
+
+/**
+ * Encodes a human-readable v1 header. Unknown addresses produce `PROXY UNKNOWN`.
+ */
+export function writeProxyHeaderV1(addresses: ProxyAddresses | null): Uint8Array {
+  const bytes = toAddressBytes(addresses);
+  if (!bytes || !addresses) {
+    return new TextEncoder().encode('PROXY UNKNOWN\r\n');
+  }
+
+  const family = bytes.source.length === 4 ? 'TCP4' : 'TCP6';
+  return new TextEncoder().encode(
+    `PROXY ${family} ${bytesToIp(bytes.source)} ${bytesToIp(bytes.destination)} ${addresses.sourcePort} ${addresses.destinationPort}\r\n`,
+  );
+}
+
+/**
+ * Encodes a binary v2 header. Unknown addresses produce a `LOCAL` header.
+ */
+export function writeProxyHeaderV2(addresses: ProxyAddresses | null): Uint8Array {
+  const bytes = toAddressBytes(addresses);
+  const addressLength = bytes ? bytes.source.length * 2 + 4 : 0;
+
+  const header = new Uint8Array(16 + addressLength);
+  const view = new DataView(header.buffer);
+  header.set(PROXY_V2_SIGNATURE);
+
+  if (!bytes || !addresses) {
+    header[12] = V2_VERSION_LOCAL;
+    header[13] = 0x00;
+    return header;
+  }
+
+  header[12] = V2_VERSION_PROXY;
+  header[13] = bytes.source.length === 4 ? V2_TCP4 : V2_TCP6;
+  view.setUint16(14, addressLength);
+  header.set(bytes.source, 16);
+  header.set(bytes.destination, 16 + bytes.source.length);
+  view.setUint16(16 + bytes.source.length * 2, addresses.sourcePort);
+  view.setUint16(18 + bytes.source.length * 2, addresses.destinationPort);
+  return header;
+}
+
+/**
+ * Encodes a PROXY header of the given version.
+ */
+export function writeProxyHeader(version: ProxyProtocolVersion, addresses: ProxyAddresses | null): Uint8Array {
+  return version === 'v2' ? writeProxyHeaderV2(addresses) : writeProxyHeaderV1(addresses);
+}
+
+/**
+ * A parsed PROXY header.
+ */
+export interface ProxyHeader {
+  /** Client addresses, or null for `LOCAL`/`UNKNOWN` headers and non-IP families */
+  addresses: ProxyAddresses | null;
+  /** Header length in bytes */
+  bytesRead: number;
+}
+
+const V1_PREFIX = new TextEncoder().encode('PROXY ');
+const V1_MAX_LENGTH = 107;
+
+function startsWith(buffer: Uint8Array, prefix: Uint8Array): boolean {
+  const length = Math.min(buffer.length, prefix.length);
+  for (let i = 0; i < length; i++) {
+    if (buffer[i] !== prefix[i]) return false;
+  }
+  return true;
+}
+
+/**
+ * Returns true if the bytes received so far may be the start of a PROXY header.
+ * Neither signature can begin a Minecraft handshake, so this never matches one.
+ */
+export function isProxyHeaderPrefix(buffer: Uint8Array): boolean {
+  return buffer.length > 0 && (startsWith(buffer, V1_PREFIX) || startsWith(buffer, PROXY_V2_SIGNATURE));
+}
+
+function parseV1(buffer: Uint8Array): ProxyHeader | null {
+  let end = -1;
+  for (let i = 0; i < Math.min(buffer.length, V1_MAX_LENGTH) - 1; i++) {
+    if (buffer[i] === 0x0D && buffer[i + 1] === 0x0A) {
+      end = i;
+      break;
+    }
+  }
+  if (end === -1) {
+    if (buffer.length >= V1_MAX_LENGTH) throw new Error('PROXY v1 header too long');
+    return null;
+  }
+
+  const parts = new TextDecoder().decode(buffer.subarray(0, end)).split(' ');
+  const bytesRead = end + 2;
+  if (parts[1] === 'UNKNOWN') {
+    return { addresses: null, bytesRead };
+  }
+
+  const [, family, sourceAddress, destinationAddress, sourcePort, destinationPort] = parts;
+  if ((family !== 'TCP4' && family !== 'TCP6') || parts.length !== 6) {
+    throw new Error('Malformed PROXY v1 header');
+  }
+
+  const source = ipToBytes(sourceAddress!);
+  const destination = ipToBytes(destinationAddress!);
+  const ports = [Number(sourcePort), Number(destinationPort)];
+  if (!source || !destination || ports.some((port) => !Number.isInteger(port) || port < 0 || port > 65535)) {
+    throw new Error('Malformed PROXY v1 header');
+  }
+
+  return {
+    addresses: {
+      sourceAddress: sourceAddress!,
+      sourcePort: ports[0]!,
+      destinationAddress: destinationAddress!,
+      destinationPort: ports[1]!,
+    },
+    bytesRead,
+  };
+}
+
+function parseV2(buffer: Uint8Array): ProxyHeader | null {
+  if (buffer.length < 16) return null;
+
+  const view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+  const versionCommand = buffer[12]!;
+  if (versionCommand >> 4 !== 2) {
+    throw new Error(`Unsupported PROXY v2 version: ${versionCommand >> 4}`);
+  }
+
+  const length = view.getUint16(14);
+  const bytesRead = 16 + length;
+  if (buffer.length < bytesRead) return null;
+
+  const command = versionCommand & 0x0F;
+  if (command === 0x00) {
+    return { addresses: null, bytesRead };
+  }
+  if (command !== 0x01) {
+    throw new Error(`Unsupported PROXY v2 command: ${command}`);
+  }
+
+  // High nibble: address family (1 = IPv4, 2 = IPv6), low nibble: TCP or UDP
+  const family = buffer[13]! >> 4;
+  const addressLength = family === 1 ? 4 : family === 2 ? 16 : 0;
+  if (addressLength === 0) {
+    // AF_UNIX and unspecified families carry no IP addresses
+    return { addresses: null, bytesRead };
+  }
+  if (length < addressLength * 2 + 4) {
+    throw new Error('PROXY v2 address block too short');
+  }
+
+  return {
+    addresses: {
+      sourceAddress: bytesToIp(buffer.subarray(16, 16 + addressLength)),
+      destinationAddress: bytesToIp(buffer.subarray(16 + addressLength, 16 + addressLength * 2)),
+      sourcePort: view.getUint16(16 + addressLength * 2),
+      destinationPort: view.getUint16(18 + addressLength * 2),
+    },
+    bytesRead,
+  };
+}
+
+/**
+ * Parses a v1 or v2 PROXY header at the start of a buffer.
+ * Returns null while the header is incomplete, throws if it is malformed or
+ * the buffer does not start with a PROXY header.
+ */
+export function parseProxyHeader(buffer: Uint8Array): ProxyHeader | null {
+  if (buffer.length >= V1_PREFIX.length && startsWith(buffer, V1_PREFIX)) {
+    return parseV1(buffer);
+  }
+  if (buffer.length >= PROXY_V2_SIGNATURE.length && startsWith(buffer, PROXY_V2_SIGNATURE)) {
+    return parseV2(buffer);
+  }
+  if (isProxyHeaderPrefix(buffer)) return null;
+  throw new Error('Not a PROXY protocol header');
+}
@@ -0,0 +1,100 @@
+import type { BackendServer, LoadBalanceStrategy, ProxyConfig, ProxyRoute } from '../config/config.js';
+
+/**
+ * Backend selected for a connection.
+ */
+export interface RouteTarget {
+  /** First backend of the pool, used for status queries */
+  host: string;
+  port: number;
+  /** The matched route, or null when the connection fell through to the default backend */
+  route: ProxyRoute | null;
+  /** Every backend the connection may be sent to */
+  backends: BackendServer[];
+  strategy: LoadBalanceStrategy;
+}
+
+/**
+ * Normalizes a handshake server address for routing.
+ * Strips Forge/BungeeCord data appended after a NUL byte, a trailing dot
+ * (fully-qualified names) and lowercases the result.
+ */
+export function normalizeServerAddress(address: string): string {
+  const nul = address.indexOf('\0');
+  let host = nul === -1 ? address : address.slice(0, nul);
+  if (host.endsWith('.')) {
+    host = host.slice(0, -1);
+  }
+  return host.toLowerCase();
+}
+
+/**
+ * Checks a single route pattern against a normalized hostname.
+ * `*.example.com` matches any subdomain of example.com but not example.com itself.
+ */
+export function matchesHost(pattern: string, host: string): boolean {
+  const normalized = pattern.toLowerCase();
+  if (normalized === '*') return true;
+  if (normalized.startsWith('*.')) {
+    return host.endsWith(normalized.slice(1));
+  }
+  return normalized === host;
+}
+
+/**
+ * Finds the most specific route for a server address.
+ * Exact names win over wildcards, longer wildcards win over shorter ones,
+ * and `*` is only used when nothing else matches.
+ */
+export function matchRoute(routes: ProxyRoute[], serverAddress: string): ProxyRoute | null {
+  const host = normalizeServerAddress(serverAddress);
+  let best: ProxyRoute | null = null;
+  let bestScore = -1;
+
+  for (const route of routes) {
+    if (!matchesHost(route.host, host)) continue;
+
+    const score = route.host === '*' ? 0 : route.host.startsWith('*.') ? route.host.length : Number.MAX_SAFE_INTEGER;
+    if (score > bestScore) {
+      best = route;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Resolves the backend for a server address using the config's routing table,
+ * falling back to the default `backends` pool or `minecraftHost`/`minecraftPort`.
+ */
+export function resolveRoute(config: ProxyConfig, serverAddress?: string): RouteTarget {
+  const route = config.routes && serverAddress !== undefined
+    ? matchRoute(config.routes, serverAddress)
+    : null;
+
+  if (route) {
+    return toTarget(routeBackends(route), route.strategy, route);
+  }
+
+  const backends = config.backends?.length
+    ? config.backends
+    : [{ host: config.minecraftHost, port: config.minecraftPort }];
+  return toTarget(backends, config.strategy, null);
+}
+
+/**
+ * Lists the backends of a route, throwing if it names none.
+ */
+export function routeBackends(route: ProxyRoute): BackendServer[] {
+  if (route.backends?.length) return route.backends;
+  if (route.backendHost === undefined || route.backendPort === undefined) {
+    throw new Error(`Route ${route.host} has no backend`);
+  }
+  return [{ host: route.backendHost, port: route.backendPort }];
+}
+
+function toTarget(backends: BackendServer[], strategy: LoadBalanceStrategy | undefined, route: ProxyRoute | null): RouteTarget {
+  const primary = backends[0]!;
+  return { host: primary.host, port: primary.port, route, backends, strategy: strategy ?? 'round-robin' };
+}
@@ -0,0 +1,150 @@
+import { writeHandshake } from './handshake.js';
+import { readPacket, writePacket } from './packet.js';
+import { encodeString, readStringSync } from './codec.js';
+import { writeProxyHeader, type ProxyProtocolVersion } from './proxy-protocol.js';
+
+/**
+ * Status-state packet IDs (same in both directions).
+ */
+export const STATUS_REQUEST_ID = 0x00;
+export const STATUS_RESPONSE_ID = 0x00;
+export const PING_ID = 0x01;
+export const PONG_ID = 0x01;
+
+/**
+ * JSON document returned in a Status Response packet.
+ * See https://wiki.vg/Server_List_Ping#Status_Response
+ */
+export interface ServerStatus {
+  version: { name: string; protocol: number };
+  players: { max: number; online: number; sample?: { name: string; id: string }[] };
+  description: string | Record<string, unknown>;
+  favicon?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Result of querying a server's status.
+ */
+export interface StatusQueryResult {
+  status: ServerStatus;
+  /** Round-trip time between the status request and response, in milliseconds */
+  latencyMs: number;
+}
+
+export interface StatusQueryOptions {
+  /** Protocol version sent in the handshake (default: 47, understood by every modern server) */
+  protocolVersion?: number;
+  /** Server address sent in the handshake (default: the host being queried) */
+  serverAddress?: string;
+  /** Give up after this many milliseconds (default: 5000) */
+  timeoutMs?: number;
+  /** Send a LOCAL PROXY header first, for backends that require one */
+  proxyProtocol?: ProxyProtocolVersion;
+}
+
+/**
+ * Encodes a Status Response packet.
+ */
+export function writeStatusResponse(status: ServerStatus): Uint8Array {
+  return writePacket(STATUS_RESPONSE_ID, encodeString(JSON.stringify(status)));
+}
+
+/**
+ * Decodes the payload of a Status Response packet.
+ */
+export function readStatusResponse(payload: Uint8Array): ServerStatus {
+  const { value } = readStringSync(payload, 0);
+  const parsed = JSON.parse(value);
+  if (typeof parsed !== 'object' || parsed === null) {
+    throw new Error('Status response is not a JSON object');
+  }
+  return parsed as ServerStatus;
+}
+
+/**
+ * Encodes an empty Status Request packet.
+ */
+export function writeStatusRequest(): Uint8Array {
+  return writePacket(STATUS_REQUEST_ID);
+}
+
+/**
+ * Encodes a Ping packet carrying an 8-byte payload.
+ */
+export function writePing(payload: Uint8Array): Uint8Array {
+  return writePacket(PING_ID, payload);
+}
+
+/**
+ * Encodes a Pong packet echoing the 8-byte payload of a Ping.
+ */
+export function writePong(payload: Uint8Array): Uint8Array {
+  return writePacket(PONG_ID, payload);
+}
+
+/**
+ * Performs a Server List Ping against a backend and returns its status document.
+ */
+export function queryServerStatus(host: string, port: number, options: StatusQueryOptions = {}): Promise<StatusQueryResult> {
+  const timeoutMs = options.timeoutMs ?? 5000;
+
+  return new Promise((resolve, reject) => {
+    let buffer = new Uint8Array();
+    let sentAt = 0;
+    let settled = false;
+    let socket: { end(): void } | null = null;
+
+    const finish = (error: Error | null, result?: StatusQueryResult) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      socket?.end();
+      if (error) reject(error);
+      else resolve(result!);
+    };
+
+    const timer = setTimeout(() => finish(new Error(`Status query to ${host}:${port} timed out`)), timeoutMs);
+
+    Bun.connect({
+      hostname: host,
+      port,
+      socket: {
+        open: (s) => {
+          socket = s;
+          sentAt = performance.now();
+          if (options.proxyProtocol) s.write(writeProxyHeader(options.proxyProtocol, null));
+          s.write(writeHandshake({
+            protocolVersion: options.protocolVersion ?? 47,
+            serverAddress: options.serverAddress ?? host,
+            serverPort: port,
+            nextState: 1,
+          }));
+          s.write(writeStatusRequest());
+        },
+        data: (_s, data) => {
+          const merged = new Uint8Array(buffer.length + data.length);
+          merged.set(buffer);
+          merged.set(data, buffer.length);
+          buffer = merged;
+
+          try {
+            const packet = readPacket(buffer);
+            if (!packet) return;
+            if (packet.id !== STATUS_RESPONSE_ID) {
+              throw new Error(`Unexpected packet 0x${packet.id.toString(16)} in status response`);
+            }
+            finish(null, {
+              status: readStatusResponse(packet.payload),
+              latencyMs: performance.now() - sentAt,
+            });
+          } catch (err) {
+            finish(err instanceof Error ? err : new Error(String(err)));
+          }
+        },
+        close: () => finish(new Error(`Connection to ${host}:${port} closed before status response`)),
+        error: (_s, err) => finish(err),
+      },
+    }).catch((err) => finish(err instanceof Error ? err : new Error(String(err))));
+  });
+}
@@ -0,0 +1,30 @@
+import { ChunkBuffer } from './ChunkBuffer.js';
+
+/**
+ * Wraps a stream reader for field-by-field reads.
+ * Stream chunks rarely line up with field boundaries, so whatever follows a
+ * field stays buffered here for the next read. Pass the same `StreamReader`
+ * to every read on one stream; reading the underlying reader directly skips
+ * those bytes.
+ */
+export class StreamReader {
+  private readonly leftovers = new ChunkBuffer();
+
+  constructor(private readonly reader: ReadableStreamDefaultReader<Uint8Array>) {}
+
+  /**
+   * Reads exactly `length` bytes.
+   * Throws if the stream ends first.
+   */
+  async readExact(length: number): Promise<Uint8Array> {
+    while (this.leftovers.length < length) {
+      const { done, value } = await this.reader.read();
+      if (done) {
+        throw new Error(`Unexpected end of stream (needed ${length} bytes, got ${this.leftovers.length})`);
+      }
+      this.leftovers.push(value);
+    }
+
+    return this.leftovers.read(length);
+  }
+}
@@ -1,49 +1,27 @@
 /**
- * VarInt utilities for Minecraft protocol
+ * VarInt and VarLong utilities for Minecraft protocol
  * Based on Minecraft protocol specification: https://wiki.vg/Protocol#VarInt_and_VarLong
  */
+import type { StreamReader } from './stream.js';
 
 /**
  * Reads a VarInt from a stream
  */
-export async function readVarInt(reader: ReadableStreamDefaultReader<Uint8Array>): Promise<number> {
+export async function readVarInt(reader: StreamReader): Promise<number> {
   let result = 0;
   let shift = 0;
   let byte: number;
   let bytesRead = 0;
 
   do {
-    const { done, value } = await reader.read();
-    if (done) {
-      throw new Error('Unexpected end of stream while reading VarInt');
-    }
-    // value is defined because done is false
-    const chunk = value!;
-    if (chunk.length === 0) {
-      throw new Error('Received empty chunk while reading VarInt');
-    }
-    
-    // Safety check: if chunk is larger than expected max VarInt bytes, we might have issue 
-    // if we process it incorrectly, but here we read byte by byte logically (though code takes chunk[0]).
-    // The previous implementation was buggy: it discarded the rest of the chunk!
-    // FIXING BUG: We should ideally loop through chunk, but this function signature 
-    // implies reading ONE VarInt from a stream, and it's implemented poorly by reading one chunk and taking 1 byte.
-    // This looks like it was intended for singular byte streams or it's just broken for chunks > 1 byte.
-    // Given the user strict "never use any" and "best practices", let's fix the bug or at least validate.
-    // Since we are fixing VALIDATION, let's just add the limit check for now.
-    
-    byte = chunk[0]!;
-    
     if (bytesRead >= 5) {
-         throw new Error('VarInt too big');
+      throw new Error('VarInt too big');
     }
+    byte = (await reader.readExact(1))[0]!;
     bytesRead++;
 
     result |= (byte & 0x7F) << shift;
     shift += 7;
-    
-    // To properly fix the stream reading logic would require buffering.
-    // For now, let's assume the user uses the Sync version mostly or 1-byte chunks.
   } while ((byte & 0x80) !== 0);
 
   return result;
@@ -127,3 +105,94 @@ export function varIntLength(value: number): number {
   } while (value !== 0);
   return length;
 }
+
+/**
+ * Reads a VarLong (up to 10 bytes, signed 64-bit) from a buffer starting at the given offset.
+ * Returns the value and the new offset.
+ */
+export function readVarLongSync(buffer: Uint8Array, offset: number): { value: bigint; offset: number } {
+  let result = 0n;
+  let shift = 0n;
+  let byte: number;
+  let bytesRead = 0;
+
+  do {
+    if (offset >= buffer.length) {
+      throw new Error('Buffer too short');
+    }
+
+    if (bytesRead >= 10) {
+      throw new Error('VarLong too big');
+    }
+
+    byte = buffer[offset]!;
+    offset++;
+    bytesRead++;
+
+    result |= BigInt(byte & 0x7F) << shift;
+    shift += 7n;
+  } while ((byte & 0x80) !== 0);
+  return { value: BigInt.asIntN(64, result), offset };
+}
+
+/**
+ * Writes a VarLong to a buffer at the given offset.
+ * Returns the new offset.
+ */
+export function writeVarLongSync(buffer: Uint8Array, value: bigint, offset: number): number {
+  let remaining = BigInt.asUintN(64, value);
+  do {
+    let temp = Number(remaining & 0x7Fn);
+    remaining >>= 7n;
+    if (remaining !== 0n) {
+      temp |= 0x80;
+    }
+    buffer[offset++] = temp;
+  } while (remaining !== 0n);
+  return offset;
+}
+
+/**
+ * Calculates the number of bytes required to encode a VarLong.
+ */
+export function varLongLength(value: bigint): number {
+  let remaining = BigInt.asUintN(64, value);
+  let length = 0;
+  do {
+    remaining >>= 7n;
+    length++;
+  } while (remaining !== 0n);
+  return length;
+}
+
+/**
+ * Reads a VarLong from a stream
+ */
+export async function readVarLong(reader: StreamReader): Promise<bigint> {
+  let result = 0n;
+  let shift = 0n;
+  let byte: number;
+  let bytesRead = 0;
+
+  do {
+    if (bytesRead >= 10) {
+      throw new Error('VarLong too big');
+    }
+    byte = (await reader.readExact(1))[0]!;
+    bytesRead++;
+
+    result |= BigInt(byte & 0x7F) << shift;
+    shift += 7n;
+  } while ((byte & 0x80) !== 0);
+
+  return BigInt.asIntN(64, result);
+}
+
+/**
+ * Writes a VarLong to a stream
+ */
+export async function writeVarLong(writer: WritableStreamDefaultWriter<Uint8Array>, value: bigint): Promise<void> {
+  const buffer = new Uint8Array(varLongLength(value));
+  writeVarLongSync(buffer, value, 0);
+  await writer.write(buffer);
+}
@@ -3,26 +3,59 @@ export * from './config/config-manager.js';
 // export * from './connection-handler.js'; // Deprecated/Replaced
 export * from './core/handshake.js';
 export * from './core/proxy.js';
+export * from './core/router.js';
+export * from './core/LoadBalancer.js';
+export * from './core/HealthChecker.js';
+export * from './core/VersionRegistry.js';
 export * from './core/tunnel.js';
 export * from './core/varint.js';
+export * from './core/packet.js';
+export * from './core/ChunkBuffer.js';
+export * from './core/codec.js';
+export * from './core/stream.js';
+export * from './core/status.js';
+export * from './core/login.js';
+export * from './core/forwarding.js';
+export * from './core/proxy-protocol.js';
+export * from './core/legacy-ping.js';
+export * from './core/StatusResponder.js';
 export * from './core/types.js';
 export * from './reverse/agent.js';
 export * from './reverse/bridge.js';
 export * from './core/ProxyServer.js';
+export * from './core/MiddlewarePipeline.js';
 export * from './transports/Transport.js';
 export * from './transports/TcpTransport.js';
 export * from './transports/UdpTransport.js';
 export * from './protocols/Protocol.js';
 export * from './protocols/MinecraftProtocol.js';
+export * from './protocols/FramedProtocol.js';
 export * from './protocols/PassthroughProtocol.js';
 
 // Bridge components with enhanced authentication
 export { BridgeServer, defaultBridgeConfig } from './lib/bridge/BridgeServer.js';
 export type { BridgeConfig } from './lib/bridge/BridgeServer.js';
 export { BridgeServerEnhanced } from './lib/bridge/BridgeServerEnhanced.js';
-export type { BridgeConfigEnhanced } from './lib/bridge/BridgeServerEnhanced.js';
+export type { BridgeConfigEnhanced, BridgeEvents, BridgePlayer, BridgeAgentInfo, BridgePlayerInfo } from './lib/bridge/BridgeServerEnhanced.js';
+export { BridgeAdminServer } from './lib/bridge/BridgeAdminServer.js';
 export { TunnelAgent, defaultAgentConfig } from './lib/bridge/TunnelAgent.js';
-export type { AgentConfig } from './lib/bridge/TunnelAgent.js';
+export type { AgentConfig, AgentEvents } from './lib/bridge/TunnelAgent.js';
 export { BridgeManager, defaultBridgeManager } from './lib/bridge/BridgeManager.js';
 export { TokenManager } from './lib/auth/TokenManager.js';
 export type { TokenConfig, AgentToken, ClaimCode } from './lib/auth/TokenManager.js';
+export { FileTokenStore } from './lib/auth/TokenStore.js';
+export { encodeSignedToken, decodeSignedToken, SIGNED_TOKEN_PREFIX } from './lib/auth/SignedTokens.js';
+export type { SignedTokenClaims } from './lib/auth/SignedTokens.js';
+export type { TokenStore, TokenStoreSnapshot, StoredToken, StoredClaimCode } from './lib/auth/TokenStore.js';
+export { AccessList, defaultAccessListData, entryMatches } from './lib/access/AccessList.js';
+export type { AccessEntry, AccessListData, AccessDecision, PlayerIdentity, AccessListOptions } from './lib/access/AccessList.js';
+export { TypedEventEmitter } from './lib/events/TypedEventEmitter.js';
+export { PluginManager } from './lib/plugins/PluginManager.js';
+export type { Plugin, PluginContext, PluginPlayer, PluginAgent } from './lib/plugins/PluginManager.js';
+export { MetricsRegistry, globalMetrics, DEFAULT_BUCKETS, SESSION_BUCKETS } from './lib/metrics/MetricsRegistry.js';
+export type { MetricType, MetricDefinition, HistogramValue, MetricSnapshot, ScalarMetricSnapshot, HistogramMetricSnapshot } from './lib/metrics/MetricsRegistry.js';
+export { MetricsServer } from './lib/metrics/MetricsServer.js';
+export { StructuredLogger, StdoutSink, createLogger, noopLogger, formatJson, formatPretty, LOG_LEVELS } from './lib/logging/Logger.js';
+export type { Logger, LogFields, LogRecord, LogSink } from './lib/logging/Logger.js';
+export { RotatingFileSink } from './lib/logging/RotatingFileSink.js';
+export * from './utils/cidr.js';
@@ -0,0 +1,160 @@
+import { ConfigManager } from '../../config/config-manager.js';
+import { ipInCidr } from '../../utils/cidr.js';
+
+/**
+ * A whitelist or ban entry. Any combination of fields may be set; an entry
+ * matches when every field it sets matches the player.
+ */
+export interface AccessEntry {
+    /** Player name, compared case-insensitively */
+    username?: string;
+    /** Player UUID, with or without dashes */
+    uuid?: string;
+    /** IP address or CIDR range (e.g. `203.0.113.0/24`) */
+    ip?: string;
+    /** Reason shown to the player when the entry rejects them */
+    reason?: string;
+    /** ISO 8601 timestamp after which the entry no longer applies */
+    expiresAt?: string;
+}
+
+/**
+ * On-disk layout of an access list file.
+ */
+export interface AccessListData {
+    whitelist: {
+        /** When enabled, only players matching an entry may join */
+        enabled: boolean;
+        entries: AccessEntry[];
+    };
+    bans: AccessEntry[];
+}
+
+/**
+ * Identity of a connecting player. Fields that are not known yet are omitted.
+ */
+export interface PlayerIdentity {
+    username?: string;
+    uuid?: string;
+    ip?: string;
+}
+
+export type AccessDecision =
+    | { allowed: true }
+    | { allowed: false; reason: string; entry?: AccessEntry };
+
+export interface AccessListOptions {
+    /** YAML file holding the lists; created with empty lists if missing */
+    fileName: string;
+    /** Reload the lists when the file changes (default: true) */
+    watch?: boolean;
+    /** Suppress ConfigManager console output */
+    silent?: boolean;
+}
+
+export const defaultAccessListData: AccessListData = {
+    whitelist: {
+        enabled: false,
+        entries: [],
+    },
+    bans: [],
+};
+
+const DEFAULT_BAN_REASON = 'You are banned from this server.';
+const NOT_WHITELISTED_REASON = 'You are not whitelisted on this server.';
+
+function normalizeUuid(uuid: string): string {
+    return uuid.replace(/-/g, '').toLowerCase();
+}
+
+/**
+ * Checks whether an entry matches a player. Entries that set no identifying
+ * field never match; fields the player has not revealed yet do not match.
+ */
+export function entryMatches(entry: AccessEntry, player: PlayerIdentity, now = Date.now()): boolean {
+    if (entry.expiresAt) {
+        const expires = Date.parse(entry.expiresAt);
+        if (!Number.isNaN(expires) && expires <= now) return false;
+    }
+
+    if (!entry.username && !entry.uuid && !entry.ip) return false;
+
+    if (entry.username && (!player.username || entry.username.toLowerCase() !== player.username.toLowerCase())) {
+        return false;
+    }
+    if (entry.uuid && (!player.uuid || normalizeUuid(entry.uuid) !== normalizeUuid(player.uuid))) {
+        return false;
+    }
+    if (entry.ip && (!player.ip || !ipInCidr(player.ip, entry.ip))) {
+        return false;
+    }
+    return true;
+}
+
+/**
+ * File-backed whitelist and ban list, hot-reloaded through `ConfigManager`.
+ */
+export class AccessList {
+    private manager: ConfigManager<AccessListData>;
+    private data: AccessListData = defaultAccessListData;
+    private readonly watchFile: boolean;
+
+    constructor(options: AccessListOptions) {
+        this.watchFile = options.watch ?? true;
+        this.manager = new ConfigManager<AccessListData>({
+            fileName: options.fileName,
+            defaultConfig: defaultAccessListData,
+            silent: options.silent ?? false,
+            onChange: (data) => {
+                this.data = data;
+            },
+        });
+    }
+
+    /**
+     * Loads the lists and starts watching the file if enabled.
+     */
+    async load(): Promise<AccessListData> {
+        this.data = await this.manager.load();
+        if (this.watchFile) {
+            this.manager.startWatching();
+        }
+        return this.data;
+    }
+
+    /**
+     * Decides whether a player may join. Bans are checked before the whitelist.
+     */
+    check(player: PlayerIdentity): AccessDecision {
+        const now = Date.now();
+
+        const ban = this.data.bans.find((entry) => entryMatches(entry, player, now));
+        if (ban) {
+            let reason = ban.reason || DEFAULT_BAN_REASON;
+            if (ban.expiresAt) {
+                reason += `\nExpires: ${new Date(ban.expiresAt).toUTCString()}`;
+            }
+            return { allowed: false, reason, entry: ban };
+        }
+
+        if (this.data.whitelist.enabled && !this.data.whitelist.entries.some((entry) => entryMatches(entry, player, now))) {
+            return { allowed: false, reason: NOT_WHITELISTED_REASON };
+        }
+
+        return { allowed: true };
+    }
+
+    /**
+     * Current list contents.
+     */
+    get(): AccessListData {
+        return this.data;
+    }
+
+    /**
+     * Stops watching the file.
+     */
+    close() {
+        this.manager.close();
+    }
+}
@@ -0,0 +1,62 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+/** Prefix telling signed tokens apart from random ones */
+export const SIGNED_TOKEN_PREFIX = 'v1.';
+
+/**
+ * Claims carried by a signed token. Times are Unix seconds.
+ */
+export interface SignedTokenClaims {
+    /** Agent id */
+    sub: string;
+    /** Namespace */
+    ns: string;
+    /** Issued at */
+    iat: number;
+    /** Expires at */
+    exp: number;
+    /** Scopes */
+    scp: string[];
+}
+
+/**
+ * Signs claims as `v1.<keyId>.<payload>.<signature>`, with the JSON payload and
+ * the HMAC-SHA256 signature in base64url.
+ */
+export function encodeSignedToken(claims: SignedTokenClaims, keyId: string, key: string): string {
+    const unsigned = `${SIGNED_TOKEN_PREFIX}${keyId}.${Buffer.from(JSON.stringify(claims)).toString('base64url')}`;
+    return `${unsigned}.${sign(unsigned, key)}`;
+}
+
+/**
+ * Claims of a token signed with one of `keys`, by key id, or null when the
+ * token is malformed, signed with an unknown key, tampered with or expired.
+ */
+export function decodeSignedToken(token: string, keys: Record<string, string>, now = Date.now()): SignedTokenClaims | null {
+    const parts = token.split('.');
+    if (parts.length !== 4 || `${parts[0]}.` !== SIGNED_TOKEN_PREFIX) return null;
+
+    const [, keyId, payload, signature] = parts as [string, string, string, string];
+    const key = Object.hasOwn(keys, keyId) ? keys[keyId] : undefined;
+    if (!key) return null;
+
+    const expected = Buffer.from(sign(token.slice(0, token.lastIndexOf('.')), key));
+    const provided = Buffer.from(signature);
+    if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) return null;
+
+    let claims: SignedTokenClaims;
+    try {
+        claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    } catch {
+        return null;
+    }
+    if (typeof claims?.sub !== 'string' || typeof claims.ns !== 'string' || typeof claims.iat !== 'number'
+        || typeof claims.exp !== 'number' || !Array.isArray(claims.scp)) {
+        return null;
+    }
+    return claims.exp * 1000 > now ? claims : null;
+}
+
+function sign(data: string, key: string): string {
+    return createHmac('sha256', key).update(data).digest('base64url');
+}
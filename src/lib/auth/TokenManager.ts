@@ -1,11 +1,25 @@
-import { randomUUID, randomBytes } from 'node:crypto';
+import { createHash, randomUUID, randomBytes } from 'node:crypto';
 import { timingSafeEqual } from 'node:crypto';
+import { noopLogger, type Logger } from '../logging/Logger.js';
+import { decodeSignedToken, encodeSignedToken, SIGNED_TOKEN_PREFIX, type SignedTokenClaims } from './SignedTokens.js';
+import type { StoredClaimCode, StoredToken, TokenStore } from './TokenStore.js';
 
 export interface TokenConfig {
+    /** Signing key `default` unless `signingKeys` is set */
     secret: string;
     tokenExpiryHours?: number;
     codeExpiryMinutes?: number;
+    /** Not enforced for signed tokens */
     maxTokensPerAgent?: number;
+    /**
+     * Issue HMAC-signed tokens that every bridge sharing the keys accepts
+     * without stored state. Random tokens issued before keep working.
+     */
+    signedTokens?: boolean;
+    /** Keys by id, all accepted when verifying; add one and switch `signingKeyId` to rotate */
+    signingKeys?: Record<string, string>;
+    /** Key id new tokens are signed with (default: `default`) */
+    signingKeyId?: string;
 }
 
 export interface AgentToken {
@@ -15,6 +29,7 @@ export interface AgentToken {
     createdAt: Date;
     expiresAt: Date;
     isActive: boolean;
+    scopes?: string[];
 }
 
 export interface ClaimCode {
@@ -26,18 +41,48 @@ export interface ClaimCode {
     isUsed: boolean;
 }
 
+/**
+ * Issues and checks agent tokens and claim codes. Both are kept only as
+ * SHA-256 hashes, so the plain value is known once, when it is generated.
+ * Signed tokens are not kept at all; see `TokenConfig.signedTokens`.
+ */
 export class TokenManager {
-    private tokens = new Map<string, AgentToken>();
-    private claimCodes = new Map<string, ClaimCode>();
+    // Keyed by token and code hash
+    private tokens = new Map<string, StoredToken>();
+    private claimCodes = new Map<string, StoredClaimCode>();
     private config: TokenConfig;
+    private signingKeys: Record<string, string>;
 
-    constructor(config: TokenConfig) {
+    /**
+     * @param store Loaded here and saved after every change; without it tokens live in memory only
+     * @param logger Reports failed saves
+     */
+    constructor(config: TokenConfig, private store?: TokenStore, private logger: Logger = noopLogger) {
         this.config = {
             tokenExpiryHours: 24,
             codeExpiryMinutes: 30,
             maxTokensPerAgent: 5,
             ...config
         };
+
+        this.signingKeys = config.signingKeys ?? { default: config.secret };
+        if (config.signedTokens) {
+            const keyId = config.signingKeyId ?? 'default';
+            if (!this.signingKeys[keyId]) {
+                throw new Error(`Signing key ${keyId} is not configured`);
+            }
+            if (keyId.includes('.')) {
+                throw new Error(`Signing key id ${keyId} must not contain dots`);
+            }
+        }
+
+        if (store) {
+            const snapshot = store.load();
+            for (const token of snapshot.tokens) this.tokens.set(token.tokenHash, token);
+            for (const code of snapshot.claimCodes) this.claimCodes.set(code.codeHash, code);
+            this.cleanupExpiredTokens();
+            this.cleanupExpiredCodes();
+        }
     }
 
     /**
@@ -50,8 +95,8 @@ export class TokenManager {
         // Generate a secure, user-friendly code
         const code = this.generateSecureCode();
         
-        const claimCode: ClaimCode = {
-            code,
+        const claimCode: StoredClaimCode = {
+            codeHash: hashSecret(code),
             agentId,
             namespace,
             createdAt: new Date(),
@@ -59,7 +104,8 @@ export class TokenManager {
             isUsed: false
         };
 
-        this.claimCodes.set(code, claimCode);
+        this.claimCodes.set(claimCode.codeHash, claimCode);
+        this.persist();
         return code;
     }
 
@@ -67,7 +113,7 @@ export class TokenManager {
      * Redeem a claim code for a token
      */
     redeemClaimCode(code: string): AgentToken | null {
-        const claimCode = this.claimCodes.get(code);
+        const claimCode = this.claimCodes.get(hashSecret(code));
         
         if (!claimCode || claimCode.isUsed || claimCode.expiresAt < new Date()) {
             return null;
@@ -75,16 +121,34 @@ export class TokenManager {
 
         // Mark code as used
         claimCode.isUsed = true;
+        this.persist();
 
         // Generate token
         const token = this.generateToken(claimCode.agentId, claimCode.namespace);
         return token;
     }
 
+    /**
+     * Invalidate an unused claim code
+     */
+    revokeClaimCode(code: string): boolean {
+        const claimCode = this.claimCodes.get(hashSecret(code));
+        if (!claimCode || claimCode.isUsed) {
+            return false;
+        }
+        claimCode.isUsed = true;
+        this.persist();
+        return true;
+    }
+
     /**
      * Generate a new token for an agent
      */
-    generateToken(agentId: string, namespace: string): AgentToken {
+    generateToken(agentId: string, namespace: string, scopes: string[] = []): AgentToken {
+        if (this.config.signedTokens) {
+            return this.generateSignedToken(agentId, namespace, scopes);
+        }
+
         // Clean up expired tokens first
         this.cleanupExpiredTokens();
 
@@ -97,44 +161,53 @@ export class TokenManager {
             const oldestToken = agentTokens.sort((a, b) =>
                 a.createdAt.getTime() - b.createdAt.getTime())[0];
             if (oldestToken) {
-                this.tokens.delete(oldestToken.token);
+                this.tokens.delete(oldestToken.tokenHash);
             }
         }
 
         const expiryHours = this.config.tokenExpiryHours || 24; // Default to 24 hours
-        const token: AgentToken = {
-            token: this.generateSecureToken(),
+        const token = this.generateSecureToken();
+        const stored: StoredToken = {
+            tokenHash: hashSecret(token),
             agentId,
             namespace,
             createdAt: new Date(),
             expiresAt: new Date(Date.now() + expiryHours * 60 * 60 * 1000),
-            isActive: true
+            isActive: true,
+            scopes
         };
 
-        this.tokens.set(token.token, token);
-        return token;
+        this.tokens.set(stored.tokenHash, stored);
+        this.persist();
+        return toAgentToken(token, stored);
     }
 
     /**
      * Validate a token
      */
     validateToken(token: string): AgentToken | null {
-        const agentToken = this.tokens.get(token);
+        if (token.startsWith(SIGNED_TOKEN_PREFIX)) {
+            return this.validateSignedToken(token);
+        }
+
+        const agentToken = this.tokens.get(hashSecret(token));
         
         if (!agentToken || !agentToken.isActive || agentToken.expiresAt < new Date()) {
             return null;
         }
 
-        return agentToken;
+        return toAgentToken(token, agentToken);
     }
 
     /**
-     * Revoke a token
+     * Revoke a token. Signed tokens cannot be revoked one by one: remove
+     * their signing key, which ends every token it signed.
      */
     revokeToken(token: string): boolean {
-        const agentToken = this.tokens.get(token);
+        const agentToken = this.tokens.get(hashSecret(token));
         if (agentToken) {
             agentToken.isActive = false;
+            this.persist();
             return true;
         }
         return false;
@@ -151,13 +224,15 @@ export class TokenManager {
                 revoked++;
             }
         }
+        if (revoked > 0) this.persist();
         return revoked;
     }
 
     /**
-     * Get all active tokens for an agent
+     * Get the records of all active tokens for an agent. Only their hashes are
+     * known, so this replaces `getAgentTokens`, which returned plain tokens.
      */
-    getAgentTokens(agentId: string): AgentToken[] {
+    getAgentTokenRecords(agentId: string): StoredToken[] {
         return Array.from(this.tokens.values())
             .filter(t => t.agentId === agentId && t.isActive && t.expiresAt > new Date());
     }
@@ -185,6 +260,21 @@ export class TokenManager {
         };
     }
 
+    private generateSignedToken(agentId: string, namespace: string, scopes: string[]): AgentToken {
+        const keyId = this.config.signingKeyId ?? 'default';
+        const iat = Math.floor(Date.now() / 1000);
+        const exp = iat + Math.round((this.config.tokenExpiryHours || 24) * 60 * 60);
+        const claims: SignedTokenClaims = { sub: agentId, ns: namespace, iat, exp, scp: scopes };
+        return fromClaims(encodeSignedToken(claims, keyId, this.signingKeys[keyId]!), claims);
+    }
+
+    private validateSignedToken(token: string): AgentToken | null {
+        if (!this.config.signedTokens) return null;
+
+        const claims = decodeSignedToken(token, this.signingKeys);
+        return claims ? fromClaims(token, claims) : null;
+    }
+
     private generateSecureCode(): string {
         // Generate a 6-character alphanumeric code
         const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
@@ -213,6 +303,19 @@ export class TokenManager {
         }
     }
 
+    private persist() {
+        if (!this.store) return;
+        try {
+            this.store.save({
+                tokens: Array.from(this.tokens.values()),
+                claimCodes: Array.from(this.claimCodes.values())
+            });
+        } catch (error) {
+            // Keep serving from memory; the next change retries the save
+            this.logger.error('Failed to save tokens', { error });
+        }
+    }
+
     private cleanupExpiredCodes() {
         const now = new Date();
         for (const [code, claimCode] of this.claimCodes.entries()) {
@@ -235,4 +338,25 @@ export class TokenManager {
         
         return timingSafeEqual(bufferA, bufferB);
     }
+}
+
+function hashSecret(value: string): string {
+    return createHash('sha256').update(value).digest('hex');
+}
+
+function toAgentToken(token: string, stored: StoredToken): AgentToken {
+    const { tokenHash: _hash, ...fields } = stored;
+    return { token, ...fields };
+}
+
+function fromClaims(token: string, claims: SignedTokenClaims): AgentToken {
+    return {
+        token,
+        agentId: claims.sub,
+        namespace: claims.ns,
+        createdAt: new Date(claims.iat * 1000),
+        expiresAt: new Date(claims.exp * 1000),
+        isActive: true,
+        scopes: claims.scp
+    };
 }
\ No newline at end of file
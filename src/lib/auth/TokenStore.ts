@@ -0,0 +1,77 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+
+/**
+ * A token as persisted: the SHA-256 of the token instead of the token itself.
+ */
+export interface StoredToken {
+    tokenHash: string;
+    agentId: string;
+    namespace: string;
+    createdAt: Date;
+    expiresAt: Date;
+    isActive: boolean;
+    scopes?: string[];
+}
+
+/**
+ * A claim code as persisted, hashed like tokens.
+ */
+export interface StoredClaimCode {
+    codeHash: string;
+    agentId: string;
+    namespace: string;
+    createdAt: Date;
+    expiresAt: Date;
+    isUsed: boolean;
+}
+
+export interface TokenStoreSnapshot {
+    tokens: StoredToken[];
+    claimCodes: StoredClaimCode[];
+}
+
+/**
+ * Storage behind `TokenManager`. It loads once on construction and saves the
+ * whole state after every change, so both calls are synchronous.
+ */
+export interface TokenStore {
+    load(): TokenStoreSnapshot;
+    save(snapshot: TokenStoreSnapshot): void;
+}
+
+const FILE_VERSION = 1;
+
+/**
+ * Keeps tokens in a JSON file. Saves write a temporary file next to it and
+ * rename it over the old one, so a crash never leaves a partial file.
+ */
+export class FileTokenStore implements TokenStore {
+    constructor(private path: string) {}
+
+    load(): TokenStoreSnapshot {
+        if (!existsSync(this.path)) return { tokens: [], claimCodes: [] };
+
+        let data: { version?: number; tokens?: StoredToken[]; claimCodes?: StoredClaimCode[] };
+        try {
+            data = JSON.parse(readFileSync(this.path, 'utf8'));
+        } catch (error) {
+            throw new Error(`Token store ${this.path} is not valid JSON: ${(error as Error).message}`);
+        }
+        if (data.version !== FILE_VERSION) {
+            throw new Error(`Token store ${this.path} has unsupported version ${data.version}`);
+        }
+
+        return {
+            tokens: (data.tokens ?? []).map((t) => ({ ...t, createdAt: new Date(t.createdAt), expiresAt: new Date(t.expiresAt) })),
+            claimCodes: (data.claimCodes ?? []).map((c) => ({ ...c, createdAt: new Date(c.createdAt), expiresAt: new Date(c.expiresAt) })),
+        };
+    }
+
+    save(snapshot: TokenStoreSnapshot) {
+        const tmp = `${this.path}.tmp`;
+        mkdirSync(dirname(this.path), { recursive: true });
+        writeFileSync(tmp, JSON.stringify({ version: FILE_VERSION, ...snapshot }, null, 2), { mode: 0o600 });
+        renameSync(tmp, this.path);
+    }
+}
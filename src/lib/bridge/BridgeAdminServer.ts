@@ -0,0 +1,189 @@
+import type { Server } from 'bun';
+import type { AdminApiConfig } from '../../config/config.js';
+import { TokenManager } from '../auth/TokenManager.js';
+import { noopLogger, type Logger } from '../logging/Logger.js';
+import type { BridgeServerEnhanced } from './BridgeServerEnhanced.js';
+
+/** Error answered with a JSON `{ error }` body and the given status */
+class HttpError extends Error {
+    constructor(readonly status: number, message: string) {
+        super(message);
+    }
+}
+
+/** Shortest admin token accepted, so a placeholder cannot guard the API */
+const MIN_TOKEN_LENGTH = 16;
+
+type Handler = (params: string[], request: Request) => Response | Promise<Response>;
+
+/**
+ * HTTP API for managing a running bridge from scripts. Requests and responses
+ * are JSON; every request needs `Authorization: Bearer <token>`.
+ *
+ * - `GET /agents`, `GET /agents/:agentId`, `DELETE /agents/:agentId` (kick)
+ * - `DELETE /agents/:agentId/tokens` revokes every token of the agent
+ * - `GET /players[?agent=<agentId>]`, `DELETE /players/:connId` (kick)
+ * - `POST /tokens` and `POST /claim-codes` with `{ agentId, namespace }`, tokens also with `scopes`
+ * - `DELETE /tokens/:token`, `DELETE /claim-codes/:code`
+ * - `GET /stats`
+ *
+ * Signed tokens cannot be revoked, so their revocation routes answer 409.
+ */
+export class BridgeAdminServer {
+    private server: Server<undefined> | null = null;
+    private routes: Array<{ method: string; pattern: RegExp; handler: Handler }> = [];
+
+    constructor(
+        private config: AdminApiConfig,
+        private bridge: BridgeServerEnhanced,
+        private logger: Logger = noopLogger,
+    ) {
+        if (typeof config.token !== 'string' || config.token.trim().length < MIN_TOKEN_LENGTH) {
+            throw new Error(`admin.token must be at least ${MIN_TOKEN_LENGTH} characters`);
+        }
+
+        this.route('GET', /^\/agents$/, () => json({ agents: this.bridge.getAgents() }));
+        this.route('GET', /^\/agents\/([^/]+)$/, ([agentId]) => {
+            const agent = this.bridge.getAgents().find((a) => a.agentId === agentId);
+            if (!agent) throw new HttpError(404, `Agent ${agentId} is not connected`);
+            return json({ agent, players: this.bridge.getPlayers(agentId) });
+        });
+        this.route('DELETE', /^\/agents\/([^/]+)$/, ([agentId]) => {
+            if (!this.bridge.kickAgent(agentId!)) throw new HttpError(404, `Agent ${agentId} is not connected`);
+            return new Response(null, { status: 204 });
+        });
+        this.route('DELETE', /^\/agents\/([^/]+)\/tokens$/, ([agentId]) => {
+            this.requireRevocableTokens();
+            return json({ revoked: this.bridge.revokeAgentTokens(agentId!) });
+        });
+
+        this.route('GET', /^\/players$/, (_params, request) => {
+            const agentId = new URL(request.url).searchParams.get('agent') ?? undefined;
+            return json({ players: this.bridge.getPlayers(agentId) });
+        });
+        this.route('DELETE', /^\/players\/([^/]+)$/, ([connId]) => {
+            if (!this.bridge.kickPlayer(connId!)) throw new HttpError(404, `Player connection ${connId} not found`);
+            return new Response(null, { status: 204 });
+        });
+
+        this.route('POST', /^\/tokens$/, async (_params, request) => {
+            this.requireAuth();
+            const { agentId, namespace, scopes } = await readAgentBody(request);
+            const token = this.bridge.issueToken(agentId, namespace, scopes);
+            this.logger.info(`Issued token for ${agentId}.${namespace}`, { agentId });
+            return json(token, 201);
+        });
+        this.route('DELETE', /^\/tokens\/([^/]+)$/, ([token]) => {
+            this.requireRevocableTokens();
+            if (!this.bridge.revokeToken(token!)) throw new HttpError(404, 'Token not found');
+            return new Response(null, { status: 204 });
+        });
+
+        this.route('POST', /^\/claim-codes$/, async (_params, request) => {
+            // Without auth the bridge hands out codes no agent can redeem
+            this.requireAuth();
+            const { agentId, namespace } = await readAgentBody(request);
+            const code = this.bridge.generateClaimCode(agentId, namespace);
+            this.logger.info(`Issued claim code for ${agentId}.${namespace}`, { agentId });
+            return json({ code, agentId, namespace }, 201);
+        });
+        this.route('DELETE', /^\/claim-codes\/([^/]+)$/, ([code]) => {
+            this.requireAuth();
+            if (!this.bridge.revokeClaimCode(code!)) throw new HttpError(404, 'Claim code not found or already used');
+            return new Response(null, { status: 204 });
+        });
+
+        this.route('GET', /^\/stats$/, () => json(this.bridge.getStats()));
+    }
+
+    /** Port the listener is bound to, useful when `port` is 0 */
+    get port(): number | undefined {
+        return this.server?.port;
+    }
+
+    start() {
+        if (this.server) return;
+        this.server = Bun.serve({
+            hostname: this.config.host ?? '127.0.0.1',
+            port: this.config.port,
+            fetch: (request) => this.handle(request),
+        });
+        this.logger.info(`Admin API listening on ${this.config.host ?? '127.0.0.1'}:${this.server.port}`);
+    }
+
+    stop() {
+        this.server?.stop(true);
+        this.server = null;
+    }
+
+    /**
+     * Rejects token and claim code requests while the bridge authenticates with the shared secret.
+     */
+    private requireAuth() {
+        if (!this.bridge.getTokenStats().enabled) throw new HttpError(409, 'Token authentication is disabled');
+    }
+
+    /**
+     * Rejects token revocation while the bridge issues signed tokens, which stay valid until their key is removed.
+     */
+    private requireRevocableTokens() {
+        this.requireAuth();
+        if (this.bridge.getTokenStats().signedTokens) {
+            throw new HttpError(409, 'Signed tokens cannot be revoked; remove their signing key instead');
+        }
+    }
+
+    private route(method: string, pattern: RegExp, handler: Handler) {
+        this.routes.push({ method, pattern, handler });
+    }
+
+    private async handle(request: Request): Promise<Response> {
+        const auth = request.headers.get('authorization') ?? '';
+        if (!auth.startsWith('Bearer ') || !TokenManager.secureCompare(auth.slice(7), this.config.token)) {
+            return json({ error: 'Unauthorized' }, 401, { 'WWW-Authenticate': 'Bearer' });
+        }
+
+        const path = new URL(request.url).pathname;
+        const matches = this.routes.filter((r) => r.pattern.test(path));
+        if (matches.length === 0) return json({ error: 'Not Found' }, 404);
+
+        const route = matches.find((r) => r.method === request.method);
+        if (!route) {
+            return json({ error: 'Method Not Allowed' }, 405, { Allow: matches.map((r) => r.method).join(', ') });
+        }
+
+        try {
+            const params = route.pattern.exec(path)!.slice(1).map(decodeURIComponent);
+            return await route.handler(params, request);
+        } catch (error) {
+            if (error instanceof HttpError) return json({ error: error.message }, error.status);
+            this.logger.error(`${request.method} ${path} failed`, { error });
+            return json({ error: 'Internal Server Error' }, 500);
+        }
+    }
+}
+
+function json(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+    return Response.json(body, { status, headers });
+}
+
+async function readAgentBody(request: Request): Promise<{ agentId: string; namespace: string; scopes?: string[] }> {
+    let body: unknown;
+    try {
+        body = await request.json();
+    } catch {
+        throw new HttpError(400, 'Body must be JSON');
+    }
+
+    const { agentId, namespace, scopes } = (body ?? {}) as Record<string, unknown>;
+    if (typeof agentId !== 'string' || !/^[A-Za-z0-9-]+$/.test(agentId)) {
+        throw new HttpError(400, 'agentId must be letters, digits or dashes');
+    }
+    if (typeof namespace !== 'string' || !/^[A-Za-z0-9-]+$/.test(namespace)) {
+        throw new HttpError(400, 'namespace must be letters, digits or dashes');
+    }
+    if (scopes !== undefined && (!Array.isArray(scopes) || !scopes.every((s) => typeof s === 'string' && s.length > 0))) {
+        throw new HttpError(400, 'scopes must be an array of non-empty strings');
+    }
+    return { agentId, namespace, scopes };
+}
@@ -1,14 +1,25 @@
 
 import type { Socket,TCPSocketListener } from 'bun';
 import { randomUUID, timingSafeEqual } from 'node:crypto';
-import { parseHandshake } from '../../core/handshake.js';
+import { decodeHandshake, type Handshake } from '../../core/handshake.js';
+import { ChunkBuffer } from '../../core/ChunkBuffer.js';
+import { LEGACY_PING_ID } from '../../core/legacy-ping.js';
+import { isProxyHeaderPrefix, parseProxyHeader, PROXY_V2_SIGNATURE, type ProxyAddresses, type ProxyHeader } from '../../core/proxy-protocol.js';
+import { ipMatchesAny } from '../../utils/cidr.js';
+import type { DecodeResult } from '../../core/packet.js';
 import { globalMetrics } from '../metrics/MetricsRegistry.js';
+import type { LoggingConfig } from '../../config/config.js';
+import { createLogger, type Logger } from '../logging/Logger.js';
 
 export interface BridgeConfig {
     port: number;
     secret: string;
     debug?: boolean;
     domain?: string; // Base domain for subdomain routing, e.g., "bridge.example.com"
+    /** Load balancers whose PROXY headers name the real player address */
+    trustedProxies?: string[];
+    /** Log level, format and sinks; `debug` only picks the default level */
+    logging?: LoggingConfig;
 }
 
 export const defaultBridgeConfig: BridgeConfig = {
@@ -24,11 +35,12 @@ interface SocketData {
     type: SocketType;
     authenticated?: boolean;
     target?: Socket<SocketData>;
-    buffer: Uint8Array[]; // Buffer for accumulating chunks
+    buffer: ChunkBuffer; // Data received before the socket is identified or its tunnel is ready
     connId?: string; // Track connId for cleanup
     handshakeTimeout?: Timer;
     pendingTimeout?: Timer;
     agentId?: string; // The ID/Subdomain of the agent this socket belongs to
+    proxyAddresses?: ProxyAddresses; // Set when a trusted load balancer sent a PROXY header
 }
 
 const MAX_BUFFER_SIZE = 4096;
@@ -53,19 +65,25 @@ export class BridgeServer {
     private pendingPlayers = new Map<string, Socket<SocketData>>();
     private ipStates = new Map<string, IpState>();
     private server: TCPSocketListener<SocketData> | null = null;
-    constructor(config: BridgeConfig) {
+    private logger: Logger;
+
+    /**
+     * @param logger Replaces the logger built from `config.logging`
+     */
+    constructor(config: BridgeConfig, logger?: Logger) {
         this.config = config;
+        this.logger = (logger ?? createLogger(config.logging, config.debug)).child({ component: 'Bridge' });
         this.initMetrics();
     }
 
     private initMetrics() {
         globalMetrics.registerCounter('bridge_connections_total', 'Total connections accepted');
-        globalMetrics.registerCounter('bridge_agents_connected', 'Current connected agents');
-        globalMetrics.registerCounter('bridge_players_connected', 'Current connected players');
+        globalMetrics.registerGauge('bridge_agents_connected', 'Current connected agents');
+        globalMetrics.registerGauge('bridge_players_connected', 'Current connected players');
     }
 
     start() {
-        this.log(`Starting Bridge on port ${this.config.port} (MULTI-TENANT MODE)...`);
+        this.logger.info(`Starting Bridge on port ${this.config.port} (MULTI-TENANT MODE)...`);
 
         // Clean up IP states periodically
         setInterval(() => this.cleanupIpStates(), 60_000);
@@ -80,17 +98,17 @@ export class BridgeServer {
                     
                     // 1. Check Rate Limits
                     if (!this.checkConnectionRateLimit(remoteIp)) {
-                        this.log(`Rate limit exceeded for ${remoteIp}. Dropping connection.`);
+                        this.logger.debug('Rate limit exceeded, dropping connection', { remote: remoteIp });
                         socket.end();
                         return;
                     }
 
                     const timeout = setTimeout(() => {
-                        this.log(`Connection timed out awaiting protocol identification: ${socket.remoteAddress}`);
+                        this.logger.debug(`Connection timed out awaiting protocol identification: ${socket.remoteAddress}`);
                         socket.end();
                     }, HANDSHAKE_TIMEOUT_MS);
 
-                    socket.data = { type: 'UNKNOWN', buffer: [], handshakeTimeout: timeout };
+                    socket.data = { type: 'UNKNOWN', buffer: new ChunkBuffer(), handshakeTimeout: timeout };
                 },
                 data: (socket, data) => {
                     const state = socket.data;
@@ -104,7 +122,7 @@ export class BridgeServer {
                         if (state.target) {
                             state.target.write(data);
                         } else {
-                            state.buffer.push(Buffer.from(data));
+                            state.buffer.push(data);
                         }
                         return;
                     }
@@ -115,70 +133,68 @@ export class BridgeServer {
                     }
 
                     if (state.type === 'UNKNOWN') {
-                        const currentSize = state.buffer.reduce((acc, chunk) => acc + chunk.length, 0);
-                        if (currentSize + data.length > MAX_BUFFER_SIZE) {
-                            this.log(`Connection exceeded buffer limit during handshake: ${socket.remoteAddress}`);
+                        if (state.buffer.length + data.length > MAX_BUFFER_SIZE) {
+                            this.logger.debug(`Connection exceeded buffer limit during handshake: ${socket.remoteAddress}`);
                             socket.end();
                             return;
                         }
 
-                        state.buffer.push(Buffer.from(data));
-                        const combined = Buffer.concat(state.buffer);
-
-                        let dataOffset = 0;
-                        const proxyLen = this.getProxyHeaderLength(combined);
+                        state.buffer.push(data);
 
-                        if (proxyLen === 0) return; // Incomplete PROXY header
-                        if (proxyLen > 0) {
-                            dataOffset = proxyLen;
-                        }
+                        const proxyLen = this.readProxyHeader(socket);
+                        if (proxyLen === 0) return; // Incomplete or malformed PROXY header
+                        const dataOffset = Math.max(proxyLen, 0);
 
-                        const effectiveBuffer = combined.subarray(dataOffset);
+                        const head = Buffer.from(state.buffer.peek(Math.min(state.buffer.length, dataOffset + 5)).subarray(dataOffset));
 
-                        if (effectiveBuffer.length < 6) {
+                        if (head.length < 5) {
                             // Check for HAProxy V2 signature start or text commands
-                            const partial = effectiveBuffer.toString('utf8');
+                            const partial = head.toString('utf8');
                             if ("DATA ".startsWith(partial) || "AUTH ".startsWith(partial)) {
                                 return; 
                             }
                             // HAProxy V2 signature check
                             const v2Sig = Buffer.from([0x0D, 0x0A, 0x0D, 0x0A, 0x00, 0x0D, 0x0A, 0x51, 0x55, 0x49, 0x54, 0x0A]);
-                            if (effectiveBuffer.length > 0 && v2Sig.subarray(0, effectiveBuffer.length).equals(effectiveBuffer)) {
+                            if (v2Sig.subarray(0, head.length).equals(head)) {
                                 return;
                             }
-                            
-                            // If we have enough data to try parsing handshake, proceed. 
-                            // Minecraft Packet Length + ID 0x00. VarInt(Len) + VarInt(ID) = at least 2 bytes.
-                            if (effectiveBuffer.length > 2) {
-                                this.convertToPlayer(socket, effectiveBuffer);
+                        } else {
+                            const prefix = head.toString('utf8');
+
+                            if (prefix === 'DATA ' || prefix === 'AUTH ') {
+                                const newlineIndex = state.buffer.indexOf(10, dataOffset);
+                                if (newlineIndex === -1) {
+                                    return;
+                                }
+
+                                const effectiveBuffer = Buffer.from(state.buffer.read().subarray(dataOffset));
+                                const commandLine = effectiveBuffer.subarray(0, newlineIndex - dataOffset).toString('utf8').trim();
+                                const payload = effectiveBuffer.subarray(newlineIndex - dataOffset + 1);
+
+                                this.clearHandshakeTimeout(socket);
+
+                                if (commandLine.startsWith('AUTH ')) {
+                                    state.type = 'AGENT_CONTROL';
+                                    this.processAuth(socket, commandLine);
+                                } else if (commandLine.startsWith('DATA ')) {
+                                    this.processDataHandshake(socket, commandLine, payload);
+                                }
                                 return;
                             }
-                            return; // Wait for more data
                         }
 
-                        const prefix = effectiveBuffer.subarray(0, 5).toString('utf8');
-
-                        if (prefix === 'DATA ' || prefix === 'AUTH ') {
-                            const newlineIndex = effectiveBuffer.indexOf(10);
-                            if (newlineIndex === -1) {
-                                return;
-                            }
-
-                            const commandLine = effectiveBuffer.subarray(0, newlineIndex).toString('utf8').trim();
-                            const payload = effectiveBuffer.subarray(newlineIndex + 1).slice();
-
-                            state.buffer = [];
-                            this.clearHandshakeTimeout(socket);
-
-                            if (commandLine.startsWith('AUTH ')) {
-                                state.type = 'AGENT_CONTROL';
-                                this.processAuth(socket, commandLine);
-                            } else if (commandLine.startsWith('DATA ')) {
-                                this.processDataHandshake(socket, commandLine, payload);
-                            }
-                        } else {
-                            this.convertToPlayer(socket, effectiveBuffer);
+                        // A legacy ping would read as a 254+ byte handshake that never completes
+                        if (state.buffer.byteAt(dataOffset) === LEGACY_PING_ID) {
+                            state.buffer.skip(dataOffset);
+                            this.convertToPlayer(socket, { status: 'invalid', reason: 'Legacy server list ping' });
+                            return;
                         }
+
+                        // Anything else should be a Minecraft handshake; wait until it is complete
+                        const handshake = decodeHandshake(state.buffer, dataOffset);
+                        if (handshake.status === 'incomplete') return;
+                        state.buffer.skip(dataOffset); // The PROXY header is not forwarded to the agent
+                        this.convertToPlayer(socket, handshake);
                     }
                 },
                 close: (socket) => {
@@ -186,20 +202,20 @@ export class BridgeServer {
                     const state = socket.data;
                     if (state.type === 'AGENT_CONTROL') {
                         if (state.agentId) {
-                            this.log(`Agent ${state.agentId} disconnected`);
+                            this.logger.info(`Agent ${state.agentId} disconnected`, { agentId: state.agentId });
                             this.agents.delete(state.agentId);
-                            globalMetrics.increment('bridge_agents_connected', { agent: state.agentId }, -1);
+                            globalMetrics.decrement('bridge_agents_connected');
                         }
                     }
                     if (state.connId && this.pendingPlayers.has(state.connId)) {
-                        this.log(`Player ${state.connId} disconnected before tunnel established`);
+                        this.logger.debug(`Player ${state.connId} disconnected before tunnel established`);
                         this.pendingPlayers.delete(state.connId);
                     }
                     if (state.target) {
                         state.target.end();
                     }
                     if (state.type === 'PLAYER') {
-                        globalMetrics.increment('bridge_players_connected', {}, -1);
+                        globalMetrics.decrement('bridge_players_connected');
                     }
                 },
                 error: (socket) => {
@@ -252,14 +268,13 @@ export class BridgeServer {
         }
     }
 
-    private convertToPlayer(socket: Socket<SocketData>, initialData: Buffer) {
+    private convertToPlayer(socket: Socket<SocketData>, result: Exclude<DecodeResult<Handshake>, { status: 'incomplete' }>) {
         this.clearHandshakeTimeout(socket);
         // Try to parse handshake to find target agent
         let targetAgentId: string | null = null;
         
-        try {
-            const { handshake } = parseHandshake(initialData);
-            const host = handshake.serverAddress;
+        if (result.status === 'packet') {
+            const host = result.packet.serverAddress;
             // logic to extract subdomain:
             // e.g. "agent1.bridge.com" -> "agent1"
             if (this.config.domain) {
@@ -277,28 +292,26 @@ export class BridgeServer {
                 // For safety, let requires explicit domain config for routing or use Map defaults
                 targetAgentId = host.split('.')[0] || null; 
             }
-        } catch (e) {
-            // Handshake parse failed. This might happen if the packet is small or strange.
-            // In Single-Tenant mode, this is OKAY! We just want to route traffic.
-            this.log(`Handshake parse incomplete. Proceeding to fallback checks...`);
-            console.log("BridgeServer",e);
+        } else {
+            // Not a Minecraft handshake. In Single-Tenant mode, this is OKAY! We just want to route traffic.
+            this.logger.debug(`Handshake parse failed (${result.reason}). Proceeding to fallback checks...`);
         }
 
         if (!targetAgentId) {
-             this.log(`Could not determine target agent for ${socket.remoteAddress}. Host sniffing failed (Host: ${this.server?.hostname || 'unknown'}).`);
+             this.logger.debug(`Could not determine target agent for ${socket.remoteAddress}. Host sniffing failed (Host: ${this.server?.hostname || 'unknown'}).`);
              
              // Smart Fallback: If only one agent is connected, route to it!
              // This is crucial for Railway/TCP Proxy setups where wildcards aren't supported.
              if (this.agents.size === 1) {
                  const firstAgentId = this.agents.keys().next().value;
-                 this.log(`Single-Tenant Mode: Defaulting traffic to agent '${firstAgentId}'`);
+                 this.logger.debug(`Single-Tenant Mode: Defaulting traffic to agent '${firstAgentId}'`);
                  targetAgentId = firstAgentId || null;
              }
              // Fallback to explicit 'default' agent if present
              else if (this.agents.has('default')) {
                  targetAgentId = 'default';
              } else {
-                 this.log('No unique target agent found. (Agents connected: ' + this.agents.size + '). Dropping.');
+                 this.logger.debug('No unique target agent found. (Agents connected: ' + this.agents.size + '). Dropping.');
                  socket.end();
                  return;
              }
@@ -307,21 +320,20 @@ export class BridgeServer {
         const agentSocket = this.agents.get(targetAgentId!);
 
         if (!agentSocket) {
-            this.log(`Agent '${targetAgentId}' not connected. Dropping player.`);
+            this.logger.debug(`Agent '${targetAgentId}' not connected. Dropping player.`);
             socket.end();
             return;
         }
 
-        this.log(`Detected: MINECRAFT PLAYER (${socket.remoteAddress}) -> Route to Agent: ${targetAgentId}`);
+        this.logger.debug(`Detected: MINECRAFT PLAYER (${socket.remoteAddress}) -> Route to Agent: ${targetAgentId}`);
         
         if (this.pendingPlayers.size > 1000) {
-             this.log('Too many pending players. Dropping.');
+             this.logger.warn('Too many pending players. Dropping.');
              socket.end();
              return;
         }
 
         socket.data.type = 'PLAYER';
-        socket.data.buffer = [initialData];
         globalMetrics.increment('bridge_players_connected');
 
         const connId = randomUUID();
@@ -330,14 +342,16 @@ export class BridgeServer {
         // Set pending timeout
         socket.data.pendingTimeout = setTimeout(() => {
             if (this.pendingPlayers.has(connId)) {
-                this.log(`Pending connection ${connId} timed out waiting for agent.`);
+                this.logger.debug(`Pending connection ${connId} timed out waiting for agent.`);
                 this.pendingPlayers.delete(connId);
                 socket.end();
             }
         }, 10000); // 10s timeout
 
         this.pendingPlayers.set(connId, socket);
-        agentSocket.write(`CONNECT ${connId}\n`);
+        // Player and bridge addresses let the agent send a PROXY header to its server
+        const { sourceAddress, sourcePort, destinationAddress, destinationPort } = this.playerAddresses(socket);
+        agentSocket.write(`CONNECT ${connId} ${sourceAddress} ${sourcePort} ${destinationAddress} ${destinationPort}\n`);
     }
 
     private processAuth(socket: Socket<SocketData>, commandLine: string) {
@@ -376,7 +390,7 @@ export class BridgeServer {
 
         if (valid) {
             if (this.agents.has(requestedSubdomain)) {
-                 this.log(`Agent attempted to claim already active subdomain '${requestedSubdomain}'. Rejecting.`);
+                 this.logger.warn(`Agent attempted to claim already active subdomain '${requestedSubdomain}'. Rejecting.`, { remote: socket.remoteAddress });
                  socket.write('AUTH_FAIL_IN_USE\n');
                  socket.end();
                  return;
@@ -388,13 +402,13 @@ export class BridgeServer {
             socket.data.agentId = requestedSubdomain;
             this.agents.set(requestedSubdomain, socket);
             
-            this.log(`Agent authenticated successfully as '${requestedSubdomain}'`);
+            this.logger.info(`Agent authenticated successfully as '${requestedSubdomain}'`, { agentId: requestedSubdomain, remote: socket.remoteAddress });
             globalMetrics.increment('bridge_agents_connected');
             socket.write(`AUTH_OK ${requestedSubdomain}.bridge\n`); // return the assigned domain?
         } else {
             state.authFailures++;
             if (state.authFailures >= MAX_AUTH_ATTEMPTS) {
-                this.log(`Blocking IP ${remoteIp} due to multiple auth failures`);
+                this.logger.warn('Blocking IP due to multiple auth failures', { remote: remoteIp });
                 state.lockoutUntil = Date.now() + AUTH_LOCKOUT_MS;
             }
             
@@ -411,7 +425,7 @@ export class BridgeServer {
         }
         // logic for finding which player? 
         // connection ID is UUID, unique enough.
-        this.log(`Detected: AGENT DATA channel for ${connId}`);
+        this.logger.debug(`Detected: AGENT DATA channel for ${connId}`);
         socket.data.type = 'AGENT_DATA';
 
         if (this.pendingPlayers.has(connId)) {
@@ -429,22 +443,19 @@ export class BridgeServer {
             playerSocket.data.type = 'PLAYER';
 
             if (payload.length > 0) {
-                this.log(`Forwarding ${payload.length} bytes of coalesced data to player`);
+                this.logger.debug(`Forwarding ${payload.length} bytes of coalesced data to player`);
                 playerSocket.write(payload);
             }
 
             const playerBuffer = playerSocket.data.buffer;
             if (playerBuffer.length > 0) {
-                this.log(`Flushing ${playerBuffer.length} buffered packets for ${connId}`);
-                for (const chunk of playerBuffer) {
-                    socket.write(chunk);
-                }
-                playerSocket.data.buffer = [];
+                this.logger.debug(`Flushing ${playerBuffer.length} buffered bytes for ${connId}`);
+                socket.write(playerBuffer.read());
             }
 
-            this.log(`Tunnel established for ${connId}`);
+            this.logger.debug(`Tunnel established for ${connId}`);
         } else {
-            this.log(`Invalid connId or player gone: ${connId}`);
+            this.logger.debug(`Invalid connId or player gone: ${connId}`);
             socket.end();
         }
     }
@@ -453,25 +464,40 @@ export class BridgeServer {
         // Only for subsequent control messages if any
     }
 
-    private log(msg: string) {
-        if (this.config.debug) console.log(`[Bridge] ${msg}`);
-    }
+    /**
+     * Length of the PROXY header the connection starts with, 0 while it is
+     * incomplete or after a malformed one closed the socket, -1 without one.
+     * The client address it names is only kept from `trustedProxies`.
+     */
+    private readProxyHeader(socket: Socket<SocketData>): number {
+        const buffer = socket.data.buffer;
+        if (!isProxyHeaderPrefix(buffer.peek(Math.min(buffer.length, PROXY_V2_SIGNATURE.length)))) return -1;
 
-    private getProxyHeaderLength(buffer: Buffer): number {
-        if (buffer.length >= 6 && buffer.subarray(0, 6).toString('utf8') === 'PROXY ') {
-            const newline = buffer.indexOf(10);
-            if (newline !== -1) return newline + 1;
+        let header: ProxyHeader | null;
+        try {
+            header = parseProxyHeader(buffer.peek());
+        } catch (error) {
+            this.logger.debug('Malformed PROXY header', { remote: socket.remoteAddress, error });
+            socket.end();
             return 0;
         }
+        if (!header) return 0;
 
-        const v2Sig = Buffer.from([0x0D, 0x0A, 0x0D, 0x0A, 0x00, 0x0D, 0x0A, 0x51, 0x55, 0x49, 0x54, 0x0A]);
-        if (buffer.length >= 12 && buffer.subarray(0, 12).equals(v2Sig)) {
-            if (buffer.length < 16) return 0;
-            const len = buffer.readUInt16BE(14);
-            if (buffer.length < 16 + len) return 0;
-            return 16 + len;
+        if (header.addresses && ipMatchesAny(socket.remoteAddress, this.config.trustedProxies ?? [])) {
+            socket.data.proxyAddresses = header.addresses;
         }
+        return header.bytesRead;
+    }
 
-        return -1;
+    /**
+     * Player and bridge addresses, from a trusted PROXY header when there was one.
+     */
+    private playerAddresses(socket: Socket<SocketData>): ProxyAddresses {
+        return socket.data.proxyAddresses ?? {
+            sourceAddress: socket.remoteAddress,
+            sourcePort: socket.remotePort,
+            destinationAddress: socket.localAddress,
+            destinationPort: socket.localPort,
+        };
     }
 }
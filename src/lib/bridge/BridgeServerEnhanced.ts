@@ -1,8 +1,19 @@
 import type { Socket } from 'bun';
 import { randomUUID, timingSafeEqual } from 'node:crypto';
-import { parseHandshake } from '../../core/handshake.js';
-import { globalMetrics } from '../metrics/MetricsRegistry.js';
-import { TokenManager, type TokenConfig } from '../auth/TokenManager.js';
+import { decodeHandshake, type Handshake } from '../../core/handshake.js';
+import { ChunkBuffer } from '../../core/ChunkBuffer.js';
+import { LEGACY_PING_ID } from '../../core/legacy-ping.js';
+import { isProxyHeaderPrefix, parseProxyHeader, PROXY_V2_SIGNATURE, type ProxyAddresses, type ProxyHeader } from '../../core/proxy-protocol.js';
+import { ipMatchesAny } from '../../utils/cidr.js';
+import type { DecodeResult } from '../../core/packet.js';
+import { globalMetrics, SESSION_BUCKETS } from '../metrics/MetricsRegistry.js';
+import { TokenManager, type AgentToken, type TokenConfig } from '../auth/TokenManager.js';
+import { FileTokenStore } from '../auth/TokenStore.js';
+import { TypedEventEmitter } from '../events/TypedEventEmitter.js';
+import { MetricsServer } from '../metrics/MetricsServer.js';
+import type { AdminApiConfig, LoggingConfig, MetricsEndpointConfig } from '../../config/config.js';
+import { createLogger, type Logger, type StructuredLogger } from '../logging/Logger.js';
+import { BridgeAdminServer } from './BridgeAdminServer.js';
 
 export interface BridgeConfigEnhanced extends BridgeConfig {
     auth?: {
@@ -11,7 +22,23 @@ export interface BridgeConfigEnhanced extends BridgeConfig {
         tokenExpiryHours?: number;
         codeExpiryMinutes?: number;
         maxTokensPerAgent?: number;
+        /** JSON file keeping tokens and claim codes across restarts */
+        storePath?: string;
+        /** Issue signed tokens that bridges sharing the signing keys all accept */
+        signedTokens?: boolean;
+        /** Signing keys by id, replacing `secret` as key `default` */
+        signingKeys?: Record<string, string>;
+        /** Key id new tokens are signed with (default: `default`) */
+        signingKeyId?: string;
     };
+    /** Plugin module paths, loaded by the bridge binary */
+    plugins?: string[];
+    /** Serves `globalMetrics` over HTTP when set */
+    metrics?: MetricsEndpointConfig;
+    /** Histogram bucket bounds in seconds, by metric name, replacing the defaults */
+    metricBuckets?: Record<string, number[]>;
+    /** Serves the admin API over HTTP when set */
+    admin?: AdminApiConfig;
 }
 
 export interface BridgeConfig {
@@ -19,6 +46,14 @@ export interface BridgeConfig {
     secret: string;
     debug?: boolean;
     domain?: string;
+    /**
+     * Addresses or CIDR ranges of load balancers in front of the bridge. The
+     * player address in their PROXY headers is passed on to agents; headers from
+     * other sources are stripped and their addresses ignored.
+     */
+    trustedProxies?: string[];
+    /** Log level, format and sinks; `debug` only picks the default level */
+    logging?: LoggingConfig;
 }
 
 export const defaultBridgeConfig: BridgeConfig = {
@@ -28,21 +63,87 @@ export const defaultBridgeConfig: BridgeConfig = {
     domain: 'localhost'
 };
 
+/**
+ * A player the bridge routed to an agent.
+ */
+export interface BridgePlayer {
+    connId: string;
+    agentId: string;
+    remoteAddress: string;
+    /** Missing when the connection did not start with a Minecraft handshake */
+    serverAddress?: string;
+}
+
+/**
+ * An authenticated agent, as listed by `getAgents`.
+ */
+export interface BridgeAgentInfo {
+    agentId: string;
+    /** Set when the agent authenticated with a token */
+    namespace?: string;
+    remoteAddress: string;
+    connectedAt: Date;
+    /** Players routed to the agent, including those waiting for its data channel */
+    players: number;
+}
+
+/**
+ * A routed player, as listed by `getPlayers`.
+ */
+export interface BridgePlayerInfo extends BridgePlayer {
+    connectedAt: Date;
+    /** Whether the agent's data channel arrived and bytes are flowing */
+    tunnelled: boolean;
+    /** Bytes received from the player */
+    bytesIn: number;
+    /** Bytes sent to the player */
+    bytesOut: number;
+}
+
+/**
+ * Events emitted by `BridgeServerEnhanced`, keyed by name.
+ */
+export interface BridgeEvents {
+    agentAuthenticated: { agentId: string; namespace?: string; remoteAddress: string };
+    agentDisconnected: { agentId: string };
+    /** A player was assigned to an agent, which is asked to open a data channel */
+    playerRouted: BridgePlayer;
+    /** The agent's data channel for a routed player arrived and the two were joined */
+    tunnelEstablished: BridgePlayer;
+    playerDisconnected: BridgePlayer;
+}
+
 type SocketType = 'UNKNOWN' | 'AGENT_CONTROL' | 'AGENT_DATA' | 'PLAYER';
 
 interface SocketData {
     type: SocketType;
     authenticated?: boolean;
     target?: Socket<SocketData>;
-    buffer: Uint8Array[]; // Buffer for accumulating chunks
+    buffer: ChunkBuffer; // Data received before the socket is identified or its tunnel is ready
     connId?: string; // Track connId for cleanup
     handshakeTimeout?: Timer;
     pendingTimeout?: Timer;
     agentId?: string; // The ID/Subdomain of the agent this socket belongs to
+    namespace?: string; // Set on AGENT_CONTROL sockets authenticated with a token
+    connectedAt?: Date; // Set on AGENT_CONTROL sockets once authenticated and PLAYER sockets once routed
+    player?: BridgePlayer; // Set on PLAYER sockets once routed
+    traffic?: PlayerTraffic; // Set on PLAYER sockets once routed
+    proxyAddresses?: ProxyAddresses; // Set when a trusted load balancer sent a PROXY header
+}
+
+interface PlayerTraffic {
+    /** `performance.now()` when the agent was sent CONNECT */
+    routedAt: number;
+    /** Bytes received from the player */
+    bytesIn: number;
+    /** Bytes sent to the player */
+    bytesOut: number;
 }
 
 const MAX_BUFFER_SIZE = 4096;
 const HANDSHAKE_TIMEOUT_MS = 5000;
+/** Scope a token needs to authenticate an agent; tokens without scopes may do anything */
+const TUNNEL_SCOPE = 'tunnel';
 
 // Rate Limiting Config
 const MAX_AUTH_ATTEMPTS = 5;
@@ -56,16 +157,31 @@ interface IpState {
     lastConnectionTime: number;
 }
 
-export class BridgeServerEnhanced {
+export class BridgeServerEnhanced extends TypedEventEmitter<BridgeEvents> {
     private config: BridgeConfigEnhanced;
     // Map subdomain/agentId -> Agent Control Socket
     private agents = new Map<string, Socket<SocketData>>(); 
     private pendingPlayers = new Map<string, Socket<SocketData>>();
+    // Map connId -> routed Player Socket, pending or tunnelled
+    private players = new Map<string, Socket<SocketData>>();
     private ipStates = new Map<string, IpState>();
     private tokenManager: TokenManager | null = null;
+    private metricsServer: MetricsServer | null = null;
+    private adminServer: BridgeAdminServer | null = null;
+    private logger: Logger;
+    /** Logger built from `config.logging`, closed on stop */
+    private ownLogger: StructuredLogger | null = null;
 
-    constructor(config: BridgeConfigEnhanced) {
+    /**
+     * @param logger Replaces the logger built from `config.logging`
+     */
+    constructor(config: BridgeConfigEnhanced, logger?: Logger) {
+        const ownLogger = logger ? null : createLogger(config.logging, config.debug);
+        const log = (logger ?? ownLogger!).child({ component: 'Bridge' });
+        super(log);
         this.config = config;
+        this.ownLogger = ownLogger;
+        this.logger = log;
         this.initMetrics();
         
         // Initialize token manager if auth is enabled
@@ -74,23 +190,46 @@ export class BridgeServerEnhanced {
                 secret: config.auth.secret,
                 tokenExpiryHours: config.auth.tokenExpiryHours,
                 codeExpiryMinutes: config.auth.codeExpiryMinutes,
-                maxTokensPerAgent: config.auth.maxTokensPerAgent
-            });
+                maxTokensPerAgent: config.auth.maxTokensPerAgent,
+                signedTokens: config.auth.signedTokens,
+                signingKeys: config.auth.signingKeys,
+                signingKeyId: config.auth.signingKeyId
+            }, config.auth.storePath ? new FileTokenStore(config.auth.storePath) : undefined, this.logger);
+        }
+
+        if (config.metrics) {
+            this.metricsServer = new MetricsServer(config.metrics);
+        }
+        if (config.admin) {
+            this.adminServer = new BridgeAdminServer(config.admin, this, this.logger.child({ component: 'Admin' }));
         }
     }
 
     private initMetrics() {
         globalMetrics.registerCounter('bridge_connections_total', 'Total connections accepted');
-        globalMetrics.registerCounter('bridge_agents_connected', 'Current connected agents');
-        globalMetrics.registerCounter('bridge_players_connected', 'Current connected players');
+        globalMetrics.registerGauge('bridge_agents_connected', 'Current connected agents');
+        globalMetrics.registerGauge('bridge_players_connected', 'Current connected players');
+
+        const buckets = this.config.metricBuckets ?? {};
+        globalMetrics.registerHistogram('bridge_pairing_seconds',
+            'Time from sending CONNECT to an agent until its data channel arrived', ['agent'],
+            buckets['bridge_pairing_seconds']);
+        globalMetrics.registerHistogram('bridge_session_duration_seconds',
+            'Lifetime of player connections routed to an agent', ['agent'],
+            buckets['bridge_session_duration_seconds'] ?? SESSION_BUCKETS);
+        globalMetrics.registerCounter('bridge_bytes_received_total',
+            'Bytes received from players, counted when their connection closes', ['agent']);
+        globalMetrics.registerCounter('bridge_bytes_sent_total',
+            'Bytes sent to players, counted when their connection closes', ['agent']);
     }
 
     start() {
-        const authStatus = this.tokenManager ? 'AUTH-ENABLED' : 'AUTH-DISABLED';
-        this.log(`Starting Enhanced Bridge on port ${this.config.port} (${authStatus})...`);
+        this.logger.info(`Starting Enhanced Bridge on port ${this.config.port}`, { auth: this.tokenManager ? 'enabled' : 'disabled' });
 
         // Clean up IP states periodically
         setInterval(() => this.cleanupIpStates(), 60_000);
+        this.metricsServer?.start();
+        this.adminServer?.start();
 
         Bun.listen<SocketData>({
             hostname: '0.0.0.0',
@@ -102,17 +241,17 @@ export class BridgeServerEnhanced {
                     
                     // 1. Check Rate Limits
                     if (!this.checkConnectionRateLimit(remoteIp)) {
-                        this.log(`Rate limit exceeded for ${remoteIp}. Dropping connection.`);
+                        this.logger.debug('Rate limit exceeded, dropping connection', { remote: remoteIp });
                         socket.end();
                         return;
                     }
 
                     const timeout = setTimeout(() => {
-                        this.log(`Connection timed out awaiting protocol identification: ${socket.remoteAddress}`);
+                        this.logger.debug(`Connection timed out awaiting protocol identification: ${socket.remoteAddress}`);
                         socket.end();
                     }, HANDSHAKE_TIMEOUT_MS);
 
-                    socket.data = { type: 'UNKNOWN', buffer: [], handshakeTimeout: timeout };
+                    socket.data = { type: 'UNKNOWN', buffer: new ChunkBuffer(), handshakeTimeout: timeout };
                 },
                 data: (socket, data) => {
                     const state = socket.data;
@@ -120,15 +259,17 @@ export class BridgeServerEnhanced {
                     if (state.type === 'AGENT_DATA') {
                         if (state.target) {
                             state.target.write(data);
+                            if (state.target.data.traffic) state.target.data.traffic.bytesOut += data.length;
                         }
                         return;
                     }
 
                     if (state.type === 'PLAYER') {
+                        if (state.traffic) state.traffic.bytesIn += data.length;
                         if (state.target) {
                             state.target.write(data);
                         } else {
-                            state.buffer.push(Buffer.from(data));
+                            state.buffer.push(data);
                         }
                         return;
                     }
@@ -139,70 +280,68 @@ export class BridgeServerEnhanced {
                     }
 
                     if (state.type === 'UNKNOWN') {
-                        const currentSize = state.buffer.reduce((acc, chunk) => acc + chunk.length, 0);
-                        if (currentSize + data.length > MAX_BUFFER_SIZE) {
-                            this.log(`Connection exceeded buffer limit during handshake: ${socket.remoteAddress}`);
+                        if (state.buffer.length + data.length > MAX_BUFFER_SIZE) {
+                            this.logger.debug(`Connection exceeded buffer limit during handshake: ${socket.remoteAddress}`);
                             socket.end();
                             return;
                         }
 
-                        state.buffer.push(Buffer.from(data));
-                        const combined = Buffer.concat(state.buffer);
+                        state.buffer.push(data);
 
-                        let dataOffset = 0;
-                        const proxyLen = this.getProxyHeaderLength(combined);
+                        const proxyLen = this.readProxyHeader(socket);
+                        if (proxyLen === 0) return; // Incomplete or malformed PROXY header
+                        const dataOffset = Math.max(proxyLen, 0);
 
-                        if (proxyLen === 0) return; // Incomplete PROXY header
-                        if (proxyLen > 0) {
-                            dataOffset = proxyLen;
-                        }
-
-                        const effectiveBuffer = combined.subarray(dataOffset);
+                        const head = Buffer.from(state.buffer.peek(Math.min(state.buffer.length, dataOffset + 5)).subarray(dataOffset));
 
-                        if (effectiveBuffer.length < 6) {
+                        if (head.length < 5) {
                             // Check for HAProxy V2 signature start or text commands
-                            const partial = effectiveBuffer.toString('utf8');
+                            const partial = head.toString('utf8');
                             if ("DATA ".startsWith(partial) || "AUTH ".startsWith(partial)) {
                                 return; 
                             }
                             // HAProxy V2 signature check
                             const v2Sig = Buffer.from([0x0D, 0x0A, 0x0D, 0x0A, 0x00, 0x0D, 0x0A, 0x51, 0x55, 0x49, 0x54, 0x0A]);
-                            if (effectiveBuffer.length > 0 && v2Sig.subarray(0, effectiveBuffer.length).equals(effectiveBuffer)) {
+                            if (v2Sig.subarray(0, head.length).equals(head)) {
                                 return;
                             }
-                            
-                            // If we have enough data to try parsing handshake, proceed. 
-                            // Minecraft Packet Length + ID 0x00. VarInt(Len) + VarInt(ID) = at least 2 bytes.
-                            if (effectiveBuffer.length > 2) {
-                                this.convertToPlayer(socket, effectiveBuffer);
+                        } else {
+                            const prefix = head.toString('utf8');
+
+                            if (prefix === 'DATA ' || prefix === 'AUTH ') {
+                                const newlineIndex = state.buffer.indexOf(10, dataOffset);
+                                if (newlineIndex === -1) {
+                                    return;
+                                }
+
+                                const effectiveBuffer = Buffer.from(state.buffer.read().subarray(dataOffset));
+                                const commandLine = effectiveBuffer.subarray(0, newlineIndex - dataOffset).toString('utf8').trim();
+                                const payload = effectiveBuffer.subarray(newlineIndex - dataOffset + 1);
+
+                                this.clearHandshakeTimeout(socket);
+
+                                if (commandLine.startsWith('AUTH ')) {
+                                    state.type = 'AGENT_CONTROL';
+                                    this.processAuth(socket, commandLine);
+                                } else if (commandLine.startsWith('DATA ')) {
+                                    this.processDataHandshake(socket, commandLine, payload);
+                                }
                                 return;
                             }
-                            return; // Wait for more data
                         }
 
-                        const prefix = effectiveBuffer.subarray(0, 5).toString('utf8');
-
-                        if (prefix === 'DATA ' || prefix === 'AUTH ') {
-                            const newlineIndex = effectiveBuffer.indexOf(10);
-                            if (newlineIndex === -1) {
-                                return;
-                            }
-
-                            const commandLine = effectiveBuffer.subarray(0, newlineIndex).toString('utf8').trim();
-                            const payload = effectiveBuffer.subarray(newlineIndex + 1).slice();
-
-                            state.buffer = [];
-                            this.clearHandshakeTimeout(socket);
-
-                            if (commandLine.startsWith('AUTH ')) {
-                                state.type = 'AGENT_CONTROL';
-                                this.processAuth(socket, commandLine);
-                            } else if (commandLine.startsWith('DATA ')) {
-                                this.processDataHandshake(socket, commandLine, payload);
-                            }
-                        } else {
-                            this.convertToPlayer(socket, effectiveBuffer);
+                        // A legacy ping would read as a 254+ byte handshake that never completes
+                        if (state.buffer.byteAt(dataOffset) === LEGACY_PING_ID) {
+                            state.buffer.skip(dataOffset);
+                            this.convertToPlayer(socket, { status: 'invalid', reason: 'Legacy server list ping' });
+                            return;
                         }
+
+                        // Anything else should be a Minecraft handshake; wait until it is complete
+                        const handshake = decodeHandshake(state.buffer, dataOffset);
+                        if (handshake.status === 'incomplete') return;
+                        state.buffer.skip(dataOffset); // The PROXY header is not forwarded to the agent
+                        this.convertToPlayer(socket, handshake);
                     }
                 },
                 close: (socket) => {
@@ -210,20 +349,26 @@ export class BridgeServerEnhanced {
                     const state = socket.data;
                     if (state.type === 'AGENT_CONTROL') {
                         if (state.agentId) {
-                            this.log(`Agent ${state.agentId} disconnected`);
+                            this.logger.info(`Agent ${state.agentId} disconnected`, { agentId: state.agentId });
                             this.agents.delete(state.agentId);
-                            globalMetrics.increment('bridge_agents_connected', { agent: state.agentId }, -1);
+                            globalMetrics.decrement('bridge_agents_connected');
+                            this.emit('agentDisconnected', { agentId: state.agentId });
                         }
                     }
                     if (state.connId && this.pendingPlayers.has(state.connId)) {
-                        this.log(`Player ${state.connId} disconnected before tunnel established`);
+                        this.logger.debug('Player disconnected before tunnel established', { connId: state.connId });
                         this.pendingPlayers.delete(state.connId);
                     }
                     if (state.target) {
                         state.target.end();
                     }
                     if (state.type === 'PLAYER') {
-                        globalMetrics.increment('bridge_players_connected', {}, -1);
+                        if (state.connId) this.players.delete(state.connId);
+                        globalMetrics.decrement('bridge_players_connected');
+                        if (state.player) {
+                            this.recordSession(state.player, state.traffic);
+                            this.emit('playerDisconnected', state.player);
+                        }
                     }
                 },
                 error: (socket) => {
@@ -235,7 +380,7 @@ export class BridgeServerEnhanced {
     }
 
     stop() {
-        this.log('Stopping Enhanced Bridge...');
+        this.logger.info('Stopping Enhanced Bridge...');
         
         // Close all agent connections
         for (const [agentId, socket] of this.agents.entries()) {
@@ -248,8 +393,12 @@ export class BridgeServerEnhanced {
             socket.end();
         }
         this.pendingPlayers.clear();
+        this.players.clear();
+        this.metricsServer?.stop();
+        this.adminServer?.stop();
 
-        this.log('Enhanced Bridge stopped');
+        this.logger.info('Enhanced Bridge stopped');
+        this.ownLogger?.close();
     }
 
     /**
@@ -293,6 +442,7 @@ export class BridgeServerEnhanced {
         if (!this.tokenManager) {
             return {
                 enabled: false,
+                signedTokens: false,
                 activeTokens: 0,
                 activeClaimCodes: 0,
                 totalTokensGenerated: 0,
@@ -301,10 +451,122 @@ export class BridgeServerEnhanced {
         }
         return {
             enabled: true,
+            signedTokens: this.config.auth?.signedTokens === true,
             ...this.tokenManager.getStats()
         };
     }
 
+    /**
+     * Issue a token for an agent without a claim code. Tokens with scopes
+     * only authenticate agents when they include `tunnel`.
+     */
+    issueToken(agentId: string, namespace: string, scopes?: string[]): AgentToken {
+        return this.requireTokenManager().generateToken(agentId, namespace, scopes);
+    }
+
+    /**
+     * Revoke a token. Agents already connected with it stay connected.
+     */
+    revokeToken(token: string): boolean {
+        return this.requireTokenManager().revokeToken(token);
+    }
+
+    /**
+     * Revoke every token of an agent, returning how many were active
+     */
+    revokeAgentTokens(agentId: string): number {
+        return this.requireTokenManager().revokeAllTokens(agentId);
+    }
+
+    /**
+     * Invalidate a claim code that was not redeemed yet
+     */
+    revokeClaimCode(code: string): boolean {
+        return this.requireTokenManager().revokeClaimCode(code);
+    }
+
+    /**
+     * Authenticated agents in connection order
+     */
+    getAgents(): BridgeAgentInfo[] {
+        const agents: BridgeAgentInfo[] = [];
+        for (const [agentId, socket] of this.agents) {
+            agents.push({
+                agentId,
+                namespace: socket.data.namespace,
+                remoteAddress: socket.remoteAddress,
+                connectedAt: socket.data.connectedAt ?? new Date(),
+                players: this.getPlayers(agentId).length,
+            });
+        }
+        return agents;
+    }
+
+    /**
+     * Routed players, optionally only those of one agent
+     */
+    getPlayers(agentId?: string): BridgePlayerInfo[] {
+        const players: BridgePlayerInfo[] = [];
+        for (const socket of this.players.values()) {
+            const { player, traffic } = socket.data;
+            if (!player || (agentId !== undefined && player.agentId !== agentId)) continue;
+            players.push({
+                ...player,
+                connectedAt: socket.data.connectedAt ?? new Date(),
+                tunnelled: socket.data.target !== undefined,
+                bytesIn: traffic?.bytesIn ?? 0,
+                bytesOut: traffic?.bytesOut ?? 0,
+            });
+        }
+        return players;
+    }
+
+    /**
+     * Disconnect an agent and the players routed to it. Returns false if it is not connected.
+     */
+    kickAgent(agentId: string): boolean {
+        const socket = this.agents.get(agentId);
+        if (!socket) return false;
+
+        this.logger.info(`Kicking agent ${agentId}`, { agentId });
+        for (const player of this.players.values()) {
+            if (player.data.player?.agentId === agentId) player.end();
+        }
+        socket.end();
+        return true;
+    }
+
+    /**
+     * Disconnect a routed player. Returns false if the connection is gone.
+     */
+    kickPlayer(connId: string): boolean {
+        const socket = this.players.get(connId);
+        if (!socket) return false;
+
+        this.logger.info('Kicking player', { connId, agentId: socket.data.player?.agentId });
+        socket.end();
+        return true;
+    }
+
+    /**
+     * Connection counts and token statistics
+     */
+    getStats() {
+        return {
+            agents: this.agents.size,
+            players: this.players.size,
+            pendingPlayers: this.pendingPlayers.size,
+            tokens: this.getTokenStats(),
+        };
+    }
+
+    private requireTokenManager(): TokenManager {
+        if (!this.tokenManager) {
+            throw new Error('Token manager not initialized - auth is disabled');
+        }
+        return this.tokenManager;
+    }
+
     private checkConnectionRateLimit(ip: string): boolean {
         const now = Date.now();
         let state = this.ipStates.get(ip);
@@ -347,14 +609,13 @@ export class BridgeServerEnhanced {
         }
     }
 
-    private convertToPlayer(socket: Socket<SocketData>, initialData: Buffer) {
+    private convertToPlayer(socket: Socket<SocketData>, result: Exclude<DecodeResult<Handshake>, { status: 'incomplete' }>) {
         this.clearHandshakeTimeout(socket);
         // Try to parse handshake to find target agent
         let targetAgentId: string | null = null;
         
-        try {
-            const { handshake } = parseHandshake(initialData);
-            const host = handshake.serverAddress;
+        if (result.status === 'packet') {
+            const host = result.packet.serverAddress;
             // logic to extract subdomain:
             // e.g. "agent1.bridge.com" -> "agent1"
             if (this.config.domain) {
@@ -372,21 +633,21 @@ export class BridgeServerEnhanced {
                 // For safety, let requires explicit domain config for routing or use Map defaults
                 targetAgentId = host.split('.')[0] || null;
             }
-        } catch (e) {
-            this.log(`Failed to parse handshake from ${socket.remoteAddress}: ${e}`);
+        } else {
+            this.logger.debug(`Failed to parse handshake from ${socket.remoteAddress}: ${result.reason}`);
             // If it's not a valid Minecraft handshake, treat it as a simple connection
             // Use the first connected agent as default
             if (this.agents.size > 0) {
                 const firstAgent = Array.from(this.agents.keys())[0];
                 if (firstAgent) {
                     targetAgentId = firstAgent;
-                    this.log(`Using default agent '${targetAgentId}' for non-Minecraft connection`);
+                    this.logger.debug(`Using default agent '${targetAgentId}' for non-Minecraft connection`);
                 }
             }
         }
 
         if (!targetAgentId) {
-             this.log(`Could not determine target agent for ${socket.remoteAddress}. Host sniffing failed.`);
+             this.logger.debug(`Could not determine target agent for ${socket.remoteAddress}. Host sniffing failed.`);
              // Maybe fallback to a default agent?
              if (this.agents.has('default')) {
                  targetAgentId = 'default';
@@ -395,7 +656,7 @@ export class BridgeServerEnhanced {
                  const firstAgent = Array.from(this.agents.keys())[0];
                  if (firstAgent) {
                      targetAgentId = firstAgent;
-                     this.log(`Using first available agent '${targetAgentId}' as fallback`);
+                     this.logger.debug(`Using first available agent '${targetAgentId}' as fallback`);
                  }
              } else {
                  socket.end();
@@ -411,37 +672,48 @@ export class BridgeServerEnhanced {
         const agentSocket = this.agents.get(targetAgentId);
 
         if (!agentSocket) {
-            this.log(`Agent '${targetAgentId}' not connected. Dropping player.`);
+            this.logger.debug(`Agent '${targetAgentId}' not connected. Dropping player.`);
             socket.end();
             return;
         }
 
-        this.log(`Detected: MINECRAFT PLAYER (${socket.remoteAddress}) -> Route to Agent: ${targetAgentId}`);
+        this.logger.debug(`Detected: MINECRAFT PLAYER (${socket.remoteAddress}) -> Route to Agent: ${targetAgentId}`);
         
         if (this.pendingPlayers.size > 1000) {
-             this.log('Too many pending players. Dropping.');
+             this.logger.warn('Too many pending players. Dropping.');
              socket.end();
              return;
         }
 
         socket.data.type = 'PLAYER';
-        socket.data.buffer = [initialData];
         globalMetrics.increment('bridge_players_connected');
 
         const connId = randomUUID();
         socket.data.connId = connId;
+        socket.data.player = {
+            connId,
+            agentId: targetAgentId,
+            remoteAddress: this.playerAddresses(socket).sourceAddress,
+            serverAddress: result.status === 'packet' ? result.packet.serverAddress : undefined,
+        };
+        socket.data.traffic = { routedAt: performance.now(), bytesIn: socket.data.buffer.length, bytesOut: 0 };
+        socket.data.connectedAt = new Date();
+        this.players.set(connId, socket);
+        this.emit('playerRouted', socket.data.player);
 
         // Set pending timeout
         socket.data.pendingTimeout = setTimeout(() => {
             if (this.pendingPlayers.has(connId)) {
-                this.log(`Pending connection ${connId} timed out waiting for agent.`);
+                this.logger.debug('Pending connection timed out waiting for agent', { connId, agentId: targetAgentId });
                 this.pendingPlayers.delete(connId);
                 socket.end();
             }
         }, 10000); // 10s timeout
 
         this.pendingPlayers.set(connId, socket);
-        agentSocket.write(`CONNECT ${connId}\n`);
+        // Player and bridge addresses let the agent send a PROXY header to its server
+        const { sourceAddress, sourcePort, destinationAddress, destinationPort } = this.playerAddresses(socket);
+        agentSocket.write(`CONNECT ${connId} ${sourceAddress} ${sourcePort} ${destinationAddress} ${destinationPort}\n`);
     }
 
     private processAuth(socket: Socket<SocketData>, commandLine: string) {
@@ -480,6 +752,11 @@ export class BridgeServerEnhanced {
         const token = this.tokenManager!.validateToken(providedToken);
         
         if (token) {
+            if (token.scopes?.length && !token.scopes.includes(TUNNEL_SCOPE)) {
+                socket.write('AUTH_FAIL_SCOPE\n');
+                socket.end();
+                return;
+            }
             // Valid token authentication
             this.completeAuth(socket, token.agentId, token.namespace);
             return;
@@ -489,10 +766,9 @@ export class BridgeServerEnhanced {
         const redeemed = this.tokenManager!.redeemClaimCode(providedToken);
         
         if (redeemed) {
-            // Valid claim code, generate new token
-            const newToken = this.tokenManager!.generateToken(redeemed.agentId, redeemed.namespace);
-            this.completeAuth(socket, newToken.agentId, newToken.namespace);
-            socket.write(`AUTH_OK ${newToken.agentId}.${newToken.namespace} ${newToken.token}\n`);
+            // Valid claim code; redeeming it issued the agent's token
+            this.completeAuth(socket, redeemed.agentId, redeemed.namespace);
+            socket.write(`AUTH_OK ${redeemed.agentId}.${redeemed.namespace} ${redeemed.token}\n`);
             return;
         }
 
@@ -527,7 +803,7 @@ export class BridgeServerEnhanced {
 
         if (valid) {
             if (this.agents.has(requestedSubdomain)) {
-                 this.log(`Agent attempted to claim already active subdomain '${requestedSubdomain}'. Rejecting.`);
+                 this.logger.warn(`Agent attempted to claim already active subdomain '${requestedSubdomain}'. Rejecting.`, { remote: socket.remoteAddress });
                  socket.write('AUTH_FAIL_IN_USE\n');
                  socket.end();
                  return;
@@ -537,15 +813,17 @@ export class BridgeServerEnhanced {
             
             socket.data.authenticated = true;
             socket.data.agentId = requestedSubdomain;
+            socket.data.connectedAt = new Date();
             this.agents.set(requestedSubdomain, socket);
             
-            this.log(`Agent authenticated successfully as '${requestedSubdomain}'`);
+            this.logger.info(`Agent authenticated successfully as '${requestedSubdomain}'`, { agentId: requestedSubdomain, remote: socket.remoteAddress });
             globalMetrics.increment('bridge_agents_connected');
             socket.write(`AUTH_OK ${requestedSubdomain}.bridge\n`);
+            this.emit('agentAuthenticated', { agentId: requestedSubdomain, remoteAddress: socket.remoteAddress });
         } else {
             state.authFailures++;
             if (state.authFailures >= MAX_AUTH_ATTEMPTS) {
-                this.log(`Blocking IP ${socket.remoteAddress} due to multiple auth failures`);
+                this.logger.warn('Blocking IP due to multiple auth failures', { remote: socket.remoteAddress });
                 state.lockoutUntil = Date.now() + AUTH_LOCKOUT_MS;
             }
             
@@ -564,11 +842,14 @@ export class BridgeServerEnhanced {
 
         socket.data.authenticated = true;
         socket.data.agentId = agentId;
+        socket.data.namespace = namespace;
+        socket.data.connectedAt = new Date();
         this.agents.set(agentId, socket);
         
-        this.log(`Agent authenticated successfully: ${agentId}.${namespace}`);
+        this.logger.info(`Agent authenticated successfully: ${agentId}.${namespace}`, { agentId, remote: socket.remoteAddress });
         globalMetrics.increment('bridge_agents_connected');
         socket.write(`AUTH_OK ${agentId}.${namespace}\n`);
+        this.emit('agentAuthenticated', { agentId, namespace, remoteAddress: socket.remoteAddress });
     }
 
     private processDataHandshake(socket: Socket<SocketData>, commandLine: string, payload: Uint8Array) {
@@ -577,7 +858,7 @@ export class BridgeServerEnhanced {
             socket.end();
             return;
         }
-        this.log(`Detected: AGENT DATA channel for ${connId}`);
+        this.logger.debug(`Detected: AGENT DATA channel for ${connId}`);
         socket.data.type = 'AGENT_DATA';
 
         if (this.pendingPlayers.has(connId)) {
@@ -595,51 +876,82 @@ export class BridgeServerEnhanced {
             playerSocket.data.type = 'PLAYER';
             socket.data.connId = connId;
 
+            const traffic = playerSocket.data.traffic;
+            if (traffic && playerSocket.data.player) {
+                globalMetrics.observe('bridge_pairing_seconds', (performance.now() - traffic.routedAt) / 1000, {
+                    agent: playerSocket.data.player.agentId,
+                });
+            }
+
             if (payload.length > 0) {
-                this.log(`Forwarding ${payload.length} bytes of coalesced data to player`);
+                this.logger.debug(`Forwarding ${payload.length} bytes of coalesced data to player`);
                 playerSocket.write(payload);
+                if (traffic) traffic.bytesOut += payload.length;
             }
 
             const playerBuffer = playerSocket.data.buffer;
             if (playerBuffer.length > 0) {
-                this.log(`Flushing ${playerBuffer.length} buffered packets for ${connId}`);
-                for (const chunk of playerBuffer) {
-                    socket.write(chunk);
-                }
-                playerSocket.data.buffer = [];
+                this.logger.debug(`Flushing ${playerBuffer.length} buffered bytes for ${connId}`);
+                socket.write(playerBuffer.read());
             }
 
-            this.log(`Tunnel established for ${connId}`);
+            this.logger.debug('Tunnel established', { connId, agentId: playerSocket.data.player?.agentId });
+            if (playerSocket.data.player) this.emit('tunnelEstablished', playerSocket.data.player);
         } else {
-            this.log(`Invalid connId or player gone: ${connId}`);
+            this.logger.debug(`Invalid connId or player gone: ${connId}`);
             socket.end();
         }
     }
 
+    /**
+     * Records the duration and traffic of a closed player connection.
+     */
+    private recordSession(player: BridgePlayer, traffic: PlayerTraffic | undefined) {
+        if (!traffic) return;
+        const labels = { agent: player.agentId };
+        globalMetrics.observe('bridge_session_duration_seconds', (performance.now() - traffic.routedAt) / 1000, labels);
+        globalMetrics.increment('bridge_bytes_received_total', labels, traffic.bytesIn);
+        globalMetrics.increment('bridge_bytes_sent_total', labels, traffic.bytesOut);
+    }
+
     private handleControlMessage(socket: Socket<SocketData>, data: Uint8Array) {
         // Only for subsequent control messages if any
     }
 
-    private log(msg: string) {
-        const authStatus = this.tokenManager ? 'AUTH-ENABLED' : 'AUTH-DISABLED';
-        console.log(`[Bridge:${authStatus}] ${msg}`);
-    }
+    /**
+     * Length of the PROXY header the connection starts with, 0 while it is
+     * incomplete or after a malformed one closed the socket, -1 without one.
+     * The client address it names is only kept from `trustedProxies`.
+     */
+    private readProxyHeader(socket: Socket<SocketData>): number {
+        const buffer = socket.data.buffer;
+        if (!isProxyHeaderPrefix(buffer.peek(Math.min(buffer.length, PROXY_V2_SIGNATURE.length)))) return -1;
 
-    private getProxyHeaderLength(buffer: Buffer): number {
-        if (buffer.length >= 6 && buffer.subarray(0, 6).toString('utf8') === 'PROXY ') {
-            const newline = buffer.indexOf(10);
-            if (newline !== -1) return newline + 1;
+        let header: ProxyHeader | null;
+        try {
+            header = parseProxyHeader(buffer.peek());
+        } catch (error) {
+            this.logger.debug('Malformed PROXY header', { remote: socket.remoteAddress, error });
+            socket.end();
             return 0;
         }
+        if (!header) return 0;
 
-        const v2Sig = Buffer.from([0x0D, 0x0A, 0x0D, 0x0A, 0x00, 0x0D, 0x0A, 0x51, 0x55, 0x49, 0x54, 0x0A]);
-        if (buffer.length >= 12 && buffer.subarray(0, 12).equals(v2Sig)) {
-            if (buffer.length < 16) return 0;
-            const len = buffer.readUInt16BE(14);
-            if (buffer.length < 16 + len) return 0;
-            return 16 + len;
+        if (header.addresses && ipMatchesAny(socket.remoteAddress, this.config.trustedProxies ?? [])) {
+            socket.data.proxyAddresses = header.addresses;
         }
+        return header.bytesRead;
+    }
 
-        return -1;
+    /**
+     * Player and bridge addresses, from a trusted PROXY header when there was one.
+     */
+    private playerAddresses(socket: Socket<SocketData>): ProxyAddresses {
+        return socket.data.proxyAddresses ?? {
+            sourceAddress: socket.remoteAddress,
+            sourcePort: socket.remotePort,
+            destinationAddress: socket.localAddress,
+            destinationPort: socket.localPort,
+        };
     }
 }
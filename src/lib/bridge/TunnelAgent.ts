@@ -1,4 +1,9 @@
 import type { Socket } from 'bun';
+import { writeProxyHeader, type ProxyAddresses, type ProxyProtocolVersion } from '../../core/proxy-protocol.js';
+import { TypedEventEmitter } from '../events/TypedEventEmitter.js';
+import { globalMetrics, SESSION_BUCKETS } from '../metrics/MetricsRegistry.js';
+import type { LoggingConfig } from '../../config/config.js';
+import { createLogger, type Logger } from '../logging/Logger.js';
 
 export interface AgentConfig {
     /** Hostname of the VPS Bridge (e.g., 'my-vps.com') */
@@ -13,7 +18,40 @@ export interface AgentConfig {
     secret: string;
     /** Optional: Requested subdomain/agent ID */
     agentId?: string;
+    /**
+     * Optional: Prepend a PROXY header with the player's address to local server
+     * connections, for servers with `proxy-protocol: true`
+     */
+    proxyProtocol?: ProxyProtocolVersion;
+    /** Histogram bucket bounds in seconds, by metric name, replacing the defaults */
+    metricBuckets?: Record<string, number[]>;
     debug?: boolean;
+    /** Log level, format and sinks; `debug` only picks the default level */
+    logging?: LoggingConfig;
+}
+
+/**
+ * Events emitted by `TunnelAgent`, keyed by name.
+ */
+export interface AgentEvents {
+    /** The control connection to the bridge opened; authentication follows */
+    connected: { host: string; port: number };
+    /** `token` is set when the bridge exchanged a claim code for one */
+    authenticated: { domain?: string; agentId?: string; namespace?: string; token?: string };
+    /** The bridge rejected the credentials, e.g. `AUTH_FAIL_LOCKED` */
+    authFailed: { reason: string };
+    /** The control connection closed; the agent reconnects after `reconnectInMs` */
+    disconnected: { reconnectInMs: number };
+    /** A player's data channel to the bridge is open */
+    tunnelOpened: { connId: string };
+    tunnelClosed: {
+        connId: string;
+        /** Bytes received from the bridge (sent by the player) */
+        rx: number;
+        /** Bytes sent to the bridge (sent by the local server) */
+        tx: number;
+    };
+    error: { error: Error; connId?: string };
 }
 
 interface ControlSocketData {
@@ -32,6 +70,13 @@ interface LocalSocketData {
     buffer: Uint8Array[];
 }
 
+interface TunnelStats {
+    /** `performance.now()` when the bridge asked for the tunnel */
+    startedAt: number;
+    rx: number;
+    tx: number;
+}
+
 export const defaultAgentConfig: AgentConfig = {
     bridgeHost: 'localhost',
     bridgeControlPort: 8080,
@@ -43,15 +88,44 @@ export const defaultAgentConfig: AgentConfig = {
 
 const MAX_CONCURRENT_CONNECTIONS = 50;
 const MAX_PENDING_BUFFER_SIZE = 1024 * 1024; // 1MB
+const RECONNECT_DELAY_MS = 5000;
 
-export class TunnelAgent {
+export class TunnelAgent extends TypedEventEmitter<AgentEvents> {
     private config: AgentConfig;
     private controlSocket: Socket<ControlSocketData> | null = null;
     private reconnectTimer: Timer | null = null;
     private activeConnections = new Set<string>(); // local socket references could be stored if we need them
 
-    constructor(config: AgentConfig) {
+    private logger: Logger;
+
+    /**
+     * @param logger Replaces the logger built from `config.logging`
+     */
+    constructor(config: AgentConfig, logger?: Logger) {
+        const log = (logger ?? createLogger(config.logging, config.debug)).child({ component: 'Agent' });
+        super(log);
         this.config = config;
+        this.logger = log;
+        this.registerMetrics();
+    }
+
+    private registerMetrics() {
+        const buckets = this.config.metricBuckets ?? {};
+        globalMetrics.registerHistogram('agent_local_connect_seconds',
+            'Time to connect to the local server', ['agent'],
+            buckets['agent_local_connect_seconds']);
+        globalMetrics.registerHistogram('agent_session_duration_seconds',
+            'Lifetime of tunnelled player connections', ['agent'],
+            buckets['agent_session_duration_seconds'] ?? SESSION_BUCKETS);
+        globalMetrics.registerCounter('agent_bytes_received_total',
+            'Bytes received from the bridge, counted when the tunnel closes', ['agent']);
+        globalMetrics.registerCounter('agent_bytes_sent_total',
+            'Bytes sent to the bridge, counted when the tunnel closes', ['agent']);
+    }
+
+    /** Label values for this agent's metrics */
+    private get metricLabels(): Record<string, string> {
+        return { agent: this.controlSocket?.data?.agentId ?? this.config.agentId ?? 'default' };
     }
 
     start() {
@@ -59,7 +133,7 @@ export class TunnelAgent {
     }
 
     private connectControl() {
-        this.log(`Connecting to Bridge Control at ${this.config.bridgeHost}:${this.config.bridgeControlPort}...`);
+        this.logger.debug(`Connecting to Bridge Control at ${this.config.bridgeHost}:${this.config.bridgeControlPort}...`);
 
         Bun.connect<ControlSocketData>({
             hostname: this.config.bridgeHost,
@@ -67,7 +141,8 @@ export class TunnelAgent {
             socket: {
                 open: (socket) => {
                     socket.data = { buffer: '' };
-                    this.log('Connected to Bridge. Authenticating...');
+                    this.logger.debug('Connected to Bridge. Authenticating...');
+                    this.emit('connected', { host: this.config.bridgeHost, port: this.config.bridgeControlPort });
                     socket.write(`AUTH ${this.config.secret} ${this.config.agentId || ''}\n`);
                 },
                 data: (socket, data) => {
@@ -77,7 +152,7 @@ export class TunnelAgent {
                     }
 
                     if (socket.data.buffer.length + chunk.length > 1024 * 16) {
-                        this.log('Bridge sent too much data without newline. Disconnecting.');
+                        this.logger.warn('Bridge sent too much data without newline. Disconnecting.');
                         socket.end();
                         return;
                     }
@@ -94,7 +169,7 @@ export class TunnelAgent {
                             const assignedDomain = parts[1];
                             const token = parts[2];
                             
-                            this.log(`Authenticated successfully. Domain: ${assignedDomain || 'default'}`);
+                            this.logger.info(`Authenticated successfully. Domain: ${assignedDomain || 'default'}`);
                             this.controlSocket = socket;
                             
                             // Store token if provided (for token-based auth)
@@ -103,39 +178,57 @@ export class TunnelAgent {
                                 const [agentId, namespace] = assignedDomain.split('.');
                                 socket.data.agentId = agentId;
                                 socket.data.namespace = namespace;
-                                this.log(`Token received: ${token.substring(0, 8)}...`);
+                                this.logger.debug(`Token received: ${token.substring(0, 8)}...`, { agentId });
                             }
+                            this.emit('authenticated', {
+                                domain: assignedDomain,
+                                agentId: socket.data.agentId,
+                                namespace: socket.data.namespace,
+                                token,
+                            });
                             continue;
                         }
 
 
-                        if (msg === 'AUTH_FAIL') {
-                            this.log('Authentication failed. Check secret.');
+                        // Bridges append the cause, e.g. AUTH_FAIL_INVALID_CREDENTIALS
+                        if (msg.startsWith('AUTH_FAIL')) {
+                            this.logger.error('Authentication failed. Check secret.', { reason: msg });
+                            this.emit('authFailed', { reason: msg });
                             socket.end();
                             return;
                         }
 
                         if (msg.startsWith('CONNECT ')) {
-                            const connId = msg.split(' ')[1];
+                            // CONNECT <connId> [<playerIp> <playerPort> <bridgeIp> <bridgePort>]
+                            const [, connId, sourceAddress, sourcePort, destinationAddress, destinationPort] = msg.split(' ');
                             if (connId) {
-                                this.handleConnectRequest(connId);
+                                const addresses = sourceAddress && sourcePort && destinationAddress && destinationPort ? {
+                                    sourceAddress,
+                                    sourcePort: Number(sourcePort),
+                                    destinationAddress,
+                                    destinationPort: Number(destinationPort),
+                                } : null;
+                                this.handleConnectRequest(connId, addresses);
                             }
                         }
                     }
                     socket.data.buffer = lines[0] ?? '';
                 },
                 close: () => {
-                    this.log('Bridge connection closed. Reconnecting in 5s...');
+                    this.logger.warn(`Bridge connection closed. Reconnecting in ${RECONNECT_DELAY_MS / 1000}s...`);
                     this.controlSocket = null;
+                    this.emit('disconnected', { reconnectInMs: RECONNECT_DELAY_MS });
                     this.scheduleReconnect();
                 },
-                error: (err) => {
-                    this.log(`Bridge connection error: ${err}`);
+                error: (socket, err) => {
+                    this.logger.error('Bridge connection error', { error: err });
                     this.controlSocket = null;
+                    this.emit('error', { error: err });
                 }
             }
         }).catch(err => {
-            this.log(`Failed to connect to bridge: ${err}`);
+            this.logger.warn('Failed to connect to bridge', { error: err });
+            this.emit('error', { error: toError(err) });
             this.scheduleReconnect();
         });
     }
@@ -145,20 +238,21 @@ export class TunnelAgent {
         this.reconnectTimer = setTimeout(() => {
             this.reconnectTimer = null;
             this.connectControl();
-        }, 5000);
+        }, RECONNECT_DELAY_MS);
     }
 
-    private handleConnectRequest(connId: string) {
+    private handleConnectRequest(connId: string, addresses: ProxyAddresses | null = null) {
+        const log = this.logger.child({ connId });
         if (this.activeConnections.size >= MAX_CONCURRENT_CONNECTIONS) {
-            this.log(`Rejected connection ${connId}: Too many active connections (${this.activeConnections.size})`);
+            log.warn(`Rejected connection: Too many active connections (${this.activeConnections.size})`);
             // Ideally tell bridge to close, but we can't easily on control channel without protocol update.
             // Just ignoring it will cause bridge to timeout eventually.
             return;
         }
 
-        this.log(`Opening tunnel for connection ${connId}...`);
+        log.debug('Opening tunnel...');
         this.activeConnections.add(connId);
-        this.stats.set(connId, { rx: 0, tx: 0 });
+        this.stats.set(connId, { startedAt: performance.now(), rx: 0, tx: 0 });
 
         // 1. Connect to Local Minecraft Server
         Bun.connect<LocalSocketData>({
@@ -167,6 +261,14 @@ export class TunnelAgent {
             socket: {
                 open: (localSocket) => {
                     localSocket.data = { buffer: [] };
+                    const startedAt = this.stats.get(connId)?.startedAt;
+                    if (startedAt !== undefined) {
+                        globalMetrics.observe('agent_local_connect_seconds', (performance.now() - startedAt) / 1000, this.metricLabels);
+                    }
+
+                    if (this.config.proxyProtocol) {
+                        localSocket.write(writeProxyHeader(this.config.proxyProtocol, addresses));
+                    }
 
                     // 2. Connect to Bridge (Data Channel)
                     Bun.connect<BridgeDataSocketData>({
@@ -181,13 +283,14 @@ export class TunnelAgent {
                                 const payload = Buffer.concat(localSocket.data.buffer);
 
                                 if (localSocket.data.buffer.length > 0) {
-                                    this.log(`Flushing ${payload.length} bytes of buffered data to bridge`);
+                                    log.debug(`Flushing ${payload.length} bytes of buffered data to bridge`);
                                     bridgeDataSocket.write(payload);
                                     this.updateStats(connId, 'tx', payload.length);
                                     localSocket.data.buffer = [];
                                 }
 
                                 bridgeDataSocket.data = { target: localSocket };
+                                this.emit('tunnelOpened', { connId });
                             },
                             data: (bridgeDataSocket, data) => {
                                 const target = bridgeDataSocket.data?.target;
@@ -198,7 +301,7 @@ export class TunnelAgent {
                             },
                             close: (bridgeDataSocket) => {
                                 const target = bridgeDataSocket.data?.target;
-                                this.log(`Bridge Data Channel closed for ${connId}`);
+                                log.debug('Bridge Data Channel closed');
                                 if (target) target.end();
                             },
                             error: (bridgeDataSocket) => {
@@ -207,7 +310,8 @@ export class TunnelAgent {
                             }
                         }
                     }).catch(err => {
-                        this.log(`Failed to connect data channel to bridge: ${err}`);
+                        log.warn('Failed to connect data channel to bridge', { error: err });
+                        this.emit('error', { error: toError(err), connId });
                         localSocket.end();
                     });
                 },
@@ -220,7 +324,7 @@ export class TunnelAgent {
                         // Check buffer limits
                         const currentSize = state.buffer.reduce((acc, c) => acc + c.length, 0);
                         if (currentSize + data.length > MAX_PENDING_BUFFER_SIZE) {
-                             this.log(`Local buffer exceeded for ${connId}, dropping connection.`);
+                             log.warn('Local buffer exceeded, dropping connection.');
                              localSocket.end();
                              return;
                         }
@@ -229,9 +333,11 @@ export class TunnelAgent {
                 },
                 close: (localSocket) => {
                     this.activeConnections.delete(connId);
-                    const finalStats = this.stats.get(connId) || {rx:0, tx:0};
-                    this.log(`Local connection ${connId} closed. Total RX(from Bridge): ${finalStats.rx}, Total TX(to Bridge): ${finalStats.tx}`);
+                    const finalStats = this.stats.get(connId) || { startedAt: performance.now(), rx: 0, tx: 0 };
+                    log.debug('Local connection closed', { rx: finalStats.rx, tx: finalStats.tx });
                     this.stats.delete(connId);
+                    this.recordSession(finalStats);
+                    this.emit('tunnelClosed', { connId, rx: finalStats.rx, tx: finalStats.tx });
                     const state = localSocket.data;
                     if (state?.target) {
                         state.target.end();
@@ -246,24 +352,33 @@ export class TunnelAgent {
                 }
             }
         }).catch(err => {
-            this.log(`Failed to connect to local Minecraft server: ${err}`);
+            log.error('Failed to connect to local Minecraft server', { error: err });
             this.activeConnections.delete(connId);
+            this.stats.delete(connId);
+            this.emit('error', { error: toError(err), connId });
         });
     }
 
-    private log(msg: string) {
-        if (this.config.debug) console.log(`[Agent] ${msg}`);
-    }
-
     // Helper to track stats per connection
-    private stats = new Map<string, { rx: number, tx: number }>();
+    private stats = new Map<string, TunnelStats>();
 
     private updateStats(connId: string, type: 'rx' | 'tx', bytes: number) {
         let stat = this.stats.get(connId);
         if (!stat) {
-            stat = { rx: 0, tx: 0 };
+            stat = { startedAt: performance.now(), rx: 0, tx: 0 };
             this.stats.set(connId, stat);
         }
         stat[type] += bytes;
     }
+
+    private recordSession(stats: TunnelStats) {
+        const labels = this.metricLabels;
+        globalMetrics.observe('agent_session_duration_seconds', (performance.now() - stats.startedAt) / 1000, labels);
+        globalMetrics.increment('agent_bytes_received_total', labels, stats.rx);
+        globalMetrics.increment('agent_bytes_sent_total', labels, stats.tx);
+    }
+}
+
+function toError(error: unknown): Error {
+    return error instanceof Error ? error : new Error(String(error));
 }
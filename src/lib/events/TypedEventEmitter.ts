@@ -0,0 +1,62 @@
+import { noopLogger, type Logger } from '../logging/Logger.js';
+
+/**
+ * Event emitter whose event names and payloads are checked at compile time.
+ * Each event carries a single payload object.
+ *
+ * Unlike node's EventEmitter an `error` event without listeners is ignored,
+ * and a listener that throws is logged instead of breaking the emitter.
+ */
+export class TypedEventEmitter<Events extends object> {
+    private listeners = new Map<keyof Events, Array<(payload: never) => void>>();
+
+    /**
+     * @param listenerLogger Receives the errors thrown by listeners
+     */
+    constructor(private listenerLogger: Logger = noopLogger) {}
+
+    on<K extends keyof Events>(event: K, listener: (payload: Events[K]) => void): this {
+        const listeners = this.listeners.get(event) ?? [];
+        listeners.push(listener);
+        this.listeners.set(event, listeners);
+        return this;
+    }
+
+    /**
+     * Adds a listener that is removed after its first call.
+     */
+    once<K extends keyof Events>(event: K, listener: (payload: Events[K]) => void): this {
+        const wrapper = (payload: Events[K]) => {
+            this.off(event, wrapper);
+            listener(payload);
+        };
+        return this.on(event, wrapper);
+    }
+
+    off<K extends keyof Events>(event: K, listener: (payload: Events[K]) => void): this {
+        const listeners = this.listeners.get(event);
+        const index = listeners?.indexOf(listener) ?? -1;
+        if (index !== -1) listeners!.splice(index, 1);
+        return this;
+    }
+
+    listenerCount(event: keyof Events): number {
+        return this.listeners.get(event)?.length ?? 0;
+    }
+
+    /**
+     * Calls the event's listeners in the order they were added.
+     */
+    protected emit<K extends keyof Events>(event: K, payload: Events[K]) {
+        const listeners = this.listeners.get(event);
+        if (!listeners) return;
+
+        for (const listener of [...listeners] as Array<(payload: Events[K]) => void>) {
+            try {
+                listener(payload);
+            } catch (error) {
+                this.listenerLogger.error(`Listener for '${String(event)}' failed`, { error });
+            }
+        }
+    }
+}
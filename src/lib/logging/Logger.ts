@@ -0,0 +1,198 @@
+import type { LogFormat, LoggingConfig, LogLevel } from '../../config/config.js';
+import { RotatingFileSink } from './RotatingFileSink.js';
+
+/** Context attached to a record, e.g. `connId`, `agentId` or `remote` */
+export type LogFields = Record<string, unknown>;
+
+export interface LogRecord {
+    time: Date;
+    level: LogLevel;
+    msg: string;
+    /** Fields of the logger and its parents, then those passed with the message */
+    fields: LogFields;
+}
+
+/**
+ * Destination of log records. Sinks format records themselves.
+ */
+export interface LogSink {
+    write(record: LogRecord): void;
+    /** Releases files or connections; writing afterwards may reopen them */
+    close?(): void;
+}
+
+/**
+ * Logging interface used by the proxy, bridge and agent. Pass your own
+ * implementation to their constructors to route logs elsewhere.
+ */
+export interface Logger {
+    trace(msg: string, fields?: LogFields): void;
+    debug(msg: string, fields?: LogFields): void;
+    info(msg: string, fields?: LogFields): void;
+    warn(msg: string, fields?: LogFields): void;
+    error(msg: string, fields?: LogFields): void;
+    /**
+     * Logger adding `fields` to every record, on top of this logger's own fields.
+     */
+    child(fields: LogFields): Logger;
+    /**
+     * Whether records of a level are written, to skip building expensive fields.
+     */
+    isLevelEnabled(level: LogLevel): boolean;
+}
+
+export const LOG_LEVELS: readonly LogLevel[] = ['trace', 'debug', 'info', 'warn', 'error'];
+
+/**
+ * Logger writing records at or above a level to a set of sinks. Children
+ * share the parent's sinks and level.
+ */
+export class StructuredLogger implements Logger {
+    private minimum: number;
+
+    constructor(
+        private sinks: LogSink[],
+        readonly level: LogLevel = 'info',
+        private fields: LogFields = {},
+    ) {
+        this.minimum = LOG_LEVELS.indexOf(level);
+        // Config values are not type-checked; an unknown level would enable everything
+        if (this.minimum === -1) {
+            throw new Error(`Unknown log level: ${level}. Expected one of ${LOG_LEVELS.join(', ')}`);
+        }
+    }
+
+    trace(msg: string, fields?: LogFields) {
+        this.write('trace', msg, fields);
+    }
+
+    debug(msg: string, fields?: LogFields) {
+        this.write('debug', msg, fields);
+    }
+
+    info(msg: string, fields?: LogFields) {
+        this.write('info', msg, fields);
+    }
+
+    warn(msg: string, fields?: LogFields) {
+        this.write('warn', msg, fields);
+    }
+
+    error(msg: string, fields?: LogFields) {
+        this.write('error', msg, fields);
+    }
+
+    child(fields: LogFields): StructuredLogger {
+        return new StructuredLogger(this.sinks, this.level, { ...this.fields, ...fields });
+    }
+
+    isLevelEnabled(level: LogLevel): boolean {
+        return LOG_LEVELS.indexOf(level) >= this.minimum;
+    }
+
+    /**
+     * Closes every sink, e.g. the log file when the server stops.
+     */
+    close() {
+        for (const sink of this.sinks) sink.close?.();
+    }
+
+    private write(level: LogLevel, msg: string, fields?: LogFields) {
+        if (!this.isLevelEnabled(level)) return;
+
+        const record: LogRecord = { time: new Date(), level, msg, fields: { ...this.fields, ...fields } };
+        for (const sink of this.sinks) {
+            try {
+                sink.write(record);
+            } catch (error) {
+                // Logging must never break the caller
+                console.error('[Logger] Sink failed:', error);
+            }
+        }
+    }
+}
+
+/**
+ * Writes each record as one line to stdout.
+ */
+export class StdoutSink implements LogSink {
+    private formatter: (record: LogRecord) => string;
+
+    constructor(format: LogFormat = 'pretty') {
+        this.formatter = formatters[format];
+    }
+
+    write(record: LogRecord) {
+        process.stdout.write(`${this.formatter(record)}\n`);
+    }
+}
+
+/**
+ * Logger that drops every record.
+ */
+export const noopLogger: Logger = {
+    trace() {},
+    debug() {},
+    info() {},
+    warn() {},
+    error() {},
+    child() {
+        return noopLogger;
+    },
+    isLevelEnabled() {
+        return false;
+    },
+};
+
+/**
+ * Builds a logger from config. Without a level, `debug` selects `debug` over `info`.
+ */
+export function createLogger(config: LoggingConfig = {}, debug = false): StructuredLogger {
+    const format = config.format ?? 'pretty';
+    const sinks: LogSink[] = [];
+    if (config.stdout !== false) sinks.push(new StdoutSink(format));
+    if (config.file) sinks.push(new RotatingFileSink(config.file, formatters[config.file.format ?? format]));
+
+    return new StructuredLogger(sinks, config.level ?? (debug ? 'debug' : 'info'));
+}
+
+/**
+ * One JSON object per line: `time`, `level`, `msg`, then the fields.
+ * Errors are written as `{ name, message, stack }`.
+ */
+export function formatJson(record: LogRecord): string {
+    return JSON.stringify(
+        { time: record.time.toISOString(), level: record.level, msg: record.msg, ...record.fields },
+        (_key, value) => value instanceof Error
+            ? { name: value.name, message: value.message, stack: value.stack }
+            : typeof value === 'bigint' ? value.toString() : value,
+    );
+}
+
+/**
+ * Human-readable line, e.g. `2025-01-01T12:00:00.000Z INFO  [Proxy] Client closed connId=3`.
+ * The `component` field becomes the bracketed prefix.
+ */
+export function formatPretty(record: LogRecord): string {
+    const { component, ...fields } = record.fields;
+    const parts = [record.time.toISOString(), record.level.toUpperCase().padEnd(5)];
+    if (component !== undefined) parts.push(`[${String(component)}]`);
+    parts.push(record.msg);
+
+    for (const [key, value] of Object.entries(fields)) {
+        if (value !== undefined) parts.push(`${key}=${formatValue(value)}`);
+    }
+    return parts.join(' ');
+}
+
+const formatters: Record<LogFormat, (record: LogRecord) => string> = {
+    json: formatJson,
+    pretty: formatPretty,
+};
+
+function formatValue(value: unknown): string {
+    if (value instanceof Error) return JSON.stringify(value.message);
+    if (typeof value === 'string') return /^[^\s"=]+$/.test(value) ? value : JSON.stringify(value);
+    if (typeof value === 'object' && value !== null) return JSON.stringify(value);
+    return String(value);
+}
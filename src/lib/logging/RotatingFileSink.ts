@@ -0,0 +1,67 @@
+import { closeSync, existsSync, fstatSync, mkdirSync, openSync, renameSync, rmSync, writeSync } from 'fs';
+import { dirname } from 'path';
+import type { LogFileConfig } from '../../config/config.js';
+import type { LogRecord, LogSink } from './Logger.js';
+
+const DEFAULT_MAX_BYTES = 10 * 1024 * 1024;
+const DEFAULT_MAX_FILES = 5;
+
+/**
+ * Appends formatted records to a file, rotating it by size.
+ *
+ * Writes are synchronous so lines are never reordered or lost on exit. The
+ * file is opened on the first write, and again after `close`.
+ */
+export class RotatingFileSink implements LogSink {
+    private fd: number | null = null;
+    private size = 0;
+    private maxBytes: number;
+    private maxFiles: number;
+
+    constructor(private config: LogFileConfig, private format: (record: LogRecord) => string) {
+        this.maxBytes = config.maxBytes ?? DEFAULT_MAX_BYTES;
+        this.maxFiles = config.maxFiles ?? DEFAULT_MAX_FILES;
+    }
+
+    write(record: LogRecord) {
+        const line = Buffer.from(`${this.format(record)}\n`);
+        if (this.fd === null) this.open();
+        // A line longer than maxBytes still goes into a file of its own
+        if (this.size > 0 && this.size + line.length > this.maxBytes) this.rotate();
+
+        writeSync(this.fd!, line);
+        this.size += line.length;
+    }
+
+    close() {
+        if (this.fd === null) return;
+        closeSync(this.fd);
+        this.fd = null;
+    }
+
+    private open() {
+        mkdirSync(dirname(this.config.path), { recursive: true });
+        this.fd = openSync(this.config.path, 'a');
+        this.size = fstatSync(this.fd).size;
+    }
+
+    /**
+     * Shifts `path.N` to `path.N+1`, dropping files beyond `maxFiles`, and starts an empty file.
+     */
+    private rotate() {
+        this.close();
+        const path = this.config.path;
+
+        if (this.maxFiles > 0) {
+            rmSync(`${path}.${this.maxFiles}`, { force: true });
+            for (let i = this.maxFiles - 1; i >= 1; i--) {
+                if (existsSync(`${path}.${i}`)) renameSync(`${path}.${i}`, `${path}.${i + 1}`);
+            }
+            renameSync(path, `${path}.1`);
+        } else {
+            rmSync(path, { force: true });
+        }
+
+        this.open();
+    }
+}
@@ -1,4 +1,3 @@
-
 export type MetricType = 'counter' | 'gauge' | 'histogram';
 
 export interface MetricDefinition {
@@ -8,47 +7,222 @@ export interface MetricDefinition {
     labels?: string[];
 }
 
+/** Observations of one histogram label set */
+export interface HistogramValue {
+    /** Observations per bucket, not cumulative; the last entry counts values above every bound */
+    counts: number[];
+    sum: number;
+    count: number;
+}
+
+/** State of a counter or gauge, as returned by `getMetrics` */
+export interface ScalarMetricSnapshot {
+    type: 'counter' | 'gauge';
+    help: string;
+    labels: string[];
+    /** Values by label key */
+    values: ReadonlyMap<string, number>;
+}
+
+/** State of a histogram, as returned by `getMetrics` */
+export interface HistogramMetricSnapshot {
+    type: 'histogram';
+    help: string;
+    labels: string[];
+    /** Upper bounds, sorted ascending */
+    buckets: number[];
+    /** Observations by label key */
+    values: ReadonlyMap<string, HistogramValue>;
+}
+
+export type MetricSnapshot = ScalarMetricSnapshot | HistogramMetricSnapshot;
+
+interface BaseMetric {
+    help: string;
+    labels: string[];
+    /** Label values of each series, by label key */
+    labelSets: Map<string, Record<string, string>>;
+}
+
+interface ScalarMetric extends BaseMetric {
+    type: 'counter' | 'gauge';
+    values: Map<string, number>;
+}
+
+interface HistogramMetric extends BaseMetric {
+    type: 'histogram';
+    /** Upper bounds, sorted ascending */
+    buckets: number[];
+    values: Map<string, HistogramValue>;
+}
+
+type Metric = ScalarMetric | HistogramMetric;
+
+/** Default histogram bounds, in seconds, for latencies */
+export const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+/** Histogram bounds, in seconds, for player sessions */
+export const SESSION_BUCKETS = [1, 10, 30, 60, 300, 900, 1800, 3600, 7200, 14400];
+
+/**
+ * Counters, gauges and histograms, exported in the Prometheus text format.
+ *
+ * Updates to metrics that were never registered are ignored, so components
+ * can report unconditionally. Registering a name again keeps its values.
+ */
 export class MetricsRegistry {
-    private metrics = new Map<string, any>();
+    private metrics = new Map<string, Metric>();
 
     registerCounter(name: string, help: string, labels: string[] = []) {
-        this.metrics.set(name, { type: 'counter', help, labels, value: 0, values: new Map<string, number>() });
+        this.register(name, { type: 'counter', help, labels, labelSets: new Map(), values: new Map() });
     }
 
     registerGauge(name: string, help: string, labels: string[] = []) {
-        this.metrics.set(name, { type: 'gauge', help, labels, value: 0, values: new Map<string, number>() });
+        this.register(name, { type: 'gauge', help, labels, labelSets: new Map(), values: new Map() });
     }
 
-    registerHistogram(name: string, help: string, labels: string[] = [], buckets: number[] = [0.1, 0.5, 1, 5, 10]) {
-        this.metrics.set(name, { type: 'histogram', help, labels, buckets, values: new Map<string, number[]>() });
+    registerHistogram(name: string, help: string, labels: string[] = [], buckets: number[] = DEFAULT_BUCKETS) {
+        const sorted = [...new Set(buckets)].filter((bound) => bound !== Infinity).sort((a, b) => a - b);
+        this.register(name, { type: 'histogram', help, labels, buckets: sorted, labelSets: new Map(), values: new Map() });
     }
 
+    /**
+     * Adds to a counter or gauge. Counters only go up; use a gauge for values that fall.
+     */
     increment(name: string, labels: Record<string, string> = {}, value: number = 1) {
         const metric = this.metrics.get(name);
-        if (!metric || metric.type !== 'counter') return;
-        
-        const key = this.getLabelKey(labels);
-        const current = metric.values.get(key) || 0;
-        metric.values.set(key, current + value);
+        if (!metric || metric.type === 'histogram') return;
+        if (metric.type === 'counter' && value < 0) {
+            throw new Error(`Counter ${name} cannot be decreased`);
+        }
+
+        const key = this.track(metric, labels);
+        metric.values.set(key, (metric.values.get(key) ?? 0) + value);
+    }
+
+    /**
+     * Subtracts from a gauge.
+     */
+    decrement(name: string, labels: Record<string, string> = {}, value: number = 1) {
+        const metric = this.metrics.get(name);
+        if (!metric || metric.type !== 'gauge') return;
+
+        const key = this.track(metric, labels);
+        metric.values.set(key, (metric.values.get(key) ?? 0) - value);
     }
 
     set(name: string, value: number, labels: Record<string, string> = {}) {
         const metric = this.metrics.get(name);
         if (!metric || metric.type !== 'gauge') return;
 
-        const key = this.getLabelKey(labels);
+        const key = this.track(metric, labels);
         metric.values.set(key, value);
     }
 
+    /**
+     * Records a histogram observation in the first bucket whose bound is at least `value`.
+     */
     observe(name: string, value: number, labels: Record<string, string> = {}) {
-        // Simplified histogram
         const metric = this.metrics.get(name);
         if (!metric || metric.type !== 'histogram') return;
-         // In a real impl, we'd bucket this
+
+        const key = this.track(metric, labels);
+        let entry = metric.values.get(key);
+        if (!entry) {
+            entry = { counts: new Array(metric.buckets.length + 1).fill(0), sum: 0, count: 0 };
+            metric.values.set(key, entry);
+        }
+
+        const index = metric.buckets.findIndex((bound) => value <= bound);
+        entry.counts[index === -1 ? metric.buckets.length : index]!++;
+        entry.sum += value;
+        entry.count++;
+    }
+
+    /**
+     * Removes every series of a metric, e.g. for gauges whose label values went away.
+     */
+    reset(name: string) {
+        const metric = this.metrics.get(name);
+        metric?.values.clear();
+        metric?.labelSets.clear();
+    }
+
+    /**
+     * Copy of every metric by name; `values` maps label keys such as `backend=host:port` to values.
+     */
+    getMetrics(): Record<string, MetricSnapshot> {
+        const snapshot: Record<string, MetricSnapshot> = {};
+        for (const [name, metric] of this.metrics) {
+            const { help, labels } = metric;
+            snapshot[name] = metric.type === 'histogram'
+                ? {
+                    type: 'histogram',
+                    help,
+                    labels: [...labels],
+                    buckets: [...metric.buckets],
+                    values: new Map([...metric.values].map(([key, entry]) => [key, { ...entry, counts: [...entry.counts] }])),
+                }
+                : { type: metric.type, help, labels: [...labels], values: new Map(metric.values) };
+        }
+        return snapshot;
+    }
+
+    /**
+     * Serializes every metric in the Prometheus text exposition format (version 0.0.4).
+     */
+    toPrometheusText(): string {
+        const lines: string[] = [];
+
+        for (const [name, metric] of this.metrics) {
+            lines.push(`# HELP ${name} ${metric.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`);
+            lines.push(`# TYPE ${name} ${metric.type}`);
+
+            if (metric.type === 'histogram') {
+                for (const [key, entry] of metric.values) {
+                    const labels = metric.labelSets.get(key) ?? {};
+                    let cumulative = 0;
+                    metric.buckets.forEach((bound, i) => {
+                        cumulative += entry.counts[i]!;
+                        lines.push(`${name}_bucket${formatLabels({ ...labels, le: formatNumber(bound) })} ${cumulative}`);
+                    });
+                    lines.push(`${name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${entry.count}`);
+                    lines.push(`${name}_sum${formatLabels(labels)} ${formatNumber(entry.sum)}`);
+                    lines.push(`${name}_count${formatLabels(labels)} ${entry.count}`);
+                }
+                continue;
+            }
+
+            // Unlabelled series exist from the start, like in other Prometheus clients
+            if (metric.values.size === 0 && metric.labels.length === 0) {
+                lines.push(`${name} 0`);
+            }
+            for (const [key, value] of metric.values) {
+                lines.push(`${name}${formatLabels(metric.labelSets.get(key) ?? {})} ${formatNumber(value)}`);
+            }
+        }
+
+        return lines.length > 0 ? `${lines.join('\n')}\n` : '';
+    }
+
+    private register(name: string, metric: Metric) {
+        const existing = this.metrics.get(name);
+        if (existing) {
+            if (existing.type !== metric.type) {
+                throw new Error(`Metric ${name} is already registered as a ${existing.type}`);
+            }
+            return;
+        }
+        this.metrics.set(name, metric);
     }
 
-    getMetrics() {
-        return Object.fromEntries(this.metrics);
+    /**
+     * Returns the key of a label set, remembering its values for serialization.
+     */
+    private track(metric: Metric, labels: Record<string, string>): string {
+        const key = this.getLabelKey(labels);
+        if (!metric.labelSets.has(key)) metric.labelSets.set(key, { ...labels });
+        return key;
     }
 
     private getLabelKey(labels: Record<string, string>): string {
@@ -56,4 +230,18 @@ export class MetricsRegistry {
     }
 }
 
+function formatLabels(labels: Record<string, string>): string {
+    const entries = Object.entries(labels);
+    if (entries.length === 0) return '';
+    const escaped = entries.map(([key, value]) =>
+        `${key}="${value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"')}"`);
+    return `{${escaped.join(',')}}`;
+}
+
+function formatNumber(value: number): string {
+    if (value === Infinity) return '+Inf';
+    if (value === -Infinity) return '-Inf';
+    return String(value);
+}
+
 export const globalMetrics = new MetricsRegistry();
@@ -0,0 +1,46 @@
+import type { Server } from 'bun';
+import type { MetricsEndpointConfig } from '../../config/config.js';
+import { globalMetrics, type MetricsRegistry } from './MetricsRegistry.js';
+
+const CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+/**
+ * HTTP listener serving a registry in the Prometheus text format.
+ */
+export class MetricsServer {
+    private server: Server<undefined> | null = null;
+
+    constructor(
+        private config: MetricsEndpointConfig,
+        private registry: MetricsRegistry = globalMetrics,
+    ) {}
+
+    /** Port the listener is bound to, useful when `port` is 0 */
+    get port(): number | undefined {
+        return this.server?.port;
+    }
+
+    start() {
+        if (this.server) return;
+        const path = this.config.path ?? '/metrics';
+
+        this.server = Bun.serve({
+            hostname: this.config.host ?? '0.0.0.0',
+            port: this.config.port,
+            fetch: (request) => {
+                if (new URL(request.url).pathname !== path) {
+                    return new Response('Not Found', { status: 404 });
+                }
+                if (request.method !== 'GET' && request.method !== 'HEAD') {
+                    return new Response('Method Not Allowed', { status: 405, headers: { Allow: 'GET, HEAD' } });
+                }
+                return new Response(this.registry.toPrometheusText(), { headers: { 'Content-Type': CONTENT_TYPE } });
+            },
+        });
+    }
+
+    stop() {
+        this.server?.stop(true);
+        this.server = null;
+    }
+}
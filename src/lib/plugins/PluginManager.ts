@@ -0,0 +1,205 @@
+import { isAbsolute, resolve } from 'path';
+import { pathToFileURL } from 'url';
+import type { ProxyServer } from '../../core/ProxyServer.js';
+import type { ProxyMiddleware } from '../../core/MiddlewarePipeline.js';
+import type { BridgeServerEnhanced } from '../bridge/BridgeServerEnhanced.js';
+import type { MetricsRegistry } from '../metrics/MetricsRegistry.js';
+import { noopLogger, type Logger } from '../logging/Logger.js';
+
+/**
+ * What a plugin can reach. Only the server the binary runs is set.
+ */
+export interface PluginContext {
+    proxy?: ProxyServer;
+    bridge?: BridgeServerEnhanced;
+    metrics: MetricsRegistry;
+}
+
+/**
+ * A player connection seen by the proxy or the bridge.
+ */
+export interface PluginPlayer {
+    /** Unique per connection, the same in `onPlayerConnect` and `onPlayerDisconnect` */
+    id: string;
+    /** Missing only for transports that do not expose the peer address */
+    remoteAddress?: string;
+    /** Address the player typed into their client */
+    serverAddress?: string;
+    /** Set on the proxy, which reads Login Start */
+    username?: string;
+    uuid?: string;
+    /** Set on the bridge: the agent the player is tunnelled to */
+    agentId?: string;
+}
+
+/**
+ * An agent that authenticated with the bridge.
+ */
+export interface PluginAgent {
+    agentId: string;
+    /** Set when the agent authenticated with a token */
+    namespace?: string;
+    remoteAddress: string;
+}
+
+/**
+ * Object exported by a plugin module, as its default export or as `plugin`.
+ * Every hook is optional and may be async. Errors thrown by `init` stop the
+ * binary from starting; errors from the other hooks are logged.
+ */
+export interface Plugin {
+    name: string;
+    /** Runs before the server starts listening */
+    init?(context: PluginContext): void | Promise<void>;
+    /** A player started logging in through the proxy, or was routed to an agent by the bridge */
+    onPlayerConnect?(player: PluginPlayer, context: PluginContext): void | Promise<void>;
+    onPlayerDisconnect?(player: PluginPlayer, context: PluginContext): void | Promise<void>;
+    /** Bridge only */
+    onAgentConnect?(agent: PluginAgent, context: PluginContext): void | Promise<void>;
+    /** Runs when the binary shuts down, in reverse load order */
+    shutdown?(context: PluginContext): void | Promise<void>;
+}
+
+/** Key of the player info kept in the middleware state of each proxied connection */
+const PLAYER_STATE_KEY = 'plugins.player';
+
+/**
+ * Loads plugin modules and runs their lifecycle hooks.
+ */
+export class PluginManager {
+    private plugins: Plugin[] = [];
+    private context: PluginContext | null = null;
+    private nextPlayerId = 1;
+
+    /**
+     * @param logger Receives the errors thrown by plugin hooks
+     */
+    constructor(private logger: Logger = noopLogger) {}
+
+    /**
+     * Imports plugin modules. Relative paths are resolved against `baseDir`,
+     * anything else is imported as a package name.
+     */
+    static async load(paths: string[], baseDir = process.cwd(), logger: Logger = noopLogger): Promise<PluginManager> {
+        const manager = new PluginManager(logger);
+        for (const path of paths) {
+            const specifier = path.startsWith('.') || isAbsolute(path)
+                ? pathToFileURL(resolve(baseDir, path)).href
+                : path;
+
+            let module: Record<string, unknown>;
+            try {
+                module = await import(specifier);
+            } catch (error) {
+                throw new Error(`Failed to load plugin ${path}: ${error instanceof Error ? error.message : String(error)}`);
+            }
+
+            const plugin = module['default'] ?? module['plugin'];
+            if (!isPlugin(plugin)) {
+                throw new Error(`Plugin ${path} must export a plugin object with a name`);
+            }
+            manager.add(plugin);
+        }
+        return manager;
+    }
+
+    /**
+     * Registers a plugin directly. Must be called before `init`.
+     */
+    add(plugin: Plugin) {
+        if (this.context) throw new Error('Plugins are already initialised');
+        this.plugins.push(plugin);
+    }
+
+    get names(): string[] {
+        return this.plugins.map((plugin) => plugin.name);
+    }
+
+    /**
+     * Connects the plugins to the running server and calls every `init` in load order.
+     */
+    async init(context: PluginContext) {
+        if (this.context) throw new Error('Plugins are already initialised');
+        this.context = context;
+
+        context.proxy?.use(this.createMiddleware());
+        context.bridge
+            ?.on('agentAuthenticated', (agent) => this.emit('onAgentConnect', agent))
+            .on('playerRouted', (player) => this.emit('onPlayerConnect', { ...player, id: player.connId }))
+            .on('playerDisconnected', (player) => this.emit('onPlayerDisconnect', { ...player, id: player.connId }));
+
+        for (const plugin of this.plugins) {
+            await plugin.init?.(context);
+        }
+    }
+
+    /**
+     * Calls every `shutdown` hook in reverse load order. Errors are logged so
+     * each plugin gets the chance to clean up.
+     */
+    async shutdown() {
+        const context = this.context;
+        if (!context) return;
+        this.context = null;
+
+        for (const plugin of [...this.plugins].reverse()) {
+            try {
+                await plugin.shutdown?.(context);
+            } catch (error) {
+                this.logger.error(`${plugin.name} failed to shut down`, { error });
+            }
+        }
+    }
+
+    /**
+     * Proxy middleware reporting logins and their disconnects to the plugins.
+     */
+    private createMiddleware(): ProxyMiddleware {
+        return {
+            name: 'plugins',
+            onLoginStart: (loginStart, context) => {
+                const player: PluginPlayer = {
+                    id: String(this.nextPlayerId++),
+                    remoteAddress: context.client.remoteAddress,
+                    serverAddress: context.handshake?.serverAddress,
+                    username: loginStart.username,
+                    uuid: loginStart.uuid,
+                };
+                context.state.set(PLAYER_STATE_KEY, player);
+                this.emit('onPlayerConnect', player);
+            },
+            onClose: (context) => {
+                const player = context.state.get(PLAYER_STATE_KEY) as PluginPlayer | undefined;
+                if (player) this.emit('onPlayerDisconnect', player);
+            },
+        };
+    }
+
+    /**
+     * Calls a hook on every plugin without waiting for it. Failures are logged.
+     */
+    private emit<K extends 'onPlayerConnect' | 'onPlayerDisconnect' | 'onAgentConnect'>(
+        hook: K,
+        value: Parameters<NonNullable<Plugin[K]>>[0],
+    ) {
+        const context = this.context;
+        if (!context) return;
+
+        for (const plugin of this.plugins) {
+            const handler = plugin[hook] as ((value: unknown, context: PluginContext) => void | Promise<void>) | undefined;
+            if (!handler) continue;
+
+            const report = (error: unknown) => this.logger.error(`${plugin.name} failed in ${hook}`, { error });
+            try {
+                Promise.resolve(handler.call(plugin, value, context)).catch(report);
+            } catch (error) {
+                report(error);
+            }
+        }
+    }
+}
+
+function isPlugin(value: unknown): value is Plugin {
+    return typeof value === 'object' && value !== null
+        && typeof (value as Plugin).name === 'string';
+}
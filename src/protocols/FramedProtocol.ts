@@ -0,0 +1,231 @@
+import { deflateSync, inflateSync } from 'node:zlib';
+import type { Protocol, Packet } from './Protocol';
+import { readFrame } from '../core/packet';
+import { parseHandshake } from '../core/handshake';
+import { readVarIntSync, writeVarIntSync, varIntLength } from '../core/varint';
+
+/**
+ * Connection states of the Minecraft protocol. Packet IDs are only unique within a state.
+ */
+export type ConnectionState = 'handshaking' | 'status' | 'login' | 'configuration' | 'play';
+
+/**
+ * Which side sent the packets being decoded.
+ */
+export type PacketDirection = 'serverbound' | 'clientbound';
+
+/**
+ * A decoded frame, before any packet-specific parsing.
+ */
+export interface FramedPacket {
+    state: ConnectionState;
+    id: number;
+    payload: Uint8Array;
+}
+
+/**
+ * Parses a packet's payload. The result becomes the `data` of the returned `Packet`.
+ */
+export type PacketHandler = (packet: FramedPacket, codec: FramedProtocol) => unknown;
+
+export interface FramedProtocolOptions {
+    /** Direction of the decoded stream (default: serverbound) */
+    direction?: PacketDirection;
+    /** Initial state (default: handshaking) */
+    state?: ConnectionState;
+    /**
+     * Protocol version, read from the handshake when decoding serverbound packets.
+     * Set it for clientbound streams so login and configuration are followed correctly.
+     */
+    protocolVersion?: number;
+    /** Largest accepted frame, in bytes (default: 2097151) */
+    maxPacketLength?: number;
+}
+
+/** Largest uncompressed packet vanilla accepts */
+const MAX_UNCOMPRESSED_LENGTH = 8388608;
+
+/** 1.20.2 - adds the configuration state */
+const PROTOCOL_1_20_2 = 764;
+/** 1.20.5 - Finish Configuration moves from 0x02 to 0x03 */
+const PROTOCOL_1_20_5 = 766;
+
+const LOGIN_SUCCESS_ID = 0x02;
+const SET_COMPRESSION_ID = 0x03;
+const LOGIN_ACKNOWLEDGED_ID = 0x03;
+
+const NEXT_STATES: Record<number, ConnectionState> = { 1: 'status', 2: 'login', 3: 'login' };
+
+/** Clientbound Start Configuration (play) by the protocol version it was introduced or moved in, newest first */
+const START_CONFIGURATION_IDS: Array<[protocol: number, id: number]> = [
+    [770, 0x6F], // 1.21.5
+    [768, 0x70], // 1.21.2
+    [766, 0x69], // 1.20.5
+    [765, 0x67], // 1.20.3
+    [PROTOCOL_1_20_2, 0x65],
+];
+
+/**
+ * Length-prefixed packet codec with compression support.
+ *
+ * Frames are decoded according to the current state and compression threshold.
+ * Each instance only sees one direction, so it only tracks the packets of that
+ * direction that change either:
+ * - clientbound: Set Compression, Login Success, Finish Configuration and
+ *   Start Configuration (back from play to configuration)
+ * - serverbound: the handshake, Login Acknowledged and the acknowledgement of
+ *   Finish Configuration
+ *
+ * A serverbound instance never sees Set Compression or Login Success. Callers
+ * decoding both directions call `setCompression` on it when the clientbound
+ * instance turns compression on, and set `state` when the clientbound instance
+ * moves to play before 1.20.2 or back to configuration.
+ */
+export class FramedProtocol implements Protocol {
+    state: ConnectionState;
+    protocolVersion: number;
+    /** Packets at least this large are compressed; -1 while compression is off */
+    compressionThreshold = -1;
+
+    private readonly direction: PacketDirection;
+    private readonly maxPacketLength: number;
+    private handlers = new Map<string, PacketHandler>();
+
+    constructor(options: FramedProtocolOptions = {}) {
+        this.direction = options.direction ?? 'serverbound';
+        this.state = options.state ?? 'handshaking';
+        this.protocolVersion = options.protocolVersion ?? -1;
+        this.maxPacketLength = options.maxPacketLength ?? 2097151;
+    }
+
+    /**
+     * Registers a parser for a packet ID in a state, replacing any previous one.
+     */
+    on(state: ConnectionState, id: number, handler: PacketHandler): this {
+        this.handlers.set(`${state}:${id}`, handler);
+        return this;
+    }
+
+    /**
+     * Enables compression for packets of at least `threshold` bytes; a negative value disables it.
+     */
+    setCompression(threshold: number) {
+        this.compressionThreshold = threshold;
+    }
+
+    /**
+     * Decodes one packet. `data` is the registered handler's result, or the
+     * `FramedPacket` itself when no handler is registered for it.
+     */
+    parse(buffer: Uint8Array): Packet | null {
+        const frame = readFrame(buffer, 0, this.maxPacketLength);
+        if (!frame) return null;
+
+        const body = this.decompress(frame.body);
+        const id = readVarIntSync(body, 0);
+        const packet: FramedPacket = { state: this.state, id: id.value, payload: body.subarray(id.offset) };
+
+        const handler = this.handlers.get(`${packet.state}:${packet.id}`);
+        const data = handler ? handler(packet, this) : packet;
+
+        this.track(packet, body);
+
+        return { size: frame.size, id: packet.id, data };
+    }
+
+    /**
+     * Encodes a packet with the current compression settings.
+     */
+    encode(id: number, payload: Uint8Array = new Uint8Array()): Uint8Array {
+        const body = new Uint8Array(varIntLength(id) + payload.length);
+        body.set(payload, writeVarIntSync(body, id, 0));
+
+        if (this.compressionThreshold < 0) {
+            return prefixLength(body);
+        }
+
+        if (body.length < this.compressionThreshold) {
+            // Data Length 0 marks an uncompressed packet
+            const framed = new Uint8Array(1 + body.length);
+            framed[0] = 0;
+            framed.set(body, 1);
+            return prefixLength(framed);
+        }
+
+        const compressed = deflateSync(body);
+        const framed = new Uint8Array(varIntLength(body.length) + compressed.length);
+        framed.set(compressed, writeVarIntSync(framed, body.length, 0));
+        return prefixLength(framed);
+    }
+
+    private decompress(frame: Uint8Array): Uint8Array {
+        if (this.compressionThreshold < 0) return frame;
+
+        const dataLength = readVarIntSync(frame, 0);
+        const rest = frame.subarray(dataLength.offset);
+        if (dataLength.value === 0) return rest;
+
+        if (dataLength.value < this.compressionThreshold) {
+            throw new Error(`Compressed packet below threshold: ${dataLength.value}`);
+        }
+        if (dataLength.value > MAX_UNCOMPRESSED_LENGTH) {
+            throw new Error(`Compressed packet too large: ${dataLength.value}`);
+        }
+
+        const body = new Uint8Array(inflateSync(rest, { maxOutputLength: dataLength.value }));
+        if (body.length !== dataLength.value) {
+            throw new Error(`Decompressed ${body.length} bytes, expected ${dataLength.value}`);
+        }
+        return body;
+    }
+
+    /**
+     * Follows state and compression changes caused by a packet.
+     */
+    private track(packet: FramedPacket, body: Uint8Array) {
+        const serverbound = this.direction === 'serverbound';
+
+        switch (packet.state) {
+            case 'handshaking':
+                if (serverbound && packet.id === 0x00) {
+                    const { handshake } = parseHandshake(prefixLength(body));
+                    this.protocolVersion = handshake.protocolVersion;
+                    this.state = NEXT_STATES[handshake.nextState] ?? this.state;
+                }
+                break;
+            case 'login':
+                if (!serverbound && packet.id === SET_COMPRESSION_ID) {
+                    this.setCompression(readVarIntSync(packet.payload, 0).value);
+                } else if (!serverbound && packet.id === LOGIN_SUCCESS_ID) {
+                    // From 1.20.2 the server sends nothing more until Login Acknowledged
+                    this.state = this.protocolVersion >= PROTOCOL_1_20_2 ? 'configuration' : 'play';
+                } else if (serverbound && packet.id === LOGIN_ACKNOWLEDGED_ID) {
+                    this.state = 'configuration';
+                }
+                break;
+            case 'play':
+                if (!serverbound && packet.id === startConfigurationId(this.protocolVersion)) {
+                    this.state = 'configuration';
+                }
+                break;
+            case 'configuration': {
+                // Finish Configuration (clientbound) and its acknowledgement (serverbound) share an ID
+                const finishId = this.protocolVersion >= PROTOCOL_1_20_5 ? 0x03 : 0x02;
+                if (packet.id === finishId) {
+                    this.state = 'play';
+                }
+                break;
+            }
+        }
+    }
+}
+
+function startConfigurationId(protocolVersion: number): number | undefined {
+    return START_CONFIGURATION_IDS.find(([protocol]) => protocolVersion >= protocol)?.[1];
+}
+
+function prefixLength(body: Uint8Array): Uint8Array {
+    const framed = new Uint8Array(varIntLength(body.length) + body.length);
+    framed.set(body, writeVarIntSync(framed, body.length, 0));
+    return framed;
+}
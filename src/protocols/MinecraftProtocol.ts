@@ -1,38 +1,51 @@
 import type { Protocol, Packet } from './Protocol';
-import { parseHandshake } from '../core/handshake';
+import { ChunkBuffer } from '../core/ChunkBuffer';
+import type { DecodeResult } from '../core/packet';
+import { decodeHandshake } from '../core/handshake';
+import { parseLoginStart } from '../core/login';
+import { parseLegacyPing, LEGACY_PING_ID } from '../core/legacy-ping';
 export class MinecraftProtocol implements Protocol {
     parse(buffer: Uint8Array): Packet | null {
-        try {
-            // We use the existing logic which throws if incomplete?
-            // Wait, existing parseHandshake logic:
-            // "Assumes the buffer contains the entire handshake packet starting at offset 0."
-            // But it doesn't explicitly check if buffer has enough bytes before reading, likely throwing RangeError or similar if accessing out of bounds, 
-            // OR varint reading throws if incomplete?
-            
-            // Let's look at varint.ts if possible, but safe assumption is try-catch.
-            // However, we need to distinguish "Not enough data" vs "Invalid data".
-            
-            // For now, let's wrap and catch.
-            const result = parseHandshake(buffer);
-            return {
-                size: result.bytesRead,
-                id: result.handshake.packetId, // 0x00
-                data: result.handshake
-            };
-        } catch (error: any) {
-            // Check if error implies "not enough bytes"
-            // The existing varint.ts likely throws or returns partial?
-            // If I look at handler code:
-            // if (error.message === 'Buffer too short') return;
-            
-            if (error.message && (
-                error.message.includes('Buffer too short') || 
-                error.message.includes('Offset is outside the bounds') ||
-                error.message.includes('out of bounds')
-            )) {
-                return null;
+        const chunks = new ChunkBuffer();
+        chunks.push(buffer);
+
+        const result = this.decode(chunks);
+        if (result.status === 'invalid') throw new Error(result.reason);
+        return result.status === 'packet' ? result.packet : null;
+    }
+
+    decode(buffer: ChunkBuffer, complete = false): DecodeResult<Packet> {
+        // Pre-1.7 clients and server list scanners send a 0xFE legacy ping instead of a handshake
+        if (buffer.byteAt(0) === LEGACY_PING_ID) {
+            try {
+                const legacy = parseLegacyPing(buffer.peek(), complete);
+                if (!legacy) return { status: 'incomplete' };
+                return {
+                    status: 'packet',
+                    size: legacy.bytesRead,
+                    packet: { size: legacy.bytesRead, id: LEGACY_PING_ID, data: legacy.ping },
+                };
+            } catch (error) {
+                return { status: 'invalid', reason: error instanceof Error ? error.message : String(error) };
             }
-            throw error;
         }
+
+        const result = decodeHandshake(buffer);
+        if (result.status !== 'packet') return result;
+        return {
+            status: 'packet',
+            size: result.size,
+            packet: { size: result.size, id: result.packet.packetId, data: result.packet },
+        };
+    }
+
+    parseLoginStart(buffer: Uint8Array, protocolVersion: number): Packet | null {
+        const result = parseLoginStart(buffer, protocolVersion);
+        if (!result) return null;
+        return {
+            size: result.bytesRead,
+            id: 0x00,
+            data: result.loginStart
+        };
     }
 }
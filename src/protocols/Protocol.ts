@@ -1,3 +1,6 @@
+import type { ChunkBuffer } from '../core/ChunkBuffer';
+import type { DecodeResult } from '../core/packet';
+
 
 export interface Packet {
     size: number;
@@ -12,4 +15,20 @@ export interface Protocol {
      * Throws error if data is invalid for this protocol.
      */
     parse(buffer: Uint8Array): Packet | null;
+
+    /**
+     * Optional incremental form of `parse` for data that arrives in chunks.
+     * `ProxyServer` prefers it, since it can report `incomplete` without
+     * joining the buffered chunks. `complete` is set when the client sent
+     * nothing more for a while, so a packet that may still grow (a lone legacy
+     * ping byte) can be accepted as it is.
+     */
+    decode?(buffer: ChunkBuffer, complete?: boolean): DecodeResult<Packet>;
+
+    /**
+     * Optionally parses the packet that follows a login handshake (Login Start
+     * for Minecraft), so the proxy can identify the player before connecting.
+     * Same return/throw contract as `parse`.
+     */
+    parseLoginStart?(buffer: Uint8Array, protocolVersion: number): Packet | null;
 }
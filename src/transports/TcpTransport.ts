@@ -1,13 +1,34 @@
 import type { Transport, Connection } from './Transport';
 import type { Socket, Server } from 'bun';
+import { isProxyHeaderPrefix, parseProxyHeader, type ProxyAddresses } from '../core/proxy-protocol';
+import { ipMatchesAny } from '../utils/cidr';
+import { noopLogger, type Logger } from '../lib/logging/Logger';
+
+const PROXY_HEADER_TIMEOUT_MS = 5000;
+const MAX_PROXY_HEADER_SIZE = 16 + 65535;
 
 interface TcpSocketData {
     connection: TcpConnection;
     listeners?: Record<string, Function[]>;
+    /** Bytes received from a trusted proxy before its PROXY header is complete */
+    pendingHeader?: Uint8Array;
+    headerTimeout?: Timer;
+}
+
+export interface TcpTransportOptions {
+    /**
+     * Addresses or CIDR ranges of load balancers allowed to send a PROXY header.
+     * Connections from these sources are only reported once the header is read.
+     */
+    trustedProxies?: string[];
+    logger?: Logger;
 }
 
 export class TcpConnection implements Connection {
     public data: Record<string, unknown> = {};
+    /** Client addresses taken from a PROXY header */
+    private proxied: ProxyAddresses | null = null;
+
     constructor(private socket: Socket<TcpSocketData>) {}
 
     write(data: Uint8Array): void {
@@ -44,11 +65,29 @@ export class TcpConnection implements Connection {
     }
 
     get remoteAddress() {
-        return this.socket.remoteAddress;
+        return this.proxied?.sourceAddress ?? this.socket.remoteAddress;
     }
 
     get remotePort() {
-        return this.socket.remotePort;
+        return this.proxied?.sourcePort ?? this.socket.remotePort;
+    }
+
+    get localAddress() {
+        return this.proxied?.destinationAddress ?? this.socket.localAddress;
+    }
+
+    get localPort() {
+        return this.proxied?.destinationPort ?? this.socket.localPort;
+    }
+
+    /** Address of the load balancer when the client came through one */
+    get proxyAddress() {
+        return this.proxied ? this.socket.remoteAddress : undefined;
+    }
+
+    // Called by the Transport once a trusted PROXY header has been read
+    _setProxiedAddresses(addresses: ProxyAddresses) {
+        this.proxied = addresses;
     }
     
     // For manual triggering by the Transport manager
@@ -68,6 +107,13 @@ interface BunListener {
 export class TcpTransport implements Transport {
     private server: BunListener | null = null;
     private connectionHandler: ((conn: Connection) => void) | null = null;
+    private trustedProxies: string[];
+    private logger: Logger;
+
+    constructor(options: TcpTransportOptions = {}) {
+        this.trustedProxies = options.trustedProxies ?? [];
+        this.logger = options.logger ?? noopLogger;
+    }
     
     async listen(port: number, host: string = '0.0.0.0'): Promise<void> {
         this.server = Bun.listen<TcpSocketData>({
@@ -77,15 +123,28 @@ export class TcpTransport implements Transport {
                 open: (socket) => {
                     const conn = new TcpConnection(socket);
                     socket.data = { connection: conn };
+
+                    if (this.trustedProxies.length > 0 && ipMatchesAny(socket.remoteAddress, this.trustedProxies)) {
+                        // Hold the connection back until we know who the client really is
+                        socket.data.pendingHeader = new Uint8Array();
+                        socket.data.headerTimeout = setTimeout(() => socket.end(), PROXY_HEADER_TIMEOUT_MS);
+                        return;
+                    }
+
                     if (this.connectionHandler) {
                         this.connectionHandler(conn);
                     }
                 },
                 data: (socket, data) => {
                     const conn = socket.data.connection;
+                    if (socket.data.pendingHeader) {
+                        this.readProxyHeader(socket, data);
+                        return;
+                    }
                     conn._trigger('data', data);
                 },
                 close: (socket) => {
+                    clearTimeout(socket.data.headerTimeout);
                     const conn = socket.data.connection;
                     conn._trigger('close');
                 },
@@ -95,7 +154,53 @@ export class TcpTransport implements Transport {
                 }
             }
         });
-        console.log(`TCP Transport listening on ${host}:${port}`);
+        this.logger.debug(`TCP Transport listening on ${host}:${port}`);
+    }
+
+    /**
+     * Buffers data from a trusted proxy until its PROXY header is complete, then
+     * reports the connection with the real client address. Connections without a
+     * header are reported with the proxy's own address.
+     */
+    private readProxyHeader(socket: Socket<TcpSocketData>, data: Uint8Array) {
+        const state = socket.data;
+        const buffer = new Uint8Array(state.pendingHeader!.length + data.length);
+        buffer.set(state.pendingHeader!);
+        buffer.set(data, state.pendingHeader!.length);
+
+        let rest = buffer;
+        if (isProxyHeaderPrefix(buffer)) {
+            let header;
+            try {
+                header = parseProxyHeader(buffer);
+            } catch {
+                socket.end();
+                return;
+            }
+            if (!header) {
+                if (buffer.length > MAX_PROXY_HEADER_SIZE) {
+                    socket.end();
+                    return;
+                }
+                state.pendingHeader = buffer;
+                return;
+            }
+            if (header.addresses) {
+                state.connection._setProxiedAddresses(header.addresses);
+            }
+            rest = buffer.subarray(header.bytesRead);
+        }
+
+        clearTimeout(state.headerTimeout);
+        state.pendingHeader = undefined;
+        state.headerTimeout = undefined;
+
+        if (this.connectionHandler) {
+            this.connectionHandler(state.connection);
+        }
+        if (rest.length > 0) {
+            state.connection._trigger('data', rest);
+        }
     }
 
     onConnection(listener: (connection: Connection) => void): void {
@@ -9,6 +9,11 @@ export interface Connection {
     
     remoteAddress?: string;
     remotePort?: number;
+    /** Address and port the client connected to */
+    localAddress?: string;
+    localPort?: number;
+    /** Address of the load balancer that forwarded the connection, when it sent a PROXY header */
+    proxyAddress?: string;
     
     // Abstract data storage
     data?: Record<string, unknown>;
@@ -1,5 +1,6 @@
 import type { Transport, Connection } from './Transport';
 import type { Socket } from 'bun';
+import { noopLogger, type Logger } from '../lib/logging/Logger';
 
 // Bun's UDP socket type definition is tricky in some versions.
 interface BunUDPSocket {
@@ -62,6 +63,8 @@ export class UdpTransport implements Transport {
     private cleanupInterval: Timer | null = null;
     private sessionTimeoutMs = 60000; // 60s timeout for UDP sessions
 
+    constructor(private logger: Logger = noopLogger) {}
+
     async listen(port: number, host: string = '0.0.0.0'): Promise<void> {
         this.socket = (await Bun.udpSocket({
             hostname: host,
@@ -93,12 +96,12 @@ export class UdpTransport implements Transport {
                     session.connection._trigger('data', data);
                 },
                 error: (socket, error) => {
-                    console.error("UDP Socket Error", error);
+                    this.logger.error('UDP socket error', { error });
                 }
             }
         })) as unknown as BunUDPSocket;
 
-        console.log(`UDP Transport listening on ${host}:${port}`);
+        this.logger.debug(`UDP Transport listening on ${host}:${port}`);
         
         // Start cleanup timer
         this.cleanupInterval = setInterval(() => this.cleanupSessions(), 10000);
@@ -0,0 +1,157 @@
+/**
+ * IP address and CIDR range matching for IPv4 and IPv6.
+ */
+
+interface ParsedAddress {
+    version: 4 | 6;
+    value: bigint;
+}
+
+function parseIPv4(ip: string): bigint | null {
+    const parts = ip.split('.');
+    if (parts.length !== 4) return null;
+
+    let value = 0n;
+    for (const part of parts) {
+        if (!/^\d{1,3}$/.test(part)) return null;
+        const octet = Number(part);
+        if (octet > 255) return null;
+        value = (value << 8n) | BigInt(octet);
+    }
+    return value;
+}
+
+function parseIPv6(ip: string): bigint | null {
+    // Drop a zone index (fe80::1%eth0)
+    const zone = ip.indexOf('%');
+    let address = zone === -1 ? ip : ip.slice(0, zone);
+
+    // Embedded IPv4 tail (::ffff:1.2.3.4) becomes two hex groups
+    const lastColon = address.lastIndexOf(':');
+    if (address.includes('.', lastColon)) {
+        const v4 = parseIPv4(address.slice(lastColon + 1));
+        if (v4 === null) return null;
+        address = `${address.slice(0, lastColon + 1)}${(v4 >> 16n).toString(16)}:${(v4 & 0xFFFFn).toString(16)}`;
+    }
+
+    const halves = address.split('::');
+    if (halves.length > 2) return null;
+
+    const parseGroups = (part: string) => part === '' ? [] : part.split(':');
+    const head = parseGroups(halves[0]!);
+    const rest = halves.length === 2 ? parseGroups(halves[1]!) : [];
+    const missing = 8 - head.length - rest.length;
+
+    if (halves.length === 1 && missing !== 0) return null;
+    if (halves.length === 2 && missing < 1) return null;
+
+    const groups = [...head, ...Array<string>(halves.length === 2 ? missing : 0).fill('0'), ...rest];
+
+    let value = 0n;
+    for (const group of groups) {
+        if (!/^[0-9a-fA-F]{1,4}$/.test(group)) return null;
+        value = (value << 16n) | BigInt(parseInt(group, 16));
+    }
+    return value;
+}
+
+/**
+ * Parses an IP address. IPv4-mapped IPv6 addresses (`::ffff:1.2.3.4`) are
+ * returned as IPv4 so they match IPv4 rules.
+ */
+function parseAddress(ip: string): ParsedAddress | null {
+    const v4 = parseIPv4(ip);
+    if (v4 !== null) return { version: 4, value: v4 };
+
+    const v6 = parseIPv6(ip);
+    if (v6 === null) return null;
+    if (v6 >> 32n === 0xFFFFn) {
+        return { version: 4, value: v6 & 0xFFFFFFFFn };
+    }
+    return { version: 6, value: v6 };
+}
+
+/**
+ * Returns true if the string is a valid IPv4 or IPv6 address.
+ */
+export function isIpAddress(ip: string): boolean {
+    return parseAddress(ip) !== null;
+}
+
+/**
+ * Returns 4 or 6 for a valid address, or null.
+ */
+export function ipVersion(ip: string): 4 | 6 | null {
+    return parseAddress(ip)?.version ?? null;
+}
+
+/**
+ * Returns the network-order bytes of an address: 4 for IPv4 (including
+ * IPv4-mapped IPv6 addresses), 16 for IPv6. Returns null for invalid input.
+ */
+export function ipToBytes(ip: string): Uint8Array | null {
+    const address = parseAddress(ip);
+    if (!address) return null;
+
+    const bytes = new Uint8Array(address.version === 4 ? 4 : 16);
+    let value = address.value;
+    for (let i = bytes.length - 1; i >= 0; i--) {
+        bytes[i] = Number(value & 0xFFn);
+        value >>= 8n;
+    }
+    return bytes;
+}
+
+/**
+ * Formats 4 or 16 network-order bytes as an IPv4 or (uncompressed) IPv6 address.
+ */
+export function bytesToIp(bytes: Uint8Array): string {
+    if (bytes.length === 4) {
+        return Array.from(bytes).join('.');
+    }
+    if (bytes.length !== 16) {
+        throw new Error(`Invalid IP address length: ${bytes.length}`);
+    }
+    const groups: string[] = [];
+    for (let i = 0; i < 16; i += 2) {
+        groups.push(((bytes[i]! << 8) | bytes[i + 1]!).toString(16));
+    }
+    return groups.join(':');
+}
+
+/**
+ * Checks whether an IP address falls inside a CIDR range.
+ * A bare address (no `/prefix`) matches only itself; a malformed prefix
+ * such as `10.0.0.0/` matches nothing.
+ */
+export function ipInCidr(ip: string, cidr: string): boolean {
+    const address = parseAddress(ip);
+    if (!address) return false;
+
+    const slash = cidr.indexOf('/');
+    const network = parseAddress(slash === -1 ? cidr : cidr.slice(0, slash));
+    if (!network || network.version !== address.version) return false;
+
+    const bits = network.version === 4 ? 32 : 128;
+    const prefixText = cidr.slice(slash + 1);
+    // Number('') and Number(' ') are 0, which would match every address
+    if (slash !== -1 && !/^\d{1,3}$/.test(prefixText)) return false;
+    let prefix = slash === -1 ? bits : Number(prefixText);
+
+    // An IPv4-mapped IPv6 network (::ffff:10.0.0.0/104) is an IPv4 range
+    if (network.version === 4 && slash !== -1 && cidr.includes(':')) {
+        prefix -= 96;
+    }
+
+    if (!Number.isInteger(prefix) || prefix < 0 || prefix > bits) return false;
+
+    const shift = BigInt(bits - prefix);
+    return (address.value >> shift) === (network.value >> shift);
+}
+
+/**
+ * Checks an IP address against a list of addresses and CIDR ranges.
+ */
+export function ipMatchesAny(ip: string, ranges: string[]): boolean {
+    return ranges.some((range) => ipInCidr(ip, range));
+}
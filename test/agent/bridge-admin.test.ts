@@ -0,0 +1,195 @@
+import { describe, expect, test, afterAll, beforeAll } from 'bun:test';
+import { BridgeServerEnhanced, TunnelAgent, writeHandshake } from '../../src';
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('Bridge Admin API', () => {
+    const BRIDGE_PORT = 32161;
+    const LOCAL_MC_PORT = 32162;
+    const SIGNED_BRIDGE_PORT = 32163;
+    const ADMIN_TOKEN = 'admin-token-for-tests';
+
+    let bridge: BridgeServerEnhanced;
+    let localServer: any;
+    let baseUrl: string;
+
+    const api = (path: string, init: RequestInit = {}, token = ADMIN_TOKEN) => fetch(`${baseUrl}${path}`, {
+        ...init,
+        headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+    });
+
+    beforeAll(() => {
+        localServer = Bun.listen({
+            hostname: 'localhost',
+            port: LOCAL_MC_PORT,
+            socket: { data: (socket, data) => { socket.write(data); } }
+        });
+
+        bridge = new BridgeServerEnhanced({
+            port: BRIDGE_PORT,
+            secret: 'unused',
+            domain: 'bridge.test',
+            auth: { enabled: true, secret: 'token-secret' },
+            admin: { port: 0, token: ADMIN_TOKEN },
+            logging: { stdout: false },
+        });
+        bridge.start();
+        baseUrl = `http://127.0.0.1:${(bridge as any).adminServer.port}`;
+    });
+
+    afterAll(() => {
+        bridge.stop();
+        localServer.stop();
+    });
+
+    test('should refuse to start without a usable admin token', () => {
+        for (const token of [undefined, '', ' '.repeat(20), 'too-short']) {
+            expect(() => new BridgeServerEnhanced({ port: 0, secret: 'unused', admin: { port: 0, token: token as any } }))
+                .toThrow('admin.token must be at least 16 characters');
+        }
+    });
+
+    test('should reject requests without the admin token', async () => {
+        const missing = await fetch(`${baseUrl}/stats`);
+        expect(missing.status).toBe(401);
+        expect(missing.headers.get('www-authenticate')).toBe('Bearer');
+
+        expect((await api('/stats', {}, 'wrong-token')).status).toBe(401);
+    });
+
+    test('should validate routes, methods and bodies', async () => {
+        expect((await api('/nope')).status).toBe(404);
+
+        const wrongMethod = await api('/stats', { method: 'DELETE' });
+        expect(wrongMethod.status).toBe(405);
+        expect(wrongMethod.headers.get('allow')).toBe('GET');
+
+        const badBody = await api('/tokens', { method: 'POST', body: JSON.stringify({ agentId: 'a.b', namespace: 'ns' }) });
+        expect(badBody.status).toBe(400);
+        expect((await badBody.json() as any).error).toContain('agentId');
+
+        const badScopes = await api('/tokens', { method: 'POST', body: JSON.stringify({ agentId: 'a', namespace: 'ns', scopes: 'tunnel' }) });
+        expect(badScopes.status).toBe(400);
+        expect((await badScopes.json() as any).error).toContain('scopes');
+    });
+
+    test('should issue and revoke tokens and claim codes', async () => {
+        const issued = await api('/tokens', { method: 'POST', body: JSON.stringify({ agentId: 'spare', namespace: 'ns' }) });
+        expect(issued.status).toBe(201);
+        const token = await issued.json() as any;
+        expect(token).toMatchObject({ agentId: 'spare', namespace: 'ns', isActive: true });
+
+        expect((await api(`/tokens/${token.token}`, { method: 'DELETE' })).status).toBe(204);
+        expect((bridge as any).tokenManager.validateToken(token.token)).toBeNull();
+        expect((await api('/tokens/unknown', { method: 'DELETE' })).status).toBe(404);
+
+        const claim = await (await api('/claim-codes', { method: 'POST', body: JSON.stringify({ agentId: 'spare', namespace: 'ns' }) })).json() as any;
+        expect(claim.code).toMatch(/^[A-Z0-9]{6}$/);
+        expect((await api(`/claim-codes/${claim.code}`, { method: 'DELETE' })).status).toBe(204);
+        expect(bridge.redeemClaimCode(claim.code)).toBeNull();
+    });
+
+    test('should list and kick agents and players', async () => {
+        const claim = await (await api('/claim-codes', { method: 'POST', body: JSON.stringify({ agentId: 'home', namespace: 'test' }) })).json() as any;
+
+        const agent = new TunnelAgent({
+            bridgeHost: 'localhost',
+            bridgeControlPort: BRIDGE_PORT,
+            localHost: 'localhost',
+            localPort: LOCAL_MC_PORT,
+            secret: claim.code,
+            logging: { stdout: false },
+        });
+        agent.start();
+        await delay(300);
+
+        const { agents } = await (await api('/agents')).json() as any;
+        expect(agents).toEqual([expect.objectContaining({ agentId: 'home', namespace: 'test', players: 0 })]);
+
+        // Redeeming the claim code issued exactly one token
+        const stats = await (await api('/stats')).json() as any;
+        expect(stats.tokens.tokensByAgent.home).toBe(1);
+
+        let closed = false;
+        const player = await Bun.connect({
+            hostname: 'localhost',
+            port: BRIDGE_PORT,
+            socket: { data: () => {}, close: () => { closed = true; } }
+        });
+        player.write(writeHandshake({ protocolVersion: 765, serverAddress: 'home.bridge.test', serverPort: 25565, nextState: 1 }));
+        await delay(300);
+
+        const { players } = await (await api('/players?agent=home')).json() as any;
+        expect(players).toHaveLength(1);
+        expect(players[0]).toMatchObject({ agentId: 'home', serverAddress: 'home.bridge.test', tunnelled: true });
+
+        const detail = await (await api('/agents/home')).json() as any;
+        expect(detail.agent.players).toBe(1);
+        expect(detail.players[0].connId).toBe(players[0].connId);
+
+        expect((await api(`/players/${players[0].connId}`, { method: 'DELETE' })).status).toBe(204);
+        await delay(100);
+        expect(closed).toBe(true);
+        expect((await (await api('/stats')).json() as any).players).toBe(0);
+
+        expect((await api('/agents/home/tokens', { method: 'DELETE' })).status).toBe(200);
+        expect((await api('/agents/home', { method: 'DELETE' })).status).toBe(204);
+        await delay(100);
+        expect((await (await api('/agents')).json() as any).agents).toEqual([]);
+        expect((await api('/agents/home', { method: 'DELETE' })).status).toBe(404);
+    });
+
+    test('should only let scoped tokens tunnel with the tunnel scope', async () => {
+        const connect = async (scopes: string[]) => {
+            const issued = await (await api('/tokens', { method: 'POST', body: JSON.stringify({ agentId: 'scoped', namespace: 'ns', scopes }) })).json() as any;
+            expect(issued.scopes).toEqual(scopes);
+
+            const results: string[] = [];
+            const agent = new TunnelAgent({
+                bridgeHost: 'localhost',
+                bridgeControlPort: BRIDGE_PORT,
+                localHost: 'localhost',
+                localPort: LOCAL_MC_PORT,
+                secret: issued.token,
+                logging: { stdout: false },
+            });
+            agent
+                .on('authenticated', () => results.push('authenticated'))
+                .on('authFailed', ({ reason }) => results.push(reason));
+            agent.start();
+            await delay(300);
+            return results;
+        };
+
+        expect(await connect(['metrics'])).toEqual(['AUTH_FAIL_SCOPE']);
+        expect(await connect(['metrics', 'tunnel'])).toEqual(['authenticated']);
+
+        expect((await api('/agents/scoped', { method: 'DELETE' })).status).toBe(204);
+    });
+
+    test('should refuse to revoke signed tokens', async () => {
+        const signed = new BridgeServerEnhanced({
+            port: SIGNED_BRIDGE_PORT,
+            secret: 'unused',
+            auth: { enabled: true, secret: 'token-secret', signedTokens: true },
+            admin: { port: 0, token: ADMIN_TOKEN },
+            logging: { stdout: false },
+        });
+        signed.start();
+        const signedUrl = `http://127.0.0.1:${(signed as any).adminServer.port}`;
+        const headers = { Authorization: `Bearer ${ADMIN_TOKEN}` };
+
+        try {
+            const token = signed.issueToken('home', 'prod');
+            for (const path of [`/tokens/${token.token}`, '/agents/home/tokens']) {
+                const response = await fetch(`${signedUrl}${path}`, { method: 'DELETE', headers });
+                expect(response.status).toBe(409);
+                expect((await response.json() as any).error).toContain('Signed tokens cannot be revoked');
+            }
+            const stats = await (await fetch(`${signedUrl}/stats`, { headers })).json() as any;
+            expect(stats.tokens.signedTokens).toBe(true);
+        } finally {
+            signed.stop();
+        }
+    });
+});
@@ -0,0 +1,102 @@
+import { describe, expect, test, afterAll } from 'bun:test';
+import { BridgeServerEnhanced, TunnelAgent, writeHandshake } from '../../src';
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('Agent PROXY protocol', () => {
+    const BRIDGE_PORT = 32131;
+    const LOCAL_MC_PORT = 32132;
+    const TRUSTING_BRIDGE_PORT = 32133;
+    const SECRET = 'proxy-protocol-secret';
+
+    const received: Buffer[] = [];
+    const localServer = Bun.listen({
+        hostname: 'localhost',
+        port: LOCAL_MC_PORT,
+        socket: {
+            data: (_socket, data) => {
+                received.push(Buffer.from(data));
+            },
+        },
+    });
+
+    const bridge = new BridgeServerEnhanced({ port: BRIDGE_PORT, secret: SECRET, debug: false });
+    const trustingBridge = new BridgeServerEnhanced({ port: TRUSTING_BRIDGE_PORT, secret: SECRET, trustedProxies: ['127.0.0.0/8'] });
+
+    /** A player behind a load balancer: its PROXY header, then the handshake */
+    const sendBalanced = async (port: number) => {
+        const client = await Bun.connect({
+            hostname: '127.0.0.1',
+            port,
+            socket: { data: () => {} },
+        });
+        client.write('PROXY TCP4 203.0.113.7 198.51.100.1 51234 25565\r\n');
+        client.write(writeHandshake({ protocolVersion: 765, serverAddress: 'home', serverPort: 25565, nextState: 1 }));
+        await delay(300);
+        client.end();
+    };
+
+    afterAll(() => {
+        bridge.stop();
+        trustingBridge.stop();
+        localServer.stop();
+    });
+
+    test('prepends the player address to the local server connection', async () => {
+        bridge.start();
+        new TunnelAgent({
+            bridgeHost: 'localhost',
+            bridgeControlPort: BRIDGE_PORT,
+            localHost: 'localhost',
+            localPort: LOCAL_MC_PORT,
+            secret: SECRET,
+            proxyProtocol: 'v1',
+            agentId: 'home',
+        }).start();
+        await delay(300);
+
+        const client = await Bun.connect({
+            hostname: '127.0.0.1',
+            port: BRIDGE_PORT,
+            socket: { data: () => {} },
+        });
+        client.write('Hello Server!');
+        await delay(300);
+
+        const text = Buffer.concat(received).toString();
+        expect(text).toMatch(/^PROXY TCP4 127\.0\.0\.1 127\.0\.0\.1 \d+ 32131\r\nHello Server!/);
+        expect(text.split(' ')[4]).toBe(String(client.localPort));
+
+        client.end();
+    });
+
+    test('passes on the player address from a trusted load balancer', async () => {
+        trustingBridge.start();
+        new TunnelAgent({
+            bridgeHost: 'localhost',
+            bridgeControlPort: TRUSTING_BRIDGE_PORT,
+            localHost: 'localhost',
+            localPort: LOCAL_MC_PORT,
+            secret: SECRET,
+            proxyProtocol: 'v1',
+            agentId: 'home',
+        }).start();
+        await delay(300);
+
+        received.length = 0;
+        await sendBalanced(TRUSTING_BRIDGE_PORT);
+
+        const text = Buffer.concat(received).toString('latin1');
+        expect(text).toStartWith('PROXY TCP4 203.0.113.7 198.51.100.1 51234 25565\r\n');
+        expect(text.match(/PROXY/g)).toHaveLength(1);
+    });
+
+    test('ignores the address in PROXY headers from other sources', async () => {
+        received.length = 0;
+        await sendBalanced(BRIDGE_PORT);
+
+        const text = Buffer.concat(received).toString('latin1');
+        expect(text).toMatch(/^PROXY TCP4 127\.0\.0\.1 127\.0\.0\.1 \d+ 32131\r\n/);
+        expect(text.match(/PROXY/g)).toHaveLength(1);
+    });
+});
@@ -0,0 +1,163 @@
+import { describe, expect, test } from 'bun:test';
+import { BridgeServerEnhanced, globalMetrics, TunnelAgent, writeHandshake } from '../../src';
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** Current value of a counter, or observation count of a histogram, for agent `home` */
+const metricValue = (name: string): number => {
+    const value = globalMetrics.getMetrics()[name]?.values.get('agent=home');
+    return typeof value === 'number' ? value : value?.count ?? 0;
+};
+
+describe('Reverse Tunnel Events', () => {
+    const BRIDGE_PORT = 32151;
+    const LOCAL_MC_PORT = 32152;
+    const LEGACY_BRIDGE_PORT = 32153;
+    const LEGACY_LOCAL_PORT = 32154;
+    const AUTH_BRIDGE_PORT = 32155;
+    const SECRET = 'events-secret';
+
+    test('should report agent and player lifecycle events', async () => {
+        const localServer = Bun.listen({
+            hostname: 'localhost',
+            port: LOCAL_MC_PORT,
+            socket: {
+                data: (socket, data) => {
+                    socket.write(data);
+                }
+            }
+        });
+
+        const events: string[] = [];
+        const bridge = new BridgeServerEnhanced({ port: BRIDGE_PORT, secret: SECRET });
+        bridge
+            .on('agentAuthenticated', ({ agentId }) => events.push(`bridge:agentAuthenticated:${agentId}`))
+            .on('playerRouted', ({ agentId, serverAddress }) => events.push(`bridge:playerRouted:${agentId}:${serverAddress}`))
+            .on('tunnelEstablished', ({ agentId }) => events.push(`bridge:tunnelEstablished:${agentId}`))
+            .on('playerDisconnected', ({ agentId }) => events.push(`bridge:playerDisconnected:${agentId}`));
+        bridge.start();
+
+        const agent = new TunnelAgent({
+            bridgeHost: 'localhost',
+            bridgeControlPort: BRIDGE_PORT,
+            localHost: 'localhost',
+            localPort: LOCAL_MC_PORT,
+            secret: SECRET,
+            agentId: 'home',
+        });
+        agent
+            .on('connected', ({ port }) => events.push(`agent:connected:${port}`))
+            .on('authenticated', ({ domain }) => events.push(`agent:authenticated:${domain}`))
+            .on('tunnelOpened', () => events.push('agent:tunnelOpened'))
+            .on('tunnelClosed', ({ rx, tx }) => events.push(`agent:tunnelClosed:${rx}:${tx}`));
+        agent.start();
+        await delay(300);
+
+        const names = [
+            'bridge_pairing_seconds', 'bridge_session_duration_seconds', 'bridge_bytes_received_total', 'bridge_bytes_sent_total',
+            'agent_local_connect_seconds', 'agent_session_duration_seconds', 'agent_bytes_received_total', 'agent_bytes_sent_total',
+        ];
+        const before = Object.fromEntries(names.map((name) => [name, metricValue(name)]));
+
+        const handshake = writeHandshake({ protocolVersion: 765, serverAddress: 'home.example.com', serverPort: 25565, nextState: 1 });
+        const player = await Bun.connect({
+            hostname: 'localhost',
+            port: BRIDGE_PORT,
+            socket: { data: () => {} }
+        });
+        player.write(handshake);
+        await delay(300);
+        player.end();
+        await delay(300);
+
+        expect(events).toEqual([
+            `agent:connected:${BRIDGE_PORT}`,
+            'bridge:agentAuthenticated:home',
+            'agent:authenticated:home.bridge',
+            'bridge:playerRouted:home:home.example.com',
+            'agent:tunnelOpened',
+            'bridge:tunnelEstablished:home',
+            'bridge:playerDisconnected:home',
+            `agent:tunnelClosed:${handshake.length}:${handshake.length}`,
+        ]);
+
+        const delta = Object.fromEntries(names.map((name) => [name, metricValue(name) - before[name]!]));
+        expect(delta).toEqual({
+            bridge_pairing_seconds: 1,
+            bridge_session_duration_seconds: 1,
+            bridge_bytes_received_total: handshake.length,
+            bridge_bytes_sent_total: handshake.length,
+            agent_local_connect_seconds: 1,
+            agent_session_duration_seconds: 1,
+            agent_bytes_received_total: handshake.length,
+            agent_bytes_sent_total: handshake.length,
+        });
+
+        bridge.stop();
+        localServer.stop();
+    });
+
+    test('should route a legacy ping to the agent without waiting for a handshake', async () => {
+        const received: number[] = [];
+        const localServer = Bun.listen({
+            hostname: 'localhost',
+            port: LEGACY_LOCAL_PORT,
+            socket: {
+                data: (_socket, data) => {
+                    received.push(...data);
+                }
+            }
+        });
+
+        const bridge = new BridgeServerEnhanced({ port: LEGACY_BRIDGE_PORT, secret: SECRET });
+        bridge.start();
+
+        const agent = new TunnelAgent({
+            bridgeHost: 'localhost',
+            bridgeControlPort: LEGACY_BRIDGE_PORT,
+            localHost: 'localhost',
+            localPort: LEGACY_LOCAL_PORT,
+            secret: SECRET,
+            agentId: 'home',
+        });
+        agent.start();
+        await delay(300);
+
+        // 1.6 server list ping: FE 01 FA, then a MC|PingHost plugin message
+        const ping = Buffer.from([0xfe, 0x01, 0xfa, 0x00, 0x0b, ...Buffer.from('MC|PingHost', 'utf16le').swap16()]);
+        const player = await Bun.connect({
+            hostname: 'localhost',
+            port: LEGACY_BRIDGE_PORT,
+            socket: { data: () => {} }
+        });
+        player.write(ping);
+        await delay(300);
+
+        expect(Buffer.from(received)).toEqual(ping);
+
+        player.end();
+        bridge.stop();
+        localServer.stop();
+    });
+
+    test('should report the code the bridge rejected the agent with', async () => {
+        const bridge = new BridgeServerEnhanced({ port: AUTH_BRIDGE_PORT, secret: SECRET, auth: { enabled: true, secret: 'auth-secret' } });
+        bridge.start();
+
+        const reasons: string[] = [];
+        const agent = new TunnelAgent({
+            bridgeHost: 'localhost',
+            bridgeControlPort: AUTH_BRIDGE_PORT,
+            localHost: 'localhost',
+            localPort: LEGACY_LOCAL_PORT,
+            secret: 'not-a-claim-code',
+        });
+        agent.on('authFailed', ({ reason }) => reasons.push(reason));
+        agent.start();
+        await delay(300);
+
+        expect(reasons).toEqual(['AUTH_FAIL_INVALID_CREDENTIALS']);
+
+        bridge.stop();
+    });
+});
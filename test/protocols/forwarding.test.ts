@@ -0,0 +1,28 @@
+import { describe, expect, test } from 'bun:test';
+import { offlineUuid, writeBungeeCordAddress } from '../../src/core/forwarding.js';
+
+describe('BungeeCord forwarding', () => {
+    test('offlineUuid matches the UUID offline-mode servers assign', () => {
+        expect(offlineUuid('Notch')).toBe('b50ad385-829d-3141-a216-7e7d7539ba7f');
+        expect(offlineUuid('Notch')[14]).toBe('3');
+    });
+
+    test('writeBungeeCordAddress joins host, IP and undashed UUID', () => {
+        expect(writeBungeeCordAddress('mc.example.com', { ip: '203.0.113.7', uuid: 'b50ad385-829d-3141-a216-7e7d7539ba7f' }))
+            .toBe('mc.example.com\x00203.0.113.7\x00b50ad385829d3141a2167e7d7539ba7f');
+    });
+
+    test('writeBungeeCordAddress drops client markers and appends properties', () => {
+        const address = writeBungeeCordAddress('mc.example.com\0FML3\0', {
+            ip: '::1',
+            uuid: '00000000000000000000000000000000',
+            properties: [{ name: 'textures', value: 'abc', signature: 'sig' }],
+        });
+        expect(address.split('\0')).toEqual([
+            'mc.example.com',
+            '::1',
+            '00000000000000000000000000000000',
+            '[{"name":"textures","value":"abc","signature":"sig"}]',
+        ]);
+    });
+});
@@ -0,0 +1,117 @@
+import { describe, expect, test } from 'bun:test';
+import { deflateSync } from 'node:zlib';
+import { FramedProtocol, type FramedPacket } from '../../src/protocols/FramedProtocol.js';
+import { writeHandshake } from '../../src/core/handshake.js';
+import { writePacket } from '../../src/core/packet.js';
+import { encodeString, readStringSync } from '../../src/core/codec.js';
+import { writeVarIntSync } from '../../src/core/varint.js';
+
+function varInt(value: number): Uint8Array {
+    const buffer = new Uint8Array(5);
+    return buffer.subarray(0, writeVarIntSync(buffer, value, 0));
+}
+
+describe('FramedProtocol', () => {
+    test('returns null until a frame is complete', () => {
+        const codec = new FramedProtocol({ state: 'play' });
+        const frame = codec.encode(0x10, new Uint8Array([1, 2, 3]));
+        expect(codec.parse(frame.subarray(0, 2))).toBeNull();
+
+        const packet = codec.parse(frame)!;
+        expect(packet.id).toBe(0x10);
+        expect(packet.size).toBe(frame.length);
+        expect((packet.data as FramedPacket).payload).toEqual(new Uint8Array([1, 2, 3]));
+    });
+
+    test('follows the handshake into the login state', () => {
+        const codec = new FramedProtocol();
+        codec.parse(writeHandshake({ protocolVersion: 765, serverAddress: 'localhost', serverPort: 25565, nextState: 2 }));
+        expect(codec.state).toBe('login');
+        expect(codec.protocolVersion).toBe(765);
+    });
+
+    test('dispatches to handlers registered for the current state', () => {
+        const codec = new FramedProtocol({ state: 'login' })
+            .on('login', 0x00, (packet) => ({ username: readStringSync(packet.payload, 0).value }));
+
+        const packet = codec.parse(writePacket(0x00, encodeString('Steve')))!;
+        expect(packet.data).toEqual({ username: 'Steve' });
+
+        const other = new FramedProtocol({ state: 'status' }).parse(writePacket(0x00))!;
+        expect((other.data as FramedPacket).state).toBe('status');
+    });
+
+    test('round-trips compressed and uncompressed packets', () => {
+        const codec = new FramedProtocol({ state: 'play' });
+        codec.setCompression(64);
+
+        const small = codec.encode(0x01, new Uint8Array(10).fill(7));
+        expect(small[1]).toBe(0);
+        expect((codec.parse(small)!.data as FramedPacket).payload).toEqual(new Uint8Array(10).fill(7));
+
+        const large = codec.encode(0x02, new Uint8Array(1000).fill(9));
+        expect(large.length).toBeLessThan(1000);
+        const packet = codec.parse(large)!;
+        expect(packet.id).toBe(0x02);
+        expect((packet.data as FramedPacket).payload).toEqual(new Uint8Array(1000).fill(9));
+    });
+
+    test('rejects compressed packets below the threshold or with a wrong length', () => {
+        const codec = new FramedProtocol({ state: 'play' });
+        codec.setCompression(256);
+
+        const body = new Uint8Array([0x01, 1, 2, 3]);
+        const frame = (dataLength: number) => {
+            const content = new Uint8Array([...varInt(dataLength), ...deflateSync(body)]);
+            return new Uint8Array([...varInt(content.length), ...content]);
+        };
+
+        expect(() => codec.parse(frame(body.length))).toThrow('below threshold');
+        codec.setCompression(1);
+        expect(() => codec.parse(frame(300))).toThrow('expected 300');
+    });
+
+    test('applies Set Compression and follows login into configuration', () => {
+        const codec = new FramedProtocol({ direction: 'clientbound', state: 'login', protocolVersion: 765 });
+
+        codec.parse(writePacket(0x03, varInt(256)));
+        expect(codec.compressionThreshold).toBe(256);
+
+        codec.parse(codec.encode(0x02, new Uint8Array(20)));
+        expect(codec.state).toBe('configuration');
+
+        codec.parse(codec.encode(0x02));
+        expect(codec.state).toBe('play');
+    });
+
+    test('returns to configuration on clientbound Start Configuration', () => {
+        const codec = new FramedProtocol({ direction: 'clientbound', state: 'play', protocolVersion: 767 });
+        codec.parse(writePacket(0x67));
+        expect(codec.state).toBe('play');
+        codec.parse(writePacket(0x69));
+        expect(codec.state).toBe('configuration');
+
+        const old = new FramedProtocol({ direction: 'clientbound', state: 'play', protocolVersion: 763 });
+        old.parse(writePacket(0x65));
+        expect(old.state).toBe('play');
+
+        // Serverbound play packets with the same ID do not switch state
+        const serverbound = new FramedProtocol({ state: 'play', protocolVersion: 767 });
+        serverbound.parse(writePacket(0x69));
+        expect(serverbound.state).toBe('play');
+    });
+
+    test('moves to play after Login Success before 1.20.2', () => {
+        const codec = new FramedProtocol({ direction: 'clientbound', state: 'login', protocolVersion: 763 });
+        codec.parse(writePacket(0x02, new Uint8Array(20)));
+        expect(codec.state).toBe('play');
+    });
+
+    test('follows Login Acknowledged on serverbound streams', () => {
+        const codec = new FramedProtocol({ state: 'login', protocolVersion: 766 });
+        codec.parse(writePacket(0x03));
+        expect(codec.state).toBe('configuration');
+        codec.parse(writePacket(0x03));
+        expect(codec.state).toBe('play');
+    });
+});
@@ -1,5 +1,6 @@
 import { describe, expect, test } from 'bun:test';
-import { parseHandshake } from '../../src/core/handshake.js';
+import { decodeHandshake, parseHandshake, writeHandshake } from '../../src/core/handshake.js';
+import { ChunkBuffer } from '../../src/core/ChunkBuffer.js';
 import { writeVarIntSync } from '../../src/core/varint.js';
 
 describe('Handshake', () => {
@@ -75,6 +76,59 @@ describe('Handshake', () => {
     ]);
     expect(() => parseHandshake(buffer)).toThrow();
   });
+  test('parseHandshake - accepts status, login and transfer intents only', () => {
+    for (const nextState of [1, 2, 3]) {
+      const packet = writeHandshake({ protocolVersion: 766, serverAddress: 'localhost', serverPort: 25565, nextState });
+      expect(parseHandshake(packet).handshake.nextState).toBe(nextState);
+    }
+    for (const nextState of [0, 4]) {
+      const packet = writeHandshake({ protocolVersion: 766, serverAddress: 'localhost', serverPort: 25565, nextState });
+      expect(() => parseHandshake(packet)).toThrow(`Invalid next state: ${nextState}`);
+    }
+  });
+
+  test('decodeHandshake - incomplete until the last byte arrives', () => {
+    const bytes = writeHandshake({ protocolVersion: 765, serverAddress: 'play.example.com', serverPort: 25565, nextState: 2 });
+    const buffer = new ChunkBuffer();
+
+    for (let i = 0; i < bytes.length - 1; i++) {
+      buffer.push(bytes.subarray(i, i + 1));
+      expect(decodeHandshake(buffer)).toEqual({ status: 'incomplete' });
+    }
+
+    buffer.push(bytes.subarray(bytes.length - 1));
+    buffer.push(new Uint8Array([0x42]));
+    const result = decodeHandshake(buffer);
+    expect(result.status).toBe('packet');
+    if (result.status !== 'packet') return;
+    expect(result.size).toBe(bytes.length);
+    expect(result.packet.serverAddress).toBe('play.example.com');
+  });
+
+  test('decodeHandshake - rejects other packets from the ID alone', () => {
+    const buffer = new ChunkBuffer();
+    buffer.push(new Uint8Array([0x10, 0x01]));
+    expect(decodeHandshake(buffer)).toEqual({ status: 'invalid', reason: 'Expected packet ID 0x00 for handshake, got 1' });
+  });
+
+  test('decodeHandshake - rejects oversized and malformed packets', () => {
+    const oversized = new ChunkBuffer();
+    oversized.push(new Uint8Array([0xff, 0xff, 0x03, 0x00]));
+    expect(decodeHandshake(oversized).status).toBe('invalid');
+
+    // Complete frame whose address runs past the packet length
+    const malformed = new ChunkBuffer();
+    malformed.push(new Uint8Array([0x04, 0x00, 0x2f, 0x09, 0x6c]));
+    expect(decodeHandshake(malformed).status).toBe('invalid');
+  });
+
+  test('decodeHandshake - starts at an offset', () => {
+    const buffer = new ChunkBuffer();
+    buffer.push(new Uint8Array([0xaa, 0xbb]));
+    buffer.push(writeHandshake({ protocolVersion: 47, serverAddress: 'localhost', serverPort: 25565, nextState: 1 }));
+    const result = decodeHandshake(buffer, 2);
+    expect(result.status === 'packet' && result.packet.nextState).toBe(1);
+  });
 });
 
 // Helper function
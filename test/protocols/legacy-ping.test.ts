@@ -0,0 +1,88 @@
+import { describe, expect, test } from 'bun:test';
+import { parseLegacyPing, writeLegacyKick, toLegacyStatus, isLegacyPing, MinecraftProtocol, LEGACY_PING_ID } from '../../src';
+
+function utf16(value: string): number[] {
+    const bytes: number[] = [];
+    for (let i = 0; i < value.length; i++) {
+        const code = value.charCodeAt(i);
+        bytes.push(code >> 8, code & 0xFF);
+    }
+    return bytes;
+}
+
+function pingHost(host: string, port: number, protocol = 78): Uint8Array {
+    const channel = 'MC|PingHost';
+    const data = [protocol, host.length >> 8, host.length & 0xFF, ...utf16(host), (port >> 24) & 0xFF, (port >> 16) & 0xFF, (port >> 8) & 0xFF, port & 0xFF];
+    return new Uint8Array([
+        0xFE, 0x01, 0xFA,
+        0x00, channel.length, ...utf16(channel),
+        data.length >> 8, data.length & 0xFF, ...data,
+    ]);
+}
+
+function decodeKick(buffer: Uint8Array): string {
+    const length = (buffer[1]! << 8) | buffer[2]!;
+    let value = '';
+    for (let i = 0; i < length; i++) {
+        value += String.fromCharCode((buffer[3 + i * 2]! << 8) | buffer[4 + i * 2]!);
+    }
+    return value;
+}
+
+describe('Legacy Ping', () => {
+    test('should detect the 0xFE prefix', () => {
+        expect(isLegacyPing(new Uint8Array([0xFE]))).toBe(true);
+        expect(isLegacyPing(new Uint8Array([0x10, 0x00]))).toBe(false);
+        expect(isLegacyPing(new Uint8Array())).toBe(false);
+    });
+
+    test('should wait for more bytes after a lone 0xFE until the client is done', () => {
+        expect(parseLegacyPing(new Uint8Array([0xFE]))).toBeNull();
+        expect(parseLegacyPing(new Uint8Array([0xFE]), true)).toEqual({ ping: { legacy: true }, bytesRead: 1 });
+    });
+
+    test('should parse the Beta 1.8 and 1.4 forms', () => {
+        expect(parseLegacyPing(new Uint8Array([0xFE, 0x00]))).toEqual({ ping: { legacy: true }, bytesRead: 1 });
+        expect(parseLegacyPing(new Uint8Array([0xFE, 0x01]))).toEqual({ ping: { legacy: true }, bytesRead: 2 });
+    });
+
+    test('should parse the 1.6 MC|PingHost form', () => {
+        const buffer = pingHost('mc.example.com', 25565);
+        const result = parseLegacyPing(buffer);
+        expect(result).toEqual({
+            ping: { legacy: true, protocolVersion: 78, serverAddress: 'mc.example.com', serverPort: 25565 },
+            bytesRead: buffer.length,
+        });
+    });
+
+    test('should return null for a partial 1.6 ping', () => {
+        const buffer = pingHost('mc.example.com', 25565);
+        expect(parseLegacyPing(buffer.subarray(0, buffer.length - 3))).toBeNull();
+    });
+
+    test('should reject an unexpected plugin channel', () => {
+        const buffer = new Uint8Array([0xFE, 0x01, 0xFA, 0x00, 0x02, ...utf16('XX'), 0x00, 0x00]);
+        expect(() => parseLegacyPing(buffer)).toThrow('Unexpected legacy ping channel');
+    });
+
+    test('should encode the kick string response', () => {
+        const kick = writeLegacyKick({ protocolVersion: 127, versionName: '1.20.4', motd: 'Hello', onlinePlayers: 3, maxPlayers: 20 });
+        expect(kick[0]).toBe(0xFF);
+        expect(decodeKick(kick)).toBe('§1\u0000127\u00001.20.4\u0000Hello\u00003\u000020');
+    });
+
+    test('should flatten a chat component description', () => {
+        const legacy = toLegacyStatus({
+            version: { name: 'Proxy', protocol: 765 },
+            players: { max: 50, online: 7 },
+            description: { text: 'A ', extra: [{ text: 'B' }, 'C'] },
+        });
+        expect(legacy).toEqual({ protocolVersion: 765, versionName: 'Proxy', motd: 'A BC', onlinePlayers: 7, maxPlayers: 50 });
+    });
+
+    test('MinecraftProtocol should report legacy pings', () => {
+        const packet = new MinecraftProtocol().parse(pingHost('localhost', 25565));
+        expect(packet?.id).toBe(LEGACY_PING_ID);
+        expect(packet?.data).toMatchObject({ legacy: true, serverAddress: 'localhost' });
+    });
+});
@@ -0,0 +1,73 @@
+import { describe, expect, test } from 'bun:test';
+import { parseLoginStart, writeLoginDisconnect, writeLoginStart } from '../../src/core/login.js';
+import { readPacket, writePacket } from '../../src/core/packet.js';
+import { encodeString, readStringSync } from '../../src/core/codec.js';
+
+const UUID_BYTES = new Uint8Array([
+    0x06, 0x9a, 0x79, 0xf4, 0x44, 0xe9, 0x47, 0x26,
+    0xa5, 0xbe, 0xfc, 0xa9, 0x0e, 0x38, 0xaa, 0xf5,
+]);
+const UUID = '069a79f4-44e9-4726-a5be-fca90e38aaf5';
+
+function loginStart(...parts: Uint8Array[]): Uint8Array {
+    const payload = Buffer.concat([encodeString('Notch'), ...parts]);
+    return writePacket(0x00, payload);
+}
+
+describe('Login Start', () => {
+    test('parses username only for pre-1.19 clients', () => {
+        const result = parseLoginStart(loginStart(), 47);
+        expect(result!.loginStart).toEqual({ username: 'Notch' });
+    });
+
+    test('parses the mandatory UUID on 1.20.2+', () => {
+        const packet = loginStart(UUID_BYTES);
+        const result = parseLoginStart(packet, 765);
+        expect(result!.loginStart).toEqual({ username: 'Notch', uuid: UUID });
+        expect(result!.bytesRead).toBe(packet.length);
+    });
+
+    test('parses the optional UUID on 1.19.3 - 1.20.1', () => {
+        expect(parseLoginStart(loginStart(new Uint8Array([1]), UUID_BYTES), 763)!.loginStart.uuid).toBe(UUID);
+        expect(parseLoginStart(loginStart(new Uint8Array([0])), 761)!.loginStart.uuid).toBeUndefined();
+    });
+
+    test('skips signature data on 1.19.1', () => {
+        const signature = Buffer.concat([
+            new Uint8Array([1]),                  // has signature data
+            new Uint8Array(8),                    // timestamp
+            new Uint8Array([2, 0xAA, 0xBB]),      // public key
+            new Uint8Array([1, 0xCC]),            // signature
+            new Uint8Array([1]),                  // has UUID
+            UUID_BYTES,
+        ]);
+        expect(parseLoginStart(loginStart(signature), 760)!.loginStart).toEqual({ username: 'Notch', uuid: UUID });
+    });
+
+    test('returns null while the packet is incomplete', () => {
+        const packet = loginStart(UUID_BYTES);
+        expect(parseLoginStart(packet.subarray(0, packet.length - 1), 765)).toBeNull();
+    });
+
+    test('throws on a wrong packet ID', () => {
+        expect(() => parseLoginStart(writePacket(0x01, encodeString('Notch')), 765)).toThrow();
+    });
+
+    test('writeLoginStart round-trips through parseLoginStart', () => {
+        for (const version of [47, 759, 760, 763, 765]) {
+            const player = version >= 760 ? { username: 'Notch', uuid: UUID } : { username: 'Notch' };
+            const packet = writeLoginStart(player, version);
+            expect(parseLoginStart(packet, version)).toEqual({ loginStart: player, bytesRead: packet.length });
+        }
+    });
+
+    test('writeLoginStart requires a UUID on 1.20.2+', () => {
+        expect(() => writeLoginStart({ username: 'Notch' }, 765)).toThrow();
+    });
+
+    test('writeLoginDisconnect wraps the reason in a chat component', () => {
+        const packet = readPacket(writeLoginDisconnect('Bye'));
+        expect(packet!.id).toBe(0x00);
+        expect(JSON.parse(readStringSync(packet!.payload, 0).value)).toEqual({ text: 'Bye' });
+    });
+});
@@ -0,0 +1,110 @@
+import { describe, expect, test } from 'bun:test';
+import {
+    PROXY_V2_SIGNATURE,
+    isProxyHeaderPrefix,
+    parseProxyHeader,
+    writeProxyHeader,
+    writeProxyHeaderV1,
+    writeProxyHeaderV2,
+} from '../../src/core/proxy-protocol.js';
+import { writeHandshake } from '../../src/core/handshake.js';
+
+const ipv4 = { sourceAddress: '203.0.113.7', sourcePort: 51234, destinationAddress: '10.0.0.1', destinationPort: 25565 };
+
+describe('PROXY protocol v1', () => {
+    test('encodes IPv4 addresses', () => {
+        expect(new TextDecoder().decode(writeProxyHeaderV1(ipv4)))
+            .toBe('PROXY TCP4 203.0.113.7 10.0.0.1 51234 25565\r\n');
+    });
+
+    test('encodes IPv6 addresses', () => {
+        const header = writeProxyHeaderV1({ sourceAddress: '2001:db8::7', sourcePort: 1, destinationAddress: '::1', destinationPort: 2 });
+        expect(new TextDecoder().decode(header)).toBe('PROXY TCP6 2001:db8:0:0:0:0:0:7 0:0:0:0:0:0:0:1 1 2\r\n');
+    });
+
+    test('unwraps IPv4-mapped addresses and fills a mismatched destination', () => {
+        const header = writeProxyHeaderV1({ sourceAddress: '::ffff:203.0.113.7', sourcePort: 1, destinationAddress: '::', destinationPort: 2 });
+        expect(new TextDecoder().decode(header)).toBe('PROXY TCP4 203.0.113.7 0.0.0.0 1 2\r\n');
+    });
+
+    test('falls back to UNKNOWN', () => {
+        expect(new TextDecoder().decode(writeProxyHeaderV1(null))).toBe('PROXY UNKNOWN\r\n');
+    });
+});
+
+describe('PROXY protocol v2', () => {
+    test('encodes IPv4 addresses', () => {
+        const header = writeProxyHeaderV2(ipv4);
+        expect(header.subarray(0, 12)).toEqual(PROXY_V2_SIGNATURE);
+        expect(header[12]).toBe(0x21);
+        expect(header[13]).toBe(0x11);
+        expect((header[14]! << 8) | header[15]!).toBe(12);
+        expect(Array.from(header.subarray(16, 24))).toEqual([203, 0, 113, 7, 10, 0, 0, 1]);
+        expect((header[24]! << 8) | header[25]!).toBe(51234);
+        expect((header[26]! << 8) | header[27]!).toBe(25565);
+        expect(header.length).toBe(28);
+    });
+
+    test('encodes IPv6 addresses', () => {
+        const header = writeProxyHeaderV2({ sourceAddress: '2001:db8::7', sourcePort: 1, destinationAddress: '::1', destinationPort: 2 });
+        expect(header[13]).toBe(0x21);
+        expect((header[14]! << 8) | header[15]!).toBe(36);
+        expect(header.length).toBe(52);
+    });
+
+    test('falls back to a LOCAL header', () => {
+        const header = writeProxyHeaderV2(null);
+        expect(header.length).toBe(16);
+        expect(header[12]).toBe(0x20);
+        expect(header[13]).toBe(0x00);
+    });
+
+    test('writeProxyHeader picks the version', () => {
+        expect(writeProxyHeader('v1', ipv4)[0]).toBe('P'.charCodeAt(0));
+        expect(writeProxyHeader('v2', ipv4).subarray(0, 12)).toEqual(PROXY_V2_SIGNATURE);
+    });
+});
+
+describe('PROXY header parsing', () => {
+    test('round-trips v1 and v2 headers', () => {
+        for (const version of ['v1', 'v2'] as const) {
+            const header = writeProxyHeader(version, ipv4);
+            expect(parseProxyHeader(header)).toEqual({ addresses: ipv4, bytesRead: header.length });
+        }
+    });
+
+    test('parses v2 IPv6 addresses', () => {
+        const header = writeProxyHeaderV2({ sourceAddress: '2001:db8::7', sourcePort: 1, destinationAddress: '::1', destinationPort: 2 });
+        expect(parseProxyHeader(header)!.addresses).toEqual({
+            sourceAddress: '2001:db8:0:0:0:0:0:7',
+            sourcePort: 1,
+            destinationAddress: '0:0:0:0:0:0:0:1',
+            destinationPort: 2,
+        });
+    });
+
+    test('returns null addresses for UNKNOWN and LOCAL headers', () => {
+        expect(parseProxyHeader(writeProxyHeaderV1(null))).toEqual({ addresses: null, bytesRead: 15 });
+        expect(parseProxyHeader(writeProxyHeaderV2(null))).toEqual({ addresses: null, bytesRead: 16 });
+    });
+
+    test('returns null while the header is incomplete', () => {
+        const v1 = writeProxyHeaderV1(ipv4);
+        const v2 = writeProxyHeaderV2(ipv4);
+        expect(parseProxyHeader(v1.subarray(0, 3))).toBeNull();
+        expect(parseProxyHeader(v1.subarray(0, v1.length - 1))).toBeNull();
+        expect(parseProxyHeader(v2.subarray(0, 20))).toBeNull();
+    });
+
+    test('rejects malformed headers', () => {
+        expect(() => parseProxyHeader(new TextEncoder().encode('PROXY TCP4 nope 10.0.0.1 1 2\r\n'))).toThrow();
+        expect(() => parseProxyHeader(new TextEncoder().encode(`PROXY ${'x'.repeat(120)}`))).toThrow('too long');
+        expect(() => parseProxyHeader(new Uint8Array([0x10, 0x00]))).toThrow('Not a PROXY protocol header');
+    });
+
+    test('never mistakes a handshake for a header', () => {
+        const handshake = writeHandshake({ protocolVersion: 765, serverAddress: 'localhost', serverPort: 25565, nextState: 2 });
+        expect(isProxyHeaderPrefix(handshake)).toBe(false);
+        expect(isProxyHeaderPrefix(new TextEncoder().encode('PRO'))).toBe(true);
+    });
+});
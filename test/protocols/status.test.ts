@@ -0,0 +1,85 @@
+import { describe, expect, test, afterAll } from 'bun:test';
+import { parseHandshake, writeHandshake } from '../../src/core/handshake.js';
+import { readPacket, writePacket } from '../../src/core/packet.js';
+import {
+    queryServerStatus,
+    readStatusResponse,
+    writePong,
+    writeStatusResponse,
+    type ServerStatus,
+} from '../../src/core/status.js';
+
+const sampleStatus: ServerStatus = {
+    version: { name: '1.20.4', protocol: 765 },
+    players: { max: 100, online: 7 },
+    description: { text: 'Hello' },
+};
+
+describe('Packet framing', () => {
+    test('readPacket returns null until the frame is complete', () => {
+        const frame = writePacket(0x01, new Uint8Array([1, 2, 3, 4, 5, 6, 7, 8]));
+        expect(readPacket(frame.subarray(0, 0))).toBeNull();
+        expect(readPacket(frame.subarray(0, 4))).toBeNull();
+
+        const packet = readPacket(frame);
+        expect(packet!.id).toBe(0x01);
+        expect(packet!.payload).toEqual(new Uint8Array([1, 2, 3, 4, 5, 6, 7, 8]));
+        expect(packet!.size).toBe(frame.length);
+    });
+
+    test('readPacket rejects zero-length frames', () => {
+        expect(() => readPacket(new Uint8Array([0x00]))).toThrow(/Invalid packet length/);
+    });
+
+    test('writeHandshake round-trips through parseHandshake', () => {
+        const bytes = writeHandshake({ protocolVersion: 765, serverAddress: 'mc.example.com', serverPort: 25565, nextState: 2 });
+        const { handshake, bytesRead } = parseHandshake(bytes);
+        expect(bytesRead).toBe(bytes.length);
+        expect(handshake.protocolVersion).toBe(765);
+        expect(handshake.serverAddress).toBe('mc.example.com');
+        expect(handshake.serverPort).toBe(25565);
+        expect(handshake.nextState).toBe(2);
+    });
+});
+
+describe('Status packets', () => {
+    test('status response round-trips', () => {
+        const packet = readPacket(writeStatusResponse(sampleStatus));
+        expect(packet!.id).toBe(0x00);
+        expect(readStatusResponse(packet!.payload)).toEqual(sampleStatus);
+    });
+
+    test('pong echoes the ping payload', () => {
+        const payload = new Uint8Array([0, 0, 0, 0, 0, 0, 1, 2]);
+        const packet = readPacket(writePong(payload));
+        expect(packet!.id).toBe(0x01);
+        expect(packet!.payload).toEqual(payload);
+    });
+});
+
+describe('queryServerStatus', () => {
+    const BACKEND_PORT = 32101;
+    let backend: { stop(): void } | null = null;
+
+    afterAll(() => backend?.stop());
+
+    test('reads the status document from a backend', async () => {
+        backend = Bun.listen({
+            hostname: 'localhost',
+            port: BACKEND_PORT,
+            socket: {
+                data(socket) {
+                    socket.write(writeStatusResponse(sampleStatus));
+                },
+            },
+        });
+
+        const result = await queryServerStatus('localhost', BACKEND_PORT);
+        expect(result.status).toEqual(sampleStatus);
+        expect(result.latencyMs).toBeGreaterThanOrEqual(0);
+    });
+
+    test('rejects when the backend is unreachable', async () => {
+        await expect(queryServerStatus('localhost', 32199, { timeoutMs: 1000 })).rejects.toThrow();
+    });
+});
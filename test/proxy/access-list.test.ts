@@ -0,0 +1,98 @@
+import { describe, expect, test, afterEach } from 'bun:test';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { unlink } from 'node:fs/promises';
+import { AccessList, entryMatches, type AccessListData } from '../../src/lib/access/AccessList.js';
+
+const files: string[] = [];
+
+async function writeList(data: AccessListData): Promise<string> {
+    const path = join(tmpdir(), `access-${Date.now()}-${files.length}.yaml`);
+    files.push(path);
+    await Bun.write(path, Bun.YAML.stringify(data));
+    return path;
+}
+
+describe('AccessList', () => {
+    afterEach(async () => {
+        for (const file of files.splice(0)) {
+            await unlink(file).catch(() => {});
+        }
+    });
+
+    test('entryMatches requires every set field to match', () => {
+        expect(entryMatches({ username: 'Steve' }, { username: 'steve' })).toBe(true);
+        expect(entryMatches({ username: 'Steve', ip: '10.0.0.0/8' }, { username: 'Steve', ip: '192.168.0.1' })).toBe(false);
+        expect(entryMatches({ uuid: '069a79f4-44e9-4726-a5be-fca90e38aaf5' }, { uuid: '069a79f444e94726a5befca90e38aaf5' })).toBe(true);
+        expect(entryMatches({ reason: 'no identity' }, { username: 'Steve' })).toBe(false);
+    });
+
+    test('rejects banned players with the ban reason', async () => {
+        const list = new AccessList({
+            fileName: await writeList({
+                whitelist: { enabled: false, entries: [] },
+                bans: [
+                    { username: 'Griefer', reason: 'Griefing spawn' },
+                    { ip: '203.0.113.0/24', reason: 'VPN range' },
+                ],
+            }),
+            watch: false,
+            silent: true,
+        });
+        await list.load();
+
+        expect(list.check({ username: 'griefer' })).toMatchObject({ allowed: false, reason: 'Griefing spawn' });
+        expect(list.check({ username: 'Steve', ip: '203.0.113.50' })).toMatchObject({ allowed: false, reason: 'VPN range' });
+        expect(list.check({ username: 'Steve', ip: '198.51.100.1' })).toEqual({ allowed: true });
+    });
+
+    test('ignores expired bans', async () => {
+        const list = new AccessList({
+            fileName: await writeList({
+                whitelist: { enabled: false, entries: [] },
+                bans: [
+                    { username: 'Old', expiresAt: '2000-01-01T00:00:00Z' },
+                    { username: 'Temp', reason: 'Cooldown', expiresAt: '2999-01-01T00:00:00Z' },
+                ],
+            }),
+            watch: false,
+            silent: true,
+        });
+        await list.load();
+
+        expect(list.check({ username: 'Old' })).toEqual({ allowed: true });
+        const temp = list.check({ username: 'Temp' });
+        expect(temp.allowed).toBe(false);
+        expect(!temp.allowed && temp.reason).toStartWith('Cooldown\nExpires:');
+    });
+
+    test('enforces the whitelist when enabled', async () => {
+        const list = new AccessList({
+            fileName: await writeList({
+                whitelist: { enabled: true, entries: [{ username: 'Alex' }] },
+                bans: [],
+            }),
+            watch: false,
+            silent: true,
+        });
+        await list.load();
+
+        expect(list.check({ username: 'Alex' })).toEqual({ allowed: true });
+        expect(list.check({ username: 'Steve' }).allowed).toBe(false);
+    });
+
+    test('hot-reloads when the file changes', async () => {
+        const fileName = await writeList({ whitelist: { enabled: false, entries: [] }, bans: [] });
+        const list = new AccessList({ fileName, silent: true });
+        await list.load();
+        expect(list.check({ username: 'Steve' }).allowed).toBe(true);
+
+        await Bun.write(fileName, Bun.YAML.stringify({ whitelist: { enabled: false, entries: [] }, bans: [{ username: 'Steve' }] }));
+
+        for (let i = 0; i < 40 && list.check({ username: 'Steve' }).allowed; i++) {
+            await new Promise(r => setTimeout(r, 50));
+        }
+        expect(list.check({ username: 'Steve' }).allowed).toBe(false);
+        list.close();
+    });
+});
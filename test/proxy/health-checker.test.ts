@@ -0,0 +1,133 @@
+import { describe, expect, test, afterAll, mock } from 'bun:test';
+import { HealthChecker } from '../../src/core/HealthChecker.js';
+import { ProxyServer } from '../../src/core/ProxyServer.js';
+import { writeStatusResponse } from '../../src/core/status.js';
+import { MetricsRegistry } from '../../src/lib/metrics/MetricsRegistry.js';
+
+const HEALTHY_PORT = 32121;
+const DEAD_PORT = 32129;
+const PROXIED_PORT = 32122;
+
+describe('HealthChecker', () => {
+    const backend = Bun.listen({
+        hostname: 'localhost',
+        port: HEALTHY_PORT,
+        socket: {
+            data(socket) {
+                socket.write(writeStatusResponse({
+                    version: { name: '1.20.4', protocol: 765 },
+                    players: { max: 100, online: 12 },
+                    description: 'Lobby',
+                }));
+            },
+        },
+    });
+
+    // Like a Paper server with proxy-protocol enabled: closes connections without a PROXY header
+    const proxiedBackend = Bun.listen({
+        hostname: 'localhost',
+        port: PROXIED_PORT,
+        socket: {
+            data(socket, data) {
+                if (new TextDecoder().decode(data.subarray(0, 6)) !== 'PROXY ') {
+                    socket.end();
+                    return;
+                }
+                socket.write(writeStatusResponse({ version: { name: '1.20.4', protocol: 765 }, players: { max: 20, online: 0 }, description: 'Proxied' }));
+            },
+        },
+    });
+
+    afterAll(() => {
+        backend.stop();
+        proxiedBackend.stop();
+    });
+
+    test('records latency and players of a healthy backend', async () => {
+        const metrics = new MetricsRegistry();
+        const checker = new HealthChecker({ timeoutMs: 1000 }, metrics);
+        checker.setBackends([{ host: 'localhost', port: HEALTHY_PORT }]);
+
+        await checker.checkAll();
+
+        const health = checker.get({ host: 'localhost', port: HEALTHY_PORT })!;
+        expect(health.healthy).toBe(true);
+        expect(health.onlinePlayers).toBe(12);
+        expect(health.maxPlayers).toBe(100);
+        expect(health.latencyMs).toBeGreaterThanOrEqual(0);
+        expect(health.lastCheckedAt).not.toBeNull();
+
+        const up = metrics.getMetrics()['proxy_backend_up']!;
+        expect(up.values.get(`backend=localhost:${HEALTHY_PORT}`)).toBe(1);
+    });
+
+    test('marks a backend unhealthy after the failure threshold', async () => {
+        const metrics = new MetricsRegistry();
+        const checker = new HealthChecker({ timeoutMs: 1000, unhealthyThreshold: 2 }, metrics);
+        const dead = { host: 'localhost', port: DEAD_PORT };
+        checker.setBackends([dead]);
+
+        expect(checker.isHealthy(dead)).toBe(true);
+        await checker.checkAll();
+        expect(checker.isHealthy(dead)).toBe(true);
+        expect(checker.get(dead)!.consecutiveFailures).toBe(1);
+
+        await checker.checkAll();
+        expect(checker.isHealthy(dead)).toBe(false);
+        expect(checker.get(dead)!.lastError).toBeDefined();
+        expect(metrics.getMetrics()['proxy_backend_up']!.values.get(`backend=localhost:${DEAD_PORT}`)).toBe(0);
+    });
+
+    test('sends the PROXY header the proxy sends to backends', async () => {
+        const proxied = { host: 'localhost', port: PROXIED_PORT };
+        const plain = new HealthChecker({ timeoutMs: 1000, unhealthyThreshold: 1 }, new MetricsRegistry());
+        plain.setBackends([proxied]);
+        await plain.checkAll();
+        expect(plain.isHealthy(proxied)).toBe(false);
+
+        const proxy = new ProxyServer({
+            debug: false,
+            logging: { stdout: false },
+            backends: [proxied],
+            proxyProtocol: { send: 'v1' },
+            healthCheck: { enabled: true, timeoutMs: 1000, unhealthyThreshold: 1 },
+        });
+        const checker = (proxy as any).healthChecker as HealthChecker;
+        await checker.checkAll();
+        expect(checker.get(proxied)).toMatchObject({ healthy: true, lastError: undefined });
+    });
+
+    test('treats backends it does not probe as healthy', () => {
+        const checker = new HealthChecker({}, new MetricsRegistry());
+        expect(checker.isHealthy({ host: 'unknown', port: 1 })).toBe(true);
+    });
+
+    test('ProxyServer skips unhealthy backends', async () => {
+        const proxy = new ProxyServer({
+            debug: false,
+            backends: [{ host: 'localhost', port: DEAD_PORT }, { host: 'localhost', port: HEALTHY_PORT }],
+            healthCheck: { enabled: true, timeoutMs: 1000, unhealthyThreshold: 1 },
+        });
+        const checker = (proxy as any).healthChecker as HealthChecker;
+        await checker.checkAll();
+
+        expect(proxy.getBackendHealth().map(h => [h.port, h.healthy])).toEqual([[DEAD_PORT, false], [HEALTHY_PORT, true]]);
+
+        const connectMock = mock(() => Promise.reject('Backend unavailable'));
+        const oldConnect = Bun.connect;
+        Bun.connect = connectMock as any;
+
+        const client = { remoteAddress: '127.0.0.1', remotePort: 1, data: {}, write() {}, close() {}, on() {} } as any;
+        await (proxy as any).connectBackend(client, new Uint8Array(), {
+            host: 'localhost',
+            port: DEAD_PORT,
+            route: null,
+            backends: proxy['config'].backends,
+            strategy: 'round-robin',
+        });
+
+        Bun.connect = oldConnect;
+        expect(connectMock).toHaveBeenCalledTimes(1);
+        expect((connectMock.mock.calls[0] as any[])[0].port).toBe(HEALTHY_PORT);
+    });
+});
@@ -0,0 +1,61 @@
+import { describe, expect, test } from 'bun:test';
+import { LoadBalancer } from '../../src/core/LoadBalancer.js';
+
+const pool = [
+    { host: 'a', port: 25565 },
+    { host: 'b', port: 25565 },
+    { host: 'c', port: 25565 },
+];
+
+describe('LoadBalancer', () => {
+    test('round-robin cycles through the pool and keeps the rest for failover', () => {
+        const balancer = new LoadBalancer();
+        expect(balancer.order('lobby', pool, 'round-robin').map(b => b.host)).toEqual(['a', 'b', 'c']);
+        expect(balancer.order('lobby', pool, 'round-robin').map(b => b.host)).toEqual(['b', 'c', 'a']);
+        expect(balancer.order('lobby', pool, 'round-robin').map(b => b.host)).toEqual(['c', 'a', 'b']);
+        expect(balancer.order('lobby', pool, 'round-robin')[0]!.host).toBe('a');
+    });
+
+    test('round-robin state is kept per pool', () => {
+        const balancer = new LoadBalancer();
+        balancer.order('lobby', pool, 'round-robin');
+        expect(balancer.order('survival', pool, 'round-robin')[0]!.host).toBe('a');
+    });
+
+    test('least-connections prefers the least loaded backend', () => {
+        const balancer = new LoadBalancer();
+        balancer.acquire(pool[0]!);
+        balancer.acquire(pool[0]!);
+        const release = balancer.acquire(pool[1]!);
+
+        expect(balancer.order('lobby', pool, 'least-connections').map(b => b.host)).toEqual(['c', 'b', 'a']);
+
+        release();
+        release();
+        expect(balancer.getConnections(pool[1]!)).toBe(0);
+        expect(balancer.order('lobby', pool, 'least-connections').map(b => b.host)).toEqual(['b', 'c', 'a']);
+    });
+
+    test('random returns every backend once', () => {
+        const balancer = new LoadBalancer();
+        const order = balancer.order('lobby', pool, 'random').map(b => b.host);
+        expect([...order].sort()).toEqual(['a', 'b', 'c']);
+    });
+
+    test('sticky strategies keep a client on the same backend', () => {
+        const balancer = new LoadBalancer();
+        const first = balancer.order('lobby', pool, 'sticky-ip', { ip: '203.0.113.7' })[0];
+        for (let i = 0; i < 5; i++) {
+            expect(balancer.order('lobby', pool, 'sticky-ip', { ip: '203.0.113.7' })[0]).toEqual(first!);
+        }
+
+        const byName = balancer.order('lobby', pool, 'sticky-username', { ip: '1.1.1.1', username: 'Notch' })[0];
+        expect(balancer.order('lobby', pool, 'sticky-username', { ip: '2.2.2.2', username: 'notch' })[0]).toEqual(byName!);
+    });
+
+    test('sticky-username falls back to the client IP', () => {
+        const balancer = new LoadBalancer();
+        expect(balancer.order('lobby', pool, 'sticky-username', { ip: '203.0.113.7' }))
+            .toEqual(balancer.order('lobby', pool, 'sticky-ip', { ip: '203.0.113.7' }));
+    });
+});
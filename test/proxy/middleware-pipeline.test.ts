@@ -0,0 +1,58 @@
+import { describe, expect, test, mock } from 'bun:test';
+import { MiddlewarePipeline, type Handshake, type MiddlewareContext } from '../../src';
+
+const context = {} as MiddlewareContext;
+const handshake: Handshake = { protocolVersion: 765, serverAddress: 'play.example.com', serverPort: 25565, nextState: 2, packetLength: 0, packetId: 0 };
+
+describe('MiddlewarePipeline', () => {
+    test('should pass each hook the previous result, in order', () => {
+        const pipeline = new MiddlewarePipeline();
+        const seen: string[] = [];
+        pipeline.use({ onClientData: (data) => { seen.push('first'); return new Uint8Array([...data, 2]); } });
+        pipeline.use({ onClientData: (data) => { seen.push('second'); return new Uint8Array([...data, 3]); } });
+
+        expect(pipeline.clientData(new Uint8Array([1]), context)).toEqual(new Uint8Array([1, 2, 3]));
+        expect(seen).toEqual(['first', 'second']);
+    });
+
+    test('should keep the value when a hook returns nothing', () => {
+        const pipeline = new MiddlewarePipeline();
+        pipeline.use({ onHandshake: (h) => { h.serverPort = 25570; } });
+
+        const result = pipeline.handshake(handshake, context);
+        expect(result?.serverPort).toBe(25570);
+        expect(handshake.serverPort).toBe(25565);
+    });
+
+    test('should stop the chain when a hook drops the value', () => {
+        const pipeline = new MiddlewarePipeline();
+        const later = mock();
+        pipeline.use({ onServerData: () => null });
+        pipeline.use({ onServerData: later });
+
+        expect(pipeline.serverData(new Uint8Array([1]), context)).toBeNull();
+        expect(later).not.toHaveBeenCalled();
+    });
+
+    test('should remove middleware', () => {
+        const pipeline = new MiddlewarePipeline();
+        const middleware = { onClientData: () => null };
+        pipeline.use(middleware);
+
+        expect(pipeline.remove(middleware)).toBe(true);
+        expect(pipeline.remove(middleware)).toBe(false);
+        expect(pipeline.size).toBe(0);
+        expect(pipeline.clientData(new Uint8Array([1]), context)).toEqual(new Uint8Array([1]));
+    });
+
+    test('should run every onClose hook and rethrow the first error', () => {
+        const pipeline = new MiddlewarePipeline();
+        const last = mock();
+        pipeline.use({ onClose: () => { throw new Error('first'); } });
+        pipeline.use({ onClose: () => { throw new Error('second'); } });
+        pipeline.use({ onClose: last });
+
+        expect(() => pipeline.close(context)).toThrow('first');
+        expect(last).toHaveBeenCalledTimes(1);
+    });
+});
@@ -1,7 +1,10 @@
 import { describe, expect, test, mock, beforeEach } from 'bun:test';
-import { ProxyServer } from '../../src';
+import { ProxyServer, MinecraftProtocol, globalMetrics, parseHandshake, writeHandshake, readPacket, readStatusResponse, readStringSync, writePacket, encodeString } from '../../src';
 import type { Transport, Connection } from '../../src/transports/Transport';
 import type { Protocol, Packet } from '../../src/protocols/Protocol';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { unlink } from 'node:fs/promises';
 
 // Mocks
 class MockConnection implements Connection {
@@ -154,6 +157,749 @@ describe('ProxyServer Unit Tests', () => {
         Bun.connect = oldConnect;
     });
 
+    test('should route to the backend matching the handshake server address', async () => {
+        const routedProxy = new ProxyServer({
+            debug: false,
+            routes: [{ host: '*.example.com', backendHost: 'routed-backend', backendPort: 25570 }]
+        }, protocol);
+        (routedProxy as any).transport = transport;
+        await routedProxy.start();
+
+        const client = new MockConnection();
+        transport.simulateConnection(client);
+
+        protocol.parseMock.mockReturnValue({
+            id: 0,
+            size: 3,
+            data: { serverAddress: 'survival.example.com', serverPort: 25565, nextState: 2 }
+        });
+
+        const oldConnect = Bun.connect;
+        const connectMock = mock(() => Promise.reject('Backend unavailable'));
+        Bun.connect = connectMock as any;
+
+        client.emit('data', new Uint8Array([1, 2, 3]));
+        await new Promise(r => setTimeout(r, 10));
+
+        expect(connectMock).toHaveBeenCalled();
+        const options = (connectMock.mock.calls[0] as any[])[0];
+        expect(options.hostname).toBe('routed-backend');
+        expect(options.port).toBe(25570);
+
+        Bun.connect = oldConnect;
+    });
+
+    test('should fail over to the next backend in the pool', async () => {
+        const pooledProxy = new ProxyServer({
+            debug: false,
+            backends: [{ host: 'down', port: 25565 }, { host: 'up', port: 25565 }]
+        }, protocol);
+        (pooledProxy as any).transport = transport;
+        await pooledProxy.start();
+
+        const client = new MockConnection();
+        transport.simulateConnection(client);
+
+        protocol.parseMock.mockReturnValue({
+            id: 0,
+            size: 3,
+            data: { serverAddress: 'localhost', serverPort: 25565, nextState: 2 }
+        });
+
+        const oldConnect = Bun.connect;
+        const backendWrite = mock();
+        const connectMock = mock((options: any) => options.hostname === 'down'
+            ? Promise.reject('Backend unavailable')
+            : Promise.resolve({ write: backendWrite, end: mock() }));
+        Bun.connect = connectMock as any;
+
+        client.emit('data', new Uint8Array([1, 2, 3]));
+        await new Promise(r => setTimeout(r, 10));
+
+        expect(connectMock).toHaveBeenCalledTimes(2);
+        expect(backendWrite).toHaveBeenCalledWith(new Uint8Array([1, 2, 3]));
+        expect(client.closeMock).not.toHaveBeenCalled();
+        expect(pooledProxy.getBackendConnections('up', 25565)).toBe(1);
+
+        client.close();
+        expect(pooledProxy.getBackendConnections('up', 25565)).toBe(0);
+
+        Bun.connect = oldConnect;
+    });
+
+    test('should send a PROXY header before the client data', async () => {
+        const proxyProtocolProxy = new ProxyServer({
+            debug: false,
+            proxyProtocol: { send: 'v1' }
+        }, protocol);
+        (proxyProtocolProxy as any).transport = transport;
+        await proxyProtocolProxy.start();
+
+        const client = new MockConnection('203.0.113.7', 51234);
+        (client as any).localAddress = '10.0.0.1';
+        (client as any).localPort = 25565;
+        transport.simulateConnection(client);
+
+        protocol.parseMock.mockReturnValue({
+            id: 0,
+            size: 3,
+            data: { serverAddress: 'localhost', serverPort: 25565, nextState: 2 }
+        });
+
+        const oldConnect = Bun.connect;
+        const backendWrite = mock();
+        Bun.connect = mock(() => Promise.resolve({ write: backendWrite, end: mock() })) as any;
+
+        client.emit('data', new Uint8Array([1, 2, 3]));
+        await new Promise(r => setTimeout(r, 10));
+
+        const written: Uint8Array = backendWrite.mock.calls[0]![0];
+        const header = 'PROXY TCP4 203.0.113.7 10.0.0.1 51234 25565\r\n';
+        expect(new TextDecoder().decode(written.subarray(0, header.length))).toBe(header);
+        expect(written.subarray(header.length)).toEqual(new Uint8Array([1, 2, 3]));
+
+        Bun.connect = oldConnect;
+    });
+
+    test('should answer status pings itself in static mode', async () => {
+        const statusProxy = new ProxyServer({
+            debug: false,
+            status: { mode: 'static', motd: 'Proxy MOTD', maxPlayers: 50 }
+        }, new MinecraftProtocol());
+        (statusProxy as any).transport = transport;
+        await statusProxy.start();
+
+        const client = new MockConnection();
+        transport.simulateConnection(client);
+
+        const oldConnect = Bun.connect;
+        const connectMock = mock(() => Promise.reject('Backend unavailable'));
+        Bun.connect = connectMock as any;
+
+        const handshake = writeHandshake({ protocolVersion: 765, serverAddress: 'localhost', serverPort: 25565, nextState: 1 });
+        client.emit('data', handshake);
+        client.emit('data', writePacket(0x00));
+        client.emit('data', writePacket(0x01, new Uint8Array([0, 0, 0, 0, 0, 0, 0, 42])));
+        await new Promise(r => setTimeout(r, 10));
+
+        expect(connectMock).not.toHaveBeenCalled();
+        expect(client.writeMock).toHaveBeenCalledTimes(2);
+
+        const response = readPacket(client.writeMock.mock.calls[0]![0]);
+        const status = readStatusResponse(response!.payload);
+        expect(status.description).toEqual({ text: 'Proxy MOTD' });
+        expect(status.version.protocol).toBe(765);
+        expect(status.players.max).toBe(50);
+
+        const pong = readPacket(client.writeMock.mock.calls[1]![0]);
+        expect(pong!.id).toBe(0x01);
+        expect(pong!.payload[7]).toBe(42);
+        expect(client.closeMock).toHaveBeenCalled();
+
+        Bun.connect = oldConnect;
+    });
+
+    test('should serve the fallback MOTD when the backend is unreachable', async () => {
+        const statusProxy = new ProxyServer({
+            debug: false,
+            status: { fallbackMotd: 'Server offline' }
+        }, new MinecraftProtocol());
+        (statusProxy as any).transport = transport;
+        await statusProxy.start();
+
+        const client = new MockConnection();
+        transport.simulateConnection(client);
+
+        const oldConnect = Bun.connect;
+        Bun.connect = mock(() => Promise.reject('Backend unavailable')) as any;
+
+        const handshake = writeHandshake({ protocolVersion: 765, serverAddress: 'localhost', serverPort: 25565, nextState: 1 });
+        const request = writePacket(0x00);
+        const combined = new Uint8Array(handshake.length + request.length);
+        combined.set(handshake);
+        combined.set(request, handshake.length);
+        client.emit('data', combined);
+        await new Promise(r => setTimeout(r, 10));
+
+        const response = readPacket(client.writeMock.mock.calls[0]![0]);
+        expect(readStatusResponse(response!.payload).description).toEqual({ text: 'Server offline' });
+
+        Bun.connect = oldConnect;
+    });
+
+    test('should answer legacy pings in respond mode', async () => {
+        const legacyProxy = new ProxyServer({
+            debug: false,
+            status: { mode: 'static', motd: 'Legacy hello', legacyPing: 'respond' }
+        }, new MinecraftProtocol());
+        (legacyProxy as any).transport = transport;
+        await legacyProxy.start();
+
+        const client = new MockConnection();
+        transport.simulateConnection(client);
+
+        const oldConnect = Bun.connect;
+        const connectMock = mock(() => Promise.reject('Backend unavailable'));
+        Bun.connect = connectMock as any;
+
+        client.emit('data', new Uint8Array([0xFE, 0x01]));
+        await new Promise(r => setTimeout(r, 10));
+
+        const kick: Uint8Array = client.writeMock.mock.calls[0]![0];
+        expect(kick[0]).toBe(0xFF);
+        expect(new TextDecoder('utf-16be').decode(kick.subarray(3))).toContain('Legacy hello');
+        expect(client.closeMock).toHaveBeenCalled();
+        expect(connectMock).not.toHaveBeenCalled();
+
+        Bun.connect = oldConnect;
+    });
+
+    test('should answer a lone 0xFE legacy ping once the client stops sending', async () => {
+        const legacyProxy = new ProxyServer({
+            debug: false,
+            status: { mode: 'static', motd: 'Beta hello', legacyPing: 'respond' }
+        }, new MinecraftProtocol());
+        (legacyProxy as any).transport = transport;
+        await legacyProxy.start();
+
+        const beta = new MockConnection();
+        transport.simulateConnection(beta);
+        beta.emit('data', new Uint8Array([0xFE]));
+        await new Promise(r => setTimeout(r, 10));
+        expect(beta.writeMock).not.toHaveBeenCalled();
+
+        await new Promise(r => setTimeout(r, 300));
+        const kick: Uint8Array = beta.writeMock.mock.calls[0]![0];
+        expect(kick[0]).toBe(0xFF);
+        expect(new TextDecoder('utf-16be').decode(kick.subarray(3))).toContain('Beta hello');
+        expect(beta.closeMock).toHaveBeenCalled();
+
+        // 0x01 arriving within the grace period makes it a 1.4 ping, answered once
+        const split = new MockConnection();
+        transport.simulateConnection(split);
+        split.emit('data', new Uint8Array([0xFE]));
+        await new Promise(r => setTimeout(r, 10));
+        split.emit('data', new Uint8Array([0x01]));
+        await new Promise(r => setTimeout(r, 300));
+        expect(split.writeMock).toHaveBeenCalledTimes(1);
+        expect(new TextDecoder('utf-16be').decode(split.writeMock.mock.calls[0]![0].subarray(3))).toStartWith('§1');
+    });
+
+    test('should kick joining players with a Login Disconnect during maintenance', async () => {
+        const maintenanceProxy = new ProxyServer({
+            debug: false,
+            maintenance: { enabled: true, kickMessage: 'Back soon' }
+        }, new MinecraftProtocol());
+        (maintenanceProxy as any).transport = transport;
+        await maintenanceProxy.start();
+
+        const client = new MockConnection();
+        transport.simulateConnection(client);
+
+        const oldConnect = Bun.connect;
+        const connectMock = mock(() => Promise.reject('Backend unavailable'));
+        Bun.connect = connectMock as any;
+
+        client.emit('data', writeHandshake({ protocolVersion: 765, serverAddress: 'localhost', serverPort: 25565, nextState: 2 }));
+        await new Promise(r => setTimeout(r, 10));
+
+        expect(connectMock).not.toHaveBeenCalled();
+        const disconnect = readPacket(client.writeMock.mock.calls[0]![0]);
+        expect(disconnect!.id).toBe(0x00);
+        expect(JSON.parse(readStringSync(disconnect!.payload, 0).value)).toEqual({ text: 'Back soon' });
+        expect(client.closeMock).toHaveBeenCalled();
+
+        Bun.connect = oldConnect;
+    });
+
+    test('should reject logins from versions outside the route range', async () => {
+        const versionProxy = new ProxyServer({
+            debug: false,
+            versions: { min: '1.20.3' },
+            routes: [{ host: 'legacy.example.com', backendHost: 'legacy', backendPort: 25567, versions: { min: '1.8', max: '1.12.2' } }]
+        }, new MinecraftProtocol());
+        (versionProxy as any).transport = transport;
+        await versionProxy.start();
+
+        const oldConnect = Bun.connect;
+        const connectMock = mock(() => Promise.reject('Backend unavailable'));
+        Bun.connect = connectMock as any;
+
+        const client = new MockConnection();
+        transport.simulateConnection(client);
+        client.emit('data', writeHandshake({ protocolVersion: 763, serverAddress: 'localhost', serverPort: 25565, nextState: 2 }));
+        await new Promise(r => setTimeout(r, 10));
+
+        const disconnect = readPacket(client.writeMock.mock.calls[0]![0]);
+        expect(JSON.parse(readStringSync(disconnect!.payload, 0).value)).toEqual({
+            text: 'Unsupported Minecraft version 1.20.1. Please use 1.20.3 or newer.'
+        });
+        expect(client.closeMock).toHaveBeenCalled();
+
+        // The route's range replaces the proxy-wide minimum
+        const legacy = new MockConnection();
+        transport.simulateConnection(legacy);
+        legacy.emit('data', writeHandshake({ protocolVersion: 47, serverAddress: 'legacy.example.com', serverPort: 25565, nextState: 2 }));
+        await new Promise(r => setTimeout(r, 10));
+        expect(legacy.writeMock).not.toHaveBeenCalled();
+
+        // Counted by release name only, so unregistered protocol numbers cannot add series
+        const text = globalMetrics.toPrometheusText();
+        expect(text).toMatch(/proxy_client_versions_total\{version="1\.20\.1",next_state="login"\} \d+/);
+        expect(text).not.toContain('protocol="');
+
+        Bun.connect = oldConnect;
+    });
+
+    test('should count every snapshot under one version series', async () => {
+        const snapshotProxy = new ProxyServer({ debug: false }, new MinecraftProtocol());
+        (snapshotProxy as any).transport = transport;
+        await snapshotProxy.start();
+
+        const oldConnect = Bun.connect;
+        Bun.connect = mock(() => Promise.reject('Backend unavailable')) as any;
+
+        const series = /^proxy_client_versions_total\{version="snapshot[^"]*",next_state="status"\} (\d+)$/gm;
+        const count = () => [...globalMetrics.toPrometheusText().matchAll(series)].map((m) => Number(m[1]));
+        const before = count()[0] ?? 0;
+
+        for (const protocolVersion of [0x40000000 + 150, 0x40000000 + 151]) {
+            const client = new MockConnection();
+            transport.simulateConnection(client);
+            client.emit('data', writeHandshake({ protocolVersion, serverAddress: 'localhost', serverPort: 25565, nextState: 1 }));
+        }
+        await new Promise(r => setTimeout(r, 10));
+
+        expect(count()).toEqual([before + 2]);
+
+        snapshotProxy.stop();
+        Bun.connect = oldConnect;
+    });
+
+    test('should reject unknown version names in the config', () => {
+        expect(() => new ProxyServer({ versions: { max: '9.9' } })).toThrow('Unknown Minecraft version: 9.9');
+    });
+
+    test('should toggle maintenance per route at runtime', async () => {
+        const maintenanceProxy = new ProxyServer({
+            debug: false,
+            routes: [{ host: 'creative.example.com', backendHost: 'creative', backendPort: 25567, maintenance: { motd: 'Creative is down' } }]
+        }, new MinecraftProtocol());
+        (maintenanceProxy as any).transport = transport;
+        await maintenanceProxy.start();
+
+        expect(maintenanceProxy.isInMaintenance('creative.example.com')).toBe(false);
+        maintenanceProxy.setMaintenance(true, 'creative.example.com');
+        expect(maintenanceProxy.isInMaintenance('creative.example.com')).toBe(true);
+        expect(maintenanceProxy.isInMaintenance()).toBe(false);
+
+        const client = new MockConnection();
+        transport.simulateConnection(client);
+        client.emit('data', writeHandshake({ protocolVersion: 765, serverAddress: 'creative.example.com', serverPort: 25565, nextState: 1 }));
+        client.emit('data', writePacket(0x00));
+        await new Promise(r => setTimeout(r, 10));
+
+        const response = readPacket(client.writeMock.mock.calls[0]![0]);
+        expect(readStatusResponse(response!.payload).description).toEqual({ text: 'Creative is down' });
+
+        maintenanceProxy.setMaintenance(false, 'creative.example.com');
+        expect(maintenanceProxy.isInMaintenance('creative.example.com')).toBe(false);
+    });
+
+    test('should wait for Login Start and expose the player on the connection', async () => {
+        const loginProxy = new ProxyServer({ debug: false }, new MinecraftProtocol());
+        (loginProxy as any).transport = transport;
+        await loginProxy.start();
+
+        const client = new MockConnection();
+        transport.simulateConnection(client);
+
+        const oldConnect = Bun.connect;
+        const connectMock = mock(() => Promise.reject('Backend unavailable'));
+        Bun.connect = connectMock as any;
+
+        client.emit('data', writeHandshake({ protocolVersion: 47, serverAddress: 'localhost', serverPort: 25565, nextState: 2 }));
+        await new Promise(r => setTimeout(r, 10));
+        expect(connectMock).not.toHaveBeenCalled();
+
+        client.emit('data', writePacket(0x00, encodeString('Steve')));
+        await new Promise(r => setTimeout(r, 10));
+
+        expect(client.data.player).toEqual({ username: 'Steve' });
+        expect(connectMock).toHaveBeenCalled();
+
+        // Transfers from another server log in the same way
+        const transferred = new MockConnection();
+        transport.simulateConnection(transferred);
+        transferred.emit('data', writeHandshake({ protocolVersion: 766, serverAddress: 'localhost', serverPort: 25565, nextState: 3 }));
+        transferred.emit('data', writePacket(0x00, new Uint8Array([...encodeString('Alex'), ...new Uint8Array(16)])));
+        await new Promise(r => setTimeout(r, 10));
+
+        expect(transferred.data.player).toMatchObject({ username: 'Alex' });
+
+        Bun.connect = oldConnect;
+    });
+
+    test('should inject BungeeCord forwarding data into the login handshake', async () => {
+        const bungeeProxy = new ProxyServer({ debug: false, ipForwarding: 'bungeecord' }, new MinecraftProtocol());
+        (bungeeProxy as any).transport = transport;
+        await bungeeProxy.start();
+
+        const client = new MockConnection('203.0.113.7', 51234);
+        transport.simulateConnection(client);
+
+        const oldConnect = Bun.connect;
+        const backendWrite = mock();
+        Bun.connect = mock(() => Promise.resolve({ write: backendWrite, end: mock() })) as any;
+
+        const loginStart = writePacket(0x00, encodeString('Notch'));
+        client.emit('data', writeHandshake({ protocolVersion: 47, serverAddress: 'mc.example.com\0FML\0', serverPort: 25565, nextState: 2 }));
+        client.emit('data', loginStart);
+        await new Promise(r => setTimeout(r, 10));
+
+        const written: Uint8Array = backendWrite.mock.calls[0]![0];
+        const { handshake, bytesRead } = parseHandshake(written);
+        expect(handshake.serverAddress).toBe('mc.example.com\x00203.0.113.7\x00b50ad385829d3141a2167e7d7539ba7f');
+        expect(handshake.serverPort).toBe(25565);
+        expect(handshake.nextState).toBe(2);
+        expect(written.subarray(bytesRead)).toEqual(loginStart);
+
+        // Transfer logins are forwarded the same way
+        const transferred = new MockConnection('203.0.113.8', 51235);
+        transport.simulateConnection(transferred);
+        transferred.emit('data', writeHandshake({ protocolVersion: 766, serverAddress: 'mc.example.com', serverPort: 25565, nextState: 3 }));
+        transferred.emit('data', writePacket(0x00, new Uint8Array([...encodeString('Notch'), ...new Uint8Array(16)])));
+        await new Promise(r => setTimeout(r, 10));
+
+        const transfer = parseHandshake(backendWrite.mock.calls[1]![0]).handshake;
+        expect(transfer.serverAddress).toBe('mc.example.com\x00203.0.113.8\x00b50ad385829d3141a2167e7d7539ba7f');
+        expect(transfer.nextState).toBe(3);
+
+        Bun.connect = oldConnect;
+    });
+
+    test('should rewrite the handshake and keep pipelined bytes', async () => {
+        const rewriteProxy = new ProxyServer({
+            debug: false,
+            routes: [{ host: 'play.example.com', backendHost: 'lobby', backendPort: 25565, rewrite: { serverAddress: 'lobby.internal' } }]
+        }, new MinecraftProtocol());
+        (rewriteProxy as any).transport = transport;
+        await rewriteProxy.start();
+
+        const rewriter = mock((handshake: any, context: any) => ({ serverPort: 25570 }));
+        rewriteProxy.setHandshakeRewriter(rewriter);
+
+        const client = new MockConnection();
+        transport.simulateConnection(client);
+
+        const oldConnect = Bun.connect;
+        const backendWrite = mock();
+        Bun.connect = mock(() => Promise.resolve({ write: backendWrite, end: mock() })) as any;
+
+        const handshake = writeHandshake({ protocolVersion: 765, serverAddress: 'play.example.com', serverPort: 25565, nextState: 1 });
+        const request = writePacket(0x00);
+        const combined = new Uint8Array(handshake.length + request.length);
+        combined.set(handshake);
+        combined.set(request, handshake.length);
+        client.emit('data', combined);
+        await new Promise(r => setTimeout(r, 10));
+
+        const [seen, context] = rewriter.mock.calls[0] as any[];
+        expect(seen.serverAddress).toBe('lobby.internal');
+        expect(context.target.route.host).toBe('play.example.com');
+
+        const written: Uint8Array = backendWrite.mock.calls[0]![0];
+        const parsed = parseHandshake(written);
+        expect(parsed.handshake.serverAddress).toBe('lobby.internal');
+        expect(parsed.handshake.serverPort).toBe(25570);
+        expect(parsed.handshake.protocolVersion).toBe(765);
+        expect(parsed.handshake.nextState).toBe(1);
+        expect(written.subarray(parsed.bytesRead)).toEqual(request);
+
+        Bun.connect = oldConnect;
+    });
+
+    test('should disconnect banned players before connecting to the backend', async () => {
+        const fileName = join(tmpdir(), `proxy-bans-${Date.now()}.yaml`);
+        await Bun.write(fileName, Bun.YAML.stringify({
+            whitelist: { enabled: false, entries: [] },
+            bans: [{ username: 'Griefer', reason: 'Banned for griefing' }]
+        }));
+
+        const bannedProxy = new ProxyServer({ debug: false, accessListFile: fileName }, new MinecraftProtocol());
+        (bannedProxy as any).transport = transport;
+        await bannedProxy.start();
+
+        const client = new MockConnection();
+        transport.simulateConnection(client);
+
+        const oldConnect = Bun.connect;
+        const connectMock = mock(() => Promise.reject('Backend unavailable'));
+        Bun.connect = connectMock as any;
+
+        client.emit('data', writeHandshake({ protocolVersion: 47, serverAddress: 'localhost', serverPort: 25565, nextState: 2 }));
+        client.emit('data', writePacket(0x00, encodeString('Griefer')));
+        await new Promise(r => setTimeout(r, 10));
+
+        expect(connectMock).not.toHaveBeenCalled();
+        const disconnect = readPacket(client.writeMock.mock.calls[0]![0]);
+        expect(JSON.parse(readStringSync(disconnect!.payload, 0).value)).toEqual({ text: 'Banned for griefing' });
+        expect(client.closeMock).toHaveBeenCalled();
+
+        bannedProxy.stop();
+        Bun.connect = oldConnect;
+        await unlink(fileName);
+    });
+
+    test('should refuse banned IPs that log in through a transfer', async () => {
+        const fileName = join(tmpdir(), `proxy-ip-bans-${Date.now()}.yaml`);
+        await Bun.write(fileName, Bun.YAML.stringify({
+            whitelist: { enabled: false, entries: [] },
+            bans: [{ ip: '203.0.113.9', reason: 'Banned address' }]
+        }));
+
+        const bannedProxy = new ProxyServer({ debug: false, accessListFile: fileName }, new MinecraftProtocol());
+        (bannedProxy as any).transport = transport;
+        await bannedProxy.start();
+
+        const client = new MockConnection('203.0.113.9');
+        transport.simulateConnection(client);
+
+        const oldConnect = Bun.connect;
+        const connectMock = mock(() => Promise.reject('Backend unavailable'));
+        Bun.connect = connectMock as any;
+
+        client.emit('data', writeHandshake({ protocolVersion: 766, serverAddress: 'localhost', serverPort: 25565, nextState: 3 }));
+        client.emit('data', writePacket(0x00, new Uint8Array([...encodeString('Steve'), ...new Uint8Array(16)])));
+        await new Promise(r => setTimeout(r, 10));
+
+        expect(connectMock).not.toHaveBeenCalled();
+        const disconnect = readPacket(client.writeMock.mock.calls[0]![0]);
+        expect(JSON.parse(readStringSync(disconnect!.payload, 0).value)).toEqual({ text: 'Banned address' });
+        expect(client.closeMock).toHaveBeenCalled();
+
+        bannedProxy.stop();
+        Bun.connect = oldConnect;
+        await unlink(fileName);
+    });
+
+    test('should route by the handshake returned from middleware', async () => {
+        const middlewareProxy = new ProxyServer({
+            debug: false,
+            routes: [{ host: 'lobby.example.com', backendHost: 'lobby', backendPort: 25570 }]
+        }, new MinecraftProtocol());
+        (middlewareProxy as any).transport = transport;
+        middlewareProxy.use({ onHandshake: (handshake) => ({ ...handshake, serverAddress: 'lobby.example.com' }) });
+        await middlewareProxy.start();
+
+        const client = new MockConnection();
+        transport.simulateConnection(client);
+
+        const oldConnect = Bun.connect;
+        const backendWrite = mock();
+        const connectMock = mock(() => Promise.resolve({ write: backendWrite, end: mock() }));
+        Bun.connect = connectMock as any;
+
+        const request = writePacket(0x00);
+        const handshake = writeHandshake({ protocolVersion: 765, serverAddress: 'play.example.com', serverPort: 25565, nextState: 1 });
+        client.emit('data', Buffer.concat([handshake, request]));
+        await new Promise(r => setTimeout(r, 10));
+
+        expect((connectMock.mock.calls[0] as any[])[0].hostname).toBe('lobby');
+        const written: Uint8Array = backendWrite.mock.calls[0]![0];
+        const parsed = parseHandshake(written);
+        expect(parsed.handshake.serverAddress).toBe('lobby.example.com');
+        expect(written.subarray(parsed.bytesRead)).toEqual(request);
+
+        Bun.connect = oldConnect;
+    });
+
+    test('should close the connection when middleware drops the handshake', async () => {
+        const middlewareProxy = new ProxyServer({ debug: false }, new MinecraftProtocol());
+        (middlewareProxy as any).transport = transport;
+        const onClose = mock();
+        middlewareProxy.use({ onHandshake: () => null, onClose });
+        await middlewareProxy.start();
+
+        const client = new MockConnection();
+        transport.simulateConnection(client);
+
+        const oldConnect = Bun.connect;
+        const connectMock = mock(() => Promise.reject('Backend unavailable'));
+        Bun.connect = connectMock as any;
+
+        client.emit('data', writeHandshake({ protocolVersion: 765, serverAddress: 'localhost', serverPort: 25565, nextState: 1 }));
+        await new Promise(r => setTimeout(r, 10));
+
+        expect(connectMock).not.toHaveBeenCalled();
+        expect(client.closeMock).toHaveBeenCalled();
+        expect(onClose).toHaveBeenCalledTimes(1);
+
+        Bun.connect = oldConnect;
+    });
+
+    test('should pass data in both directions through middleware', async () => {
+        const middlewareProxy = new ProxyServer({ debug: false }, new MinecraftProtocol());
+        (middlewareProxy as any).transport = transport;
+        const onClose = mock();
+        middlewareProxy.use({
+            onHandshake: (handshake, context) => context.sendToServer(new Uint8Array([9])),
+            onClientData: (data) => data[0] === 0 ? null : data.map(b => b * 2),
+            onServerData: (data) => data.map(b => b + 1),
+            onClose,
+        });
+        await middlewareProxy.start();
+
+        const client = new MockConnection();
+        transport.simulateConnection(client);
+
+        const oldConnect = Bun.connect;
+        const backendWrite = mock();
+        let socketHandlers: any;
+        Bun.connect = mock((options: any) => {
+            socketHandlers = options.socket;
+            return Promise.resolve({ write: backendWrite, end: mock() });
+        }) as any;
+
+        const handshake = writeHandshake({ protocolVersion: 765, serverAddress: 'localhost', serverPort: 25565, nextState: 1 });
+        client.emit('data', handshake);
+        await new Promise(r => setTimeout(r, 10));
+
+        expect(backendWrite.mock.calls[0]![0]).toEqual(handshake);
+        expect(backendWrite.mock.calls[1]![0]).toEqual(new Uint8Array([9]));
+
+        client.emit('data', new Uint8Array([1, 2]));
+        client.emit('data', new Uint8Array([0, 1]));
+        expect(backendWrite).toHaveBeenCalledTimes(3);
+        expect(backendWrite.mock.calls[2]![0]).toEqual(new Uint8Array([2, 4]));
+
+        socketHandlers.data({}, new Uint8Array([5]));
+        expect(client.writeMock).toHaveBeenCalledWith(new Uint8Array([6]));
+
+        client.close();
+        client.close();
+        expect(onClose).toHaveBeenCalledTimes(1);
+
+        Bun.connect = oldConnect;
+    });
+
+    test('should emit lifecycle events for a proxied connection', async () => {
+        const eventProxy = new ProxyServer({
+            debug: false,
+            backends: [{ host: 'down', port: 25565 }, { host: 'up', port: 25565 }]
+        }, new MinecraftProtocol());
+        (eventProxy as any).transport = transport;
+
+        const events: string[] = [];
+        let closed: any;
+        eventProxy
+            .on('listening', ({ port }) => events.push(`listening ${port}`))
+            .on('connection', () => events.push('connection'))
+            .on('handshake', ({ handshake, target }) => events.push(`handshake ${handshake.serverAddress} -> ${target.host}`))
+            .on('backendFailed', ({ backend }) => events.push(`backendFailed ${backend.host}`))
+            .on('backendConnected', ({ backend }) => events.push(`backendConnected ${backend.host}`))
+            .on('closed', (event) => { closed = event; events.push('closed'); });
+        await eventProxy.start();
+
+        const client = new MockConnection();
+        transport.simulateConnection(client);
+
+        const oldConnect = Bun.connect;
+        let socketHandlers: any;
+        Bun.connect = mock((options: any) => {
+            if (options.hostname === 'down') return Promise.reject(new Error('Backend unavailable'));
+            socketHandlers = options.socket;
+            return Promise.resolve({ write: mock(), end: mock() });
+        }) as any;
+
+        const handshake = writeHandshake({ protocolVersion: 765, serverAddress: 'localhost', serverPort: 25565, nextState: 1 });
+        client.emit('data', handshake);
+        await new Promise(r => setTimeout(r, 10));
+        client.emit('data', new Uint8Array([1, 2, 3]));
+        socketHandlers.data({}, new Uint8Array([4, 5]));
+        client.close();
+
+        expect(events).toEqual([
+            'listening 25566',
+            'connection',
+            'handshake localhost -> down',
+            'backendFailed down',
+            'backendConnected up',
+            'closed',
+        ]);
+        expect(closed.backend).toEqual({ host: 'up', port: 25565 });
+        expect(closed.bytesIn).toBe(handshake.length + 3);
+        expect(closed.bytesOut).toBe(2);
+        expect(closed.durationMs).toBeGreaterThanOrEqual(0);
+
+        Bun.connect = oldConnect;
+    });
+
+    test('should record latency histograms and byte counters per route and backend', async () => {
+        const timedProxy = new ProxyServer({
+            debug: false,
+            routes: [{ host: 'timed.example.com', backendHost: 'timed-backend', backendPort: 25571 }]
+        }, new MinecraftProtocol());
+        (timedProxy as any).transport = transport;
+        await timedProxy.start();
+
+        const client = new MockConnection();
+        transport.simulateConnection(client);
+
+        const oldConnect = Bun.connect;
+        let socketHandlers: any;
+        Bun.connect = mock((options: any) => {
+            socketHandlers = options.socket;
+            return Promise.resolve({ write: mock(), end: mock() });
+        }) as any;
+
+        const handshake = writeHandshake({ protocolVersion: 765, serverAddress: 'timed.example.com', serverPort: 25565, nextState: 1 });
+        client.emit('data', handshake);
+        await new Promise(r => setTimeout(r, 10));
+        client.emit('data', new Uint8Array([1, 2, 3]));
+        socketHandlers.data({}, new Uint8Array([4, 5]));
+        client.close();
+
+        const text = globalMetrics.toPrometheusText();
+        const labels = 'route="timed.example.com",backend="timed-backend:25571"';
+        expect(text).toContain('proxy_handshake_parse_seconds_count{route="timed.example.com"} 1');
+        expect(text).toContain(`proxy_backend_connect_seconds_count{${labels}} 1`);
+        expect(text).toContain(`proxy_session_duration_seconds_count{${labels}} 1`);
+        expect(text).toContain(`proxy_bytes_received_total{${labels}} ${handshake.length + 3}`);
+        expect(text).toContain(`proxy_bytes_sent_total{${labels}} 2`);
+
+        Bun.connect = oldConnect;
+    });
+
+    test('should emit an error event for invalid handshakes', async () => {
+        const errorProxy = new ProxyServer({ debug: false }, new MinecraftProtocol());
+        (errorProxy as any).transport = transport;
+        const onError = mock();
+        errorProxy.on('error', onError);
+        await errorProxy.start();
+
+        const client = new MockConnection();
+        transport.simulateConnection(client);
+        client.emit('data', new Uint8Array([0x05, 0x01, 0x00, 0x00, 0x00, 0x00]));
+
+        expect(onError).toHaveBeenCalledTimes(1);
+        expect((onError.mock.calls[0] as any[])[0].error).toBeInstanceOf(Error);
+        expect(client.closeMock).toHaveBeenCalled();
+    });
+
+    test('should serve metrics over HTTP while running', async () => {
+        const metricsProxy = new ProxyServer({ debug: false, metrics: { port: 0, host: '127.0.0.1' } }, protocol);
+        (metricsProxy as any).transport = transport;
+        await metricsProxy.start();
+
+        const port = (metricsProxy as any).metricsServer.port;
+        const response = await fetch(`http://127.0.0.1:${port}/metrics`);
+        expect(await response.text()).toContain('# TYPE proxy_client_versions_total counter');
+
+        metricsProxy.stop();
+        expect((metricsProxy as any).metricsServer.port).toBeUndefined();
+    });
+
     test('should close client on handshake error', async () => {
         await proxy.start();
         const client = new MockConnection();
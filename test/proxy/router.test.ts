@@ -0,0 +1,74 @@
+import { describe, expect, test } from 'bun:test';
+import { matchRoute, normalizeServerAddress, resolveRoute, type RouteTarget } from '../../src/core/router.js';
+import { createConfig, type ProxyRoute } from '../../src/config/config.js';
+
+const routes: ProxyRoute[] = [
+    { host: '*', backendHost: 'lobby', backendPort: 25565 },
+    { host: '*.play.example.com', backendHost: 'minigames', backendPort: 25570 },
+    { host: 'survival.play.example.com', backendHost: 'survival', backendPort: 25566 },
+    { host: 'creative.example.com', backendHost: 'creative', backendPort: 25567 },
+];
+
+describe('Router', () => {
+    test('normalizeServerAddress strips FML markers, trailing dots and case', () => {
+        expect(normalizeServerAddress('Survival.Example.com.')).toBe('survival.example.com');
+        expect(normalizeServerAddress('mc.example.com\0FML3\0')).toBe('mc.example.com');
+    });
+
+    test('exact match wins over wildcard', () => {
+        expect(matchRoute(routes, 'survival.play.example.com')?.backendHost).toBe('survival');
+    });
+
+    test('wildcard matches subdomains but not the bare domain', () => {
+        expect(matchRoute(routes, 'bedwars.play.example.com')?.backendHost).toBe('minigames');
+        expect(matchRoute(routes, 'play.example.com')?.backendHost).toBe('lobby');
+    });
+
+    test('default route catches unknown hosts', () => {
+        expect(matchRoute(routes, 'unknown.net')?.backendHost).toBe('lobby');
+    });
+
+    test('returns null when nothing matches', () => {
+        expect(matchRoute([routes[3]!], 'unknown.net')).toBeNull();
+    });
+
+    test('resolveRoute falls back to minecraftHost/minecraftPort', () => {
+        const config = createConfig({
+            minecraftHost: 'fallback',
+            minecraftPort: 25000,
+            routes: [routes[3]!],
+        });
+
+        expect(resolveRoute(config, 'creative.example.com')).toEqual({
+            host: 'creative',
+            port: 25567,
+            route: routes[3]!,
+            backends: [{ host: 'creative', port: 25567 }],
+            strategy: 'round-robin',
+        });
+        const fallback: RouteTarget = { host: 'fallback', port: 25000, route: null, backends: [{ host: 'fallback', port: 25000 }], strategy: 'round-robin' };
+        expect(resolveRoute(config, 'other.example.com')).toEqual(fallback);
+        expect(resolveRoute(config)).toEqual(fallback);
+    });
+
+    test('resolveRoute returns the backend pool of a route', () => {
+        const backends = [{ host: 'lobby-1', port: 25565 }, { host: 'lobby-2', port: 25565 }];
+        const config = createConfig({
+            routes: [{ host: 'lobby.example.com', backends, strategy: 'least-connections' }],
+            backends: [{ host: 'default-1', port: 25565 }],
+        });
+
+        expect(resolveRoute(config, 'lobby.example.com')).toMatchObject({
+            host: 'lobby-1',
+            port: 25565,
+            backends,
+            strategy: 'least-connections',
+        });
+        expect(resolveRoute(config, 'other.example.com').backends).toEqual([{ host: 'default-1', port: 25565 }]);
+    });
+
+    test('resolveRoute rejects a route without backends', () => {
+        const config = createConfig({ routes: [{ host: 'broken.example.com' }] });
+        expect(() => resolveRoute(config, 'broken.example.com')).toThrow('has no backend');
+    });
+});
@@ -0,0 +1,80 @@
+import { describe, expect, test, afterAll } from 'bun:test';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { StatusResponder, resolveStatusConfig } from '../../src/core/StatusResponder.js';
+import { writeStatusResponse } from '../../src/core/status.js';
+import { createConfig, defaultStatusConfig } from '../../src/config/config.js';
+import type { Handshake } from '../../src/core/handshake.js';
+
+const handshake: Handshake = {
+    packetLength: 0,
+    packetId: 0,
+    protocolVersion: 765,
+    serverAddress: 'localhost',
+    serverPort: 25565,
+    nextState: 1,
+};
+
+describe('StatusResponder', () => {
+    const BACKEND_PORT = 32111;
+    let queries = 0;
+    const backend = Bun.listen({
+        hostname: 'localhost',
+        port: BACKEND_PORT,
+        socket: {
+            data(socket) {
+                queries++;
+                socket.write(writeStatusResponse({
+                    version: { name: 'Paper 1.20.4', protocol: 765 },
+                    players: { max: 10, online: queries },
+                    description: 'Backend MOTD',
+                }));
+            },
+        },
+    });
+
+    afterAll(() => backend.stop());
+
+    test('resolveStatusConfig layers route overrides over proxy settings', () => {
+        const config = createConfig({ status: { mode: 'static', motd: 'Global' } });
+        const settings = resolveStatusConfig(config, {
+            host: 'a.example.com',
+            backendHost: 'a',
+            backendPort: 1,
+            status: { motd: 'Route' },
+        });
+        expect(settings.mode).toBe('static');
+        expect(settings.motd).toBe('Route');
+        expect(settings.cacheTtlMs).toBe(defaultStatusConfig.cacheTtlMs);
+    });
+
+    test('cached mode reuses the backend status within the TTL', async () => {
+        const responder = new StatusResponder();
+        const settings = { ...defaultStatusConfig, mode: 'cached' as const, cacheTtlMs: 60_000 };
+
+        const first = await responder.getCachedStatus(settings, handshake, 'localhost', BACKEND_PORT);
+        const second = await responder.getCachedStatus(settings, handshake, 'localhost', BACKEND_PORT);
+
+        expect(first.description).toBe('Backend MOTD');
+        expect(second).toBe(first);
+        expect(queries).toBe(1);
+    });
+
+    test('cached mode falls back when the backend is unreachable', async () => {
+        const responder = new StatusResponder();
+        const settings = { ...defaultStatusConfig, mode: 'cached' as const, fallbackMotd: 'Offline' };
+
+        const status = await responder.getCachedStatus(settings, handshake, 'localhost', 32199);
+        expect(status.description).toEqual({ text: 'Offline' });
+    });
+
+    test('favicon is embedded as a PNG data URI', async () => {
+        const path = join(tmpdir(), `favicon-${Date.now()}.png`);
+        const png = new Uint8Array([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A, 1, 2, 3]);
+        await Bun.write(path, png);
+
+        const responder = new StatusResponder();
+        const status = await responder.buildStatus({ ...defaultStatusConfig, faviconPath: path }, handshake);
+        expect(status.favicon).toBe(`data:image/png;base64,${Buffer.from(png).toString('base64')}`);
+    });
+});
@@ -0,0 +1,61 @@
+import { describe, expect, test } from 'bun:test';
+import { TcpTransport } from '../../src/transports/TcpTransport.js';
+import type { Connection } from '../../src/transports/Transport.js';
+import { writeProxyHeaderV1 } from '../../src/core/proxy-protocol.js';
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function accept(trustedProxies: string[], port: number, payload: Uint8Array) {
+    const transport = new TcpTransport({ trustedProxies });
+    const connections: Connection[] = [];
+    const received: Uint8Array[] = [];
+    transport.onConnection((conn) => {
+        connections.push(conn);
+        conn.on('data', (data) => received.push(new Uint8Array(data)));
+    });
+    await transport.listen(port, '127.0.0.1');
+
+    const client = await Bun.connect({ hostname: '127.0.0.1', port, socket: { data() {} } });
+    // Send in two chunks to exercise buffering of a partial header
+    client.write(payload.subarray(0, 10));
+    await delay(20);
+    client.write(payload.subarray(10));
+    await delay(50);
+
+    client.end();
+    transport.close();
+    return { connections, received: Buffer.concat(received) };
+}
+
+function withHeader(data: string) {
+    const header = writeProxyHeaderV1({ sourceAddress: '203.0.113.7', sourcePort: 51234, destinationAddress: '198.51.100.1', destinationPort: 25565 });
+    return new Uint8Array([...header, ...new TextEncoder().encode(data)]);
+}
+
+describe('TcpTransport PROXY protocol', () => {
+    test('uses the client address from a trusted proxy header', async () => {
+        const { connections, received } = await accept(['127.0.0.0/8'], 32141, withHeader('hello world'));
+
+        expect(connections).toHaveLength(1);
+        expect(connections[0]!.remoteAddress).toBe('203.0.113.7');
+        expect(connections[0]!.remotePort).toBe(51234);
+        expect(connections[0]!.localPort).toBe(25565);
+        expect(connections[0]!.proxyAddress).toBe('127.0.0.1');
+        expect(received.toString()).toBe('hello world');
+    });
+
+    test('passes headers from untrusted sources through as data', async () => {
+        const { connections, received } = await accept(['10.0.0.0/8'], 32142, withHeader('hello'));
+
+        expect(connections[0]!.remoteAddress).toBe('127.0.0.1');
+        expect(connections[0]!.proxyAddress).toBeUndefined();
+        expect(received.toString()).toStartWith('PROXY TCP4 203.0.113.7');
+    });
+
+    test('accepts trusted connections without a header', async () => {
+        const { connections, received } = await accept(['127.0.0.1'], 32143, new TextEncoder().encode('\x10\x00 plain minecraft'));
+
+        expect(connections[0]!.remoteAddress).toBe('127.0.0.1');
+        expect(received.toString()).toBe('\x10\x00 plain minecraft');
+    });
+});
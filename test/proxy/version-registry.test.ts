@@ -0,0 +1,50 @@
+import { describe, expect, test } from 'bun:test';
+import { VersionRegistry } from '../../src/core/VersionRegistry.js';
+
+describe('VersionRegistry', () => {
+    const registry = new VersionRegistry();
+
+    test('names releases by the newest version sharing the protocol', () => {
+        expect(registry.format(765)).toBe('1.20.4 (765)');
+        expect(registry.getName(47)).toBe('1.8.9');
+        expect(registry.getName(767)).toBe('1.21.1');
+    });
+
+    test('names snapshots', () => {
+        expect(registry.getName(450)).toBe('1.14 snapshot');
+        expect(registry.getName(0x40000000 + 150)).toBe('snapshot 150');
+        expect(registry.format(99999)).toBe('unknown (99999)');
+    });
+
+    test('labels metrics with bounded values', () => {
+        expect(registry.getLabel(765)).toBe('1.20.4');
+        expect(registry.getLabel(0x40000000 + 150)).toBe('snapshot');
+        expect(registry.getLabel(0x40000000 + 151)).toBe('snapshot');
+        expect(registry.getLabel(99999)).toBe('unknown');
+    });
+
+    test('resolves names and numbers', () => {
+        expect(registry.resolve('1.20.3')).toBe(765);
+        expect(registry.resolve(760)).toBe(760);
+        expect(() => registry.resolve('2.0')).toThrow('Unknown Minecraft version: 2.0');
+    });
+
+    test('checks and describes ranges', () => {
+        const policy = { min: '1.19', max: 765 };
+        expect(registry.isAllowed(759, policy)).toBe(true);
+        expect(registry.isAllowed(765, policy)).toBe(true);
+        expect(registry.isAllowed(758, policy)).toBe(false);
+        expect(registry.isAllowed(766, policy)).toBe(false);
+        expect(registry.describe(policy)).toBe('1.19 to 1.20.4');
+        expect(registry.describe({ max: 47 })).toBe('1.8.9 or older');
+        expect(registry.rejectionMessage(47, { min: 759, message: '{version} is too old, use {supported}' }))
+            .toBe('1.8.9 is too old, use 1.19 or newer');
+    });
+
+    test('accepts newly registered versions', () => {
+        const custom = new VersionRegistry([[100, ['1.0-custom']]]);
+        custom.register(200, '2.0-custom');
+        expect(custom.format(200)).toBe('2.0-custom (200)');
+        expect(custom.resolve('1.0-custom')).toBe(100);
+    });
+});
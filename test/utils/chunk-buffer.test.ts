@@ -0,0 +1,45 @@
+import { describe, expect, test } from 'bun:test';
+import { ChunkBuffer } from '../../src/core/ChunkBuffer.js';
+
+function filled(...chunks: number[][]): ChunkBuffer {
+    const buffer = new ChunkBuffer();
+    for (const chunk of chunks) buffer.push(new Uint8Array(chunk));
+    return buffer;
+}
+
+describe('ChunkBuffer', () => {
+    test('reads bytes across chunk boundaries without joining', () => {
+        const buffer = filled([1, 2], [3], [4, 5, 6]);
+        expect(buffer.length).toBe(6);
+        expect(buffer.byteAt(0)).toBe(1);
+        expect(buffer.byteAt(3)).toBe(4);
+        expect(buffer.byteAt(6)).toBeUndefined();
+        expect(buffer.indexOf(5)).toBe(4);
+        expect(buffer.indexOf(2, 2)).toBe(-1);
+    });
+
+    test('peek joins only the chunks it needs', () => {
+        const buffer = filled([1, 2], [3], [4, 5, 6]);
+        expect(buffer.peek(1)).toEqual(new Uint8Array([1]));
+        expect(buffer.peek(3)).toEqual(new Uint8Array([1, 2, 3]));
+        expect(buffer.peek()).toEqual(new Uint8Array([1, 2, 3, 4, 5, 6]));
+        expect(() => buffer.peek(7)).toThrow(RangeError);
+    });
+
+    test('read and skip consume from the front', () => {
+        const buffer = filled([1, 2], [3, 4], [5]);
+        buffer.skip(1);
+        expect(buffer.read(2)).toEqual(new Uint8Array([2, 3]));
+        expect(buffer.length).toBe(2);
+        expect(buffer.read()).toEqual(new Uint8Array([4, 5]));
+        expect(buffer.length).toBe(0);
+    });
+
+    test('keeps its own copy of pushed chunks', () => {
+        const chunk = new Uint8Array([1, 2, 3]);
+        const buffer = new ChunkBuffer();
+        buffer.push(chunk);
+        chunk.fill(0);
+        expect(buffer.peek()).toEqual(new Uint8Array([1, 2, 3]));
+    });
+});
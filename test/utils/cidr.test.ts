@@ -0,0 +1,67 @@
+import { describe, expect, test } from 'bun:test';
+import { bytesToIp, ipInCidr, ipMatchesAny, ipToBytes, isIpAddress, ipVersion } from '../../src/utils/cidr.js';
+
+describe('CIDR matching', () => {
+    test('validates addresses', () => {
+        expect(isIpAddress('192.168.1.1')).toBe(true);
+        expect(isIpAddress('2001:db8::1')).toBe(true);
+        expect(isIpAddress('::ffff:10.0.0.1')).toBe(true);
+        expect(isIpAddress('256.0.0.1')).toBe(false);
+        expect(isIpAddress('example.com')).toBe(false);
+        expect(isIpAddress('1::2::3')).toBe(false);
+    });
+
+    test('reports the address family', () => {
+        expect(ipVersion('10.0.0.1')).toBe(4);
+        expect(ipVersion('::ffff:10.0.0.1')).toBe(4);
+        expect(ipVersion('::1')).toBe(6);
+    });
+
+    test('matches IPv4 ranges', () => {
+        expect(ipInCidr('10.1.2.3', '10.0.0.0/8')).toBe(true);
+        expect(ipInCidr('11.1.2.3', '10.0.0.0/8')).toBe(false);
+        expect(ipInCidr('192.168.1.77', '192.168.1.64/26')).toBe(true);
+        expect(ipInCidr('192.168.1.128', '192.168.1.64/26')).toBe(false);
+        expect(ipInCidr('1.2.3.4', '0.0.0.0/0')).toBe(true);
+    });
+
+    test('rejects malformed prefixes instead of matching everything', () => {
+        expect(ipInCidr('8.8.8.8', '10.0.0.0/')).toBe(false);
+        expect(ipInCidr('8.8.8.8', '10.0.0.0/ ')).toBe(false);
+        expect(ipInCidr('10.0.0.1', '10.0.0.0/abc')).toBe(false);
+        expect(ipInCidr('10.0.0.1', '10.0.0.0/33')).toBe(false);
+        expect(ipInCidr('10.0.0.1', '10.0.0.0/+8')).toBe(false);
+        expect(ipMatchesAny('8.8.8.8', ['10.0.0.0/', '192.168.0.0/16'])).toBe(false);
+    });
+
+    test('bare addresses match exactly', () => {
+        expect(ipInCidr('203.0.113.5', '203.0.113.5')).toBe(true);
+        expect(ipInCidr('203.0.113.6', '203.0.113.5')).toBe(false);
+    });
+
+    test('matches IPv6 ranges', () => {
+        expect(ipInCidr('2001:db8:abcd::1', '2001:db8::/32')).toBe(true);
+        expect(ipInCidr('2001:db9::1', '2001:db8::/32')).toBe(false);
+        expect(ipInCidr('::1', '::1/128')).toBe(true);
+    });
+
+    test('treats IPv4-mapped IPv6 clients as IPv4', () => {
+        expect(ipInCidr('::ffff:10.0.0.5', '10.0.0.0/24')).toBe(true);
+        expect(ipInCidr('10.0.0.5', '::ffff:10.0.0.0/120')).toBe(true);
+    });
+
+    test('does not mix address families', () => {
+        expect(ipInCidr('10.0.0.1', '::/0')).toBe(false);
+        expect(ipMatchesAny('10.0.0.1', ['2001:db8::/32', '10.0.0.0/31'])).toBe(true);
+    });
+
+    test('converts addresses to and from bytes', () => {
+        expect(ipToBytes('192.168.1.2')).toEqual(new Uint8Array([192, 168, 1, 2]));
+        expect(ipToBytes('::ffff:10.0.0.1')).toEqual(new Uint8Array([10, 0, 0, 1]));
+        expect(ipToBytes('2001:db8::1')!.length).toBe(16);
+        expect(ipToBytes('example.com')).toBeNull();
+
+        expect(bytesToIp(new Uint8Array([10, 0, 0, 1]))).toBe('10.0.0.1');
+        expect(bytesToIp(ipToBytes('2001:db8::1')!)).toBe('2001:db8:0:0:0:0:0:1');
+    });
+});
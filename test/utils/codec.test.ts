@@ -0,0 +1,115 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  readByteArraySync, readIdentifierSync, readIntSync, readLongSync, readPositionSync, readShortSync,
+  encodeString, readStringSync, readUnsignedShortSync, readUuidSync, stringByteLength, writeByteArraySync,
+  writeIdentifierSync, writeIntSync, writeLongSync, writePositionSync, writeShortSync, writeStringSync,
+  writeUnsignedShortSync, writeUuidSync, readString, readUuid, readPosition, readLong, readByteArray,
+  writeString, writeUuid, writePosition,
+} from '../../src/core/codec.js';
+import { readVarInt } from '../../src/core/varint.js';
+import { StreamReader } from '../../src/core/stream.js';
+
+function streamOf(...chunks: number[][]): StreamReader {
+  return new StreamReader(new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(new Uint8Array(chunk));
+      controller.close();
+    },
+  }).getReader() as ReadableStreamDefaultReader<Uint8Array>);
+}
+
+/** Collects everything written, as the bytes a reader would receive */
+function collector() {
+  const chunks: Uint8Array[] = [];
+  const writer = new WritableStream<Uint8Array>({ write(chunk) { chunks.push(chunk); } }).getWriter();
+  return { writer, bytes: () => Uint8Array.from(chunks.flatMap((c) => [...c])) };
+}
+
+describe('Primitive codecs', () => {
+  test('big-endian integers round-trip', () => {
+    const buffer = new Uint8Array(16);
+    let offset = writeShortSync(buffer, -2, 0);
+    offset = writeUnsignedShortSync(buffer, 65535, offset);
+    offset = writeIntSync(buffer, -123456, offset);
+    offset = writeLongSync(buffer, -(2n ** 62n), offset);
+    expect(offset).toBe(16);
+
+    expect(buffer.subarray(0, 4)).toEqual(new Uint8Array([0xff, 0xfe, 0xff, 0xff]));
+    expect(readShortSync(buffer, 0).value).toBe(-2);
+    expect(readUnsignedShortSync(buffer, 2).value).toBe(65535);
+    expect(readIntSync(buffer, 4).value).toBe(-123456);
+    expect(readLongSync(buffer, 8)).toEqual({ value: -(2n ** 62n), offset: 16 });
+    expect(() => readIntSync(buffer, 14)).toThrow('Buffer too short for int');
+  });
+
+  test('strings enforce the maximum length', () => {
+    const value = 'héllo';
+    const buffer = new Uint8Array(stringByteLength(value));
+    expect(writeStringSync(buffer, value, 0)).toBe(buffer.length);
+    expect(readStringSync(buffer, 0)).toEqual({ value, offset: buffer.length });
+    expect(encodeString(value)).toEqual(buffer);
+
+    expect(() => readStringSync(buffer, 0, 4)).toThrow();
+    expect(() => writeStringSync(new Uint8Array(32), 'toolong', 0, 3)).toThrow('longer than 3');
+    expect(() => encodeString('toolong', 3)).toThrow('longer than 3');
+    expect(() => readStringSync(new Uint8Array([0x05, 0x61]), 0)).toThrow('Buffer too short for string');
+  });
+
+  test('identifiers are validated', () => {
+    const buffer = new Uint8Array(32);
+    const end = writeIdentifierSync(buffer, 'minecraft:brand', 0);
+    expect(readIdentifierSync(buffer, 0)).toEqual({ value: 'minecraft:brand', offset: end });
+    expect(() => writeIdentifierSync(buffer, 'Bad Name', 0)).toThrow('Invalid identifier');
+  });
+
+  test('UUIDs round-trip with or without dashes', () => {
+    const buffer = new Uint8Array(16);
+    writeUuidSync(buffer, '069a79f444e94726a5befca90e38aaf5', 0);
+    expect(readUuidSync(buffer, 0).value).toBe('069a79f4-44e9-4726-a5be-fca90e38aaf5');
+    expect(() => writeUuidSync(buffer, 'not-a-uuid', 0)).toThrow('Invalid UUID');
+  });
+
+  test('positions pack into 64 bits', () => {
+    const buffer = new Uint8Array(8);
+    const position = { x: -33554432, y: -2048, z: 33554431 };
+    writePositionSync(buffer, position, 0);
+    expect(readPositionSync(buffer, 0)).toEqual({ value: position, offset: 8 });
+
+    // Example from the protocol docs: x 18357644, y 831, z -20882616
+    writeLongSync(buffer, 0b01000110000001110110001100_10110000010101101101001000_001100111111n, 0);
+    expect(readPositionSync(buffer, 0).value).toEqual({ x: 18357644, y: 831, z: -20882616 });
+  });
+
+  test('byte arrays are length-prefixed views', () => {
+    const buffer = new Uint8Array(4);
+    writeByteArraySync(buffer, new Uint8Array([1, 2, 3]), 0);
+    expect(readByteArraySync(buffer, 0)).toEqual({ value: new Uint8Array([1, 2, 3]), offset: 4 });
+    expect(() => readByteArraySync(buffer, 0, 2)).toThrow('Invalid byte array length');
+  });
+});
+
+describe('Streaming codecs', () => {
+  test('read fields split across chunks', async () => {
+    const reader = streamOf([0x80], [0x01, 0x03, 0x61], [0x62, 0x63, 0x00, 0x00], [0x00, 0x00, 0x00, 0x00, 0x00, 0x2a]);
+    expect(await readVarInt(reader)).toBe(128);
+    expect(await readString(reader)).toBe('abc');
+    expect(await readLong(reader)).toBe(42n);
+  });
+
+  test('writers produce what the readers expect', async () => {
+    const { writer, bytes } = collector();
+    await writeString(writer, 'minecraft:stone');
+    await writeUuid(writer, '069a79f4-44e9-4726-a5be-fca90e38aaf5');
+    await writePosition(writer, { x: 1, y: -2, z: 3 });
+
+    const encoded = bytes();
+    const reader = streamOf([...encoded.subarray(0, 5)], [...encoded.subarray(5)]);
+    expect(await readString(reader)).toBe('minecraft:stone');
+    expect(await readUuid(reader)).toBe('069a79f4-44e9-4726-a5be-fca90e38aaf5');
+    expect(await readPosition(reader)).toEqual({ x: 1, y: -2, z: 3 });
+  });
+
+  test('fails when the stream ends mid-field', async () => {
+    await expect(readByteArray(streamOf([0x04, 0x01, 0x02]))).rejects.toThrow('Unexpected end of stream');
+  });
+});
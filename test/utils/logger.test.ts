@@ -0,0 +1,138 @@
+import { describe, expect, test } from 'bun:test';
+import { mkdtemp, readFile, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { BridgeServerEnhanced, ProxyServer, RotatingFileSink, StructuredLogger, createLogger, formatJson, formatPretty } from '../../src/index.js';
+import type { LogRecord, LogSink } from '../../src/index.js';
+
+class MemorySink implements LogSink {
+    records: LogRecord[] = [];
+
+    write(record: LogRecord) {
+        this.records.push(record);
+    }
+}
+
+const record = (fields: Record<string, unknown> = {}): LogRecord => ({
+    time: new Date('2025-01-01T12:00:00.000Z'),
+    level: 'info',
+    msg: 'Client closed',
+    fields,
+});
+
+describe('StructuredLogger', () => {
+    test('should drop records below its level', () => {
+        const sink = new MemorySink();
+        const logger = new StructuredLogger([sink], 'info');
+
+        logger.trace('trace');
+        logger.debug('debug');
+        logger.info('info');
+        logger.error('error');
+
+        expect(sink.records.map((r) => r.level)).toEqual(['info', 'error']);
+        expect(logger.isLevelEnabled('debug')).toBe(false);
+        expect(logger.isLevelEnabled('warn')).toBe(true);
+    });
+
+    test('should merge child fields with message fields', () => {
+        const sink = new MemorySink();
+        const logger = new StructuredLogger([sink], 'trace', { component: 'Bridge' });
+
+        logger.child({ agentId: 'home' }).child({ connId: 'abc' }).debug('Tunnel established', { connId: 'def', bytes: 3 });
+
+        expect(sink.records[0]!.fields).toEqual({ component: 'Bridge', agentId: 'home', connId: 'def', bytes: 3 });
+    });
+
+    test('should keep logging when a sink throws', () => {
+        const sink = new MemorySink();
+        const failing: LogSink = { write: () => { throw new Error('disk full'); } };
+        const originalError = console.error;
+        console.error = () => {};
+
+        try {
+            new StructuredLogger([failing, sink]).info('still here');
+        } finally {
+            console.error = originalError;
+        }
+        expect(sink.records).toHaveLength(1);
+    });
+
+    test('should pick its default level from debug', () => {
+        expect(createLogger({ stdout: false }).level).toBe('info');
+        expect(createLogger({ stdout: false }, true).level).toBe('debug');
+        expect(createLogger({ stdout: false, level: 'warn' }, true).level).toBe('warn');
+    });
+
+    test('should reject unknown levels', () => {
+        expect(() => createLogger({ stdout: false, level: 'DEBUG' as any })).toThrow('Unknown log level: DEBUG');
+    });
+});
+
+describe('Log formats', () => {
+    test('should write one JSON object per record', () => {
+        const line = formatJson(record({ component: 'Proxy', connId: 3, error: new Error('boom') }));
+        const parsed = JSON.parse(line);
+
+        expect(parsed).toMatchObject({
+            time: '2025-01-01T12:00:00.000Z',
+            level: 'info',
+            msg: 'Client closed',
+            component: 'Proxy',
+            connId: 3,
+            error: { name: 'Error', message: 'boom' },
+        });
+        expect(line).not.toContain('\n');
+    });
+
+    test('should write pretty lines with the component as prefix', () => {
+        expect(formatPretty(record({ component: 'Proxy', connId: 3, remote: '127.0.0.1', reason: 'timed out' })))
+            .toBe('2025-01-01T12:00:00.000Z INFO  [Proxy] Client closed connId=3 remote=127.0.0.1 reason="timed out"');
+    });
+});
+
+describe('RotatingFileSink', () => {
+    test('should rotate by size and keep maxFiles old files', async () => {
+        const dir = await mkdtemp(join(tmpdir(), 'logger-test-'));
+        const path = join(dir, 'logs', 'proxy.log');
+        const sink = new RotatingFileSink({ path, maxBytes: 60, maxFiles: 2 }, (r) => r.msg);
+
+        try {
+            for (let i = 0; i < 5; i++) {
+                sink.write({ ...record(), msg: `line ${i} `.padEnd(39, 'x') });
+            }
+            sink.close();
+
+            expect((await readdir(join(dir, 'logs'))).sort()).toEqual(['proxy.log', 'proxy.log.1', 'proxy.log.2']);
+            expect(await readFile(path, 'utf8')).toStartWith('line 4 ');
+            expect(await readFile(`${path}.1`, 'utf8')).toStartWith('line 3 ');
+            expect(await readFile(`${path}.2`, 'utf8')).toStartWith('line 2 ');
+
+            // Writing after close reopens the file and appends while it fits
+            sink.write({ ...record(), msg: 'again' });
+            sink.close();
+            expect(await readFile(path, 'utf8')).toEndWith('x\nagain\n');
+            expect(await readFile(`${path}.1`, 'utf8')).toStartWith('line 3 ');
+        } finally {
+            await rm(dir, { recursive: true, force: true });
+        }
+    });
+});
+
+describe('Component loggers', () => {
+    test('should tag proxy records with the component', () => {
+        const sink = new MemorySink();
+        const proxy = new ProxyServer({ debug: false, proxyPort: 0 }, undefined, new StructuredLogger([sink], 'trace'));
+        (proxy as any).logger.info('hello');
+
+        expect(sink.records[0]!.fields).toEqual({ component: 'Proxy' });
+    });
+
+    test('should only write bridge debug logs in debug mode', () => {
+        const quiet = new BridgeServerEnhanced({ port: 0, secret: 'secret', logging: { stdout: false } });
+        const verbose = new BridgeServerEnhanced({ port: 0, secret: 'secret', debug: true, logging: { stdout: false } });
+
+        expect((quiet as any).logger.isLevelEnabled('debug')).toBe(false);
+        expect((verbose as any).logger.isLevelEnabled('debug')).toBe(true);
+    });
+});
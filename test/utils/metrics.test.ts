@@ -0,0 +1,118 @@
+import { describe, expect, test } from 'bun:test';
+import { MetricsRegistry, MetricsServer } from '../../src/index.js';
+
+describe('MetricsRegistry', () => {
+    test('should only let counters go up', () => {
+        const metrics = new MetricsRegistry();
+        metrics.registerCounter('requests_total', 'Requests');
+        metrics.increment('requests_total');
+        metrics.increment('requests_total', {}, 2);
+
+        expect(() => metrics.increment('requests_total', {}, -1)).toThrow('cannot be decreased');
+        expect(metrics.toPrometheusText()).toBe(
+            '# HELP requests_total Requests\n# TYPE requests_total counter\nrequests_total 3\n');
+    });
+
+    test('should move gauges both ways', () => {
+        const metrics = new MetricsRegistry();
+        metrics.registerGauge('players', 'Players online', ['server']);
+        metrics.increment('players', { server: 'lobby' }, 3);
+        metrics.decrement('players', { server: 'lobby' });
+        metrics.set('players', 7, { server: 'survival' });
+
+        expect(metrics.toPrometheusText()).toBe([
+            '# HELP players Players online',
+            '# TYPE players gauge',
+            'players{server="lobby"} 2',
+            'players{server="survival"} 7',
+            '',
+        ].join('\n'));
+    });
+
+    test('should accumulate histogram buckets', () => {
+        const metrics = new MetricsRegistry();
+        metrics.registerHistogram('latency_seconds', 'Latency', ['route'], [1, 0.1, 0.5]);
+        for (const value of [0.05, 0.1, 0.3, 2]) {
+            metrics.observe('latency_seconds', value, { route: 'a' });
+        }
+
+        expect(metrics.toPrometheusText()).toBe([
+            '# HELP latency_seconds Latency',
+            '# TYPE latency_seconds histogram',
+            'latency_seconds_bucket{route="a",le="0.1"} 2',
+            'latency_seconds_bucket{route="a",le="0.5"} 3',
+            'latency_seconds_bucket{route="a",le="1"} 3',
+            'latency_seconds_bucket{route="a",le="+Inf"} 4',
+            'latency_seconds_sum{route="a"} 2.45',
+            'latency_seconds_count{route="a"} 4',
+            '',
+        ].join('\n'));
+    });
+
+    test('should escape label values and help text', () => {
+        const metrics = new MetricsRegistry();
+        metrics.registerGauge('info', 'Line one\nline two');
+        metrics.set('info', 1, { name: 'say "hi"\\' });
+
+        const text = metrics.toPrometheusText();
+        expect(text).toContain('# HELP info Line one\\nline two');
+        expect(text).toContain('info{name="say \\"hi\\"\\\\"} 1');
+    });
+
+    test('should keep values when registered again and reject type changes', () => {
+        const metrics = new MetricsRegistry();
+        metrics.registerCounter('connections_total', 'Connections');
+        metrics.increment('connections_total');
+        metrics.registerCounter('connections_total', 'Connections');
+
+        expect(metrics.getMetrics()['connections_total']!.values.get('')).toBe(1);
+        expect(() => metrics.registerGauge('connections_total', 'Connections')).toThrow('already registered as a counter');
+    });
+
+    test('should ignore updates to unregistered metrics', () => {
+        const metrics = new MetricsRegistry();
+        metrics.increment('missing');
+        metrics.observe('missing', 1);
+        expect(metrics.toPrometheusText()).toBe('');
+    });
+
+    test('should return typed copies from getMetrics', () => {
+        const metrics = new MetricsRegistry();
+        metrics.registerGauge('players', 'Players', ['agent']);
+        metrics.registerHistogram('latency_seconds', 'Latency', [], [0.1, 1]);
+        metrics.set('players', 3, { agent: 'home' });
+        metrics.observe('latency_seconds', 0.5);
+
+        const snapshot = metrics.getMetrics();
+        metrics.set('players', 4, { agent: 'home' });
+        metrics.observe('latency_seconds', 2);
+
+        const players = snapshot['players']!;
+        const latency = snapshot['latency_seconds']!;
+        expect(players.type).toBe('gauge');
+        expect(players.type !== 'histogram' && players.values.get('agent=home')).toBe(3);
+        expect(latency.type === 'histogram' && latency.values.get('')).toEqual({ counts: [0, 1, 0], sum: 0.5, count: 1 });
+    });
+});
+
+describe('MetricsServer', () => {
+    test('should serve the registry at /metrics', async () => {
+        const metrics = new MetricsRegistry();
+        metrics.registerCounter('hits_total', 'Hits');
+        metrics.increment('hits_total');
+
+        const server = new MetricsServer({ port: 0, host: '127.0.0.1' }, metrics);
+        server.start();
+        try {
+            const response = await fetch(`http://127.0.0.1:${server.port}/metrics`);
+            expect(response.status).toBe(200);
+            expect(response.headers.get('content-type')).toContain('text/plain; version=0.0.4');
+            expect(await response.text()).toContain('hits_total 1');
+
+            const missing = await fetch(`http://127.0.0.1:${server.port}/other`);
+            expect(missing.status).toBe(404);
+        } finally {
+            server.stop();
+        }
+    });
+});
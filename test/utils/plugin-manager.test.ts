@@ -0,0 +1,106 @@
+import { describe, expect, test, mock } from 'bun:test';
+import { BridgeServerEnhanced, MetricsRegistry, MinecraftProtocol, PluginManager, ProxyServer, StructuredLogger, type LogRecord, type Plugin } from '../../src/index.js';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { mkdtemp, rm } from 'node:fs/promises';
+
+async function withPluginDir(files: Record<string, string>, run: (dir: string) => Promise<void>) {
+    const dir = await mkdtemp(join(tmpdir(), 'plugins-'));
+    try {
+        for (const [name, content] of Object.entries(files)) {
+            await Bun.write(join(dir, name), content);
+        }
+        await run(dir);
+    } finally {
+        await rm(dir, { recursive: true, force: true });
+    }
+}
+
+function middlewareContext(client: object) {
+    return { client, target: null, handshake: { serverAddress: 'play.example.com' }, player: null, state: new Map() } as any;
+}
+
+describe('PluginManager', () => {
+    test('should load default and named plugin exports relative to the base directory', async () => {
+        await withPluginDir({
+            'greeter.ts': `export default { name: 'greeter' };`,
+            'named.ts': `export const plugin = { name: 'named' };`,
+        }, async (dir) => {
+            const plugins = await PluginManager.load(['./greeter.ts', join(dir, 'named.ts')], dir);
+            expect(plugins.names).toEqual(['greeter', 'named']);
+        });
+    });
+
+    test('should reject modules without a plugin object', async () => {
+        await withPluginDir({ 'empty.ts': `export const value = 1;` }, async (dir) => {
+            await expect(PluginManager.load(['./empty.ts'], dir)).rejects.toThrow('must export a plugin object');
+            await expect(PluginManager.load(['./missing.ts'], dir)).rejects.toThrow('Failed to load plugin ./missing.ts');
+        });
+    });
+
+    test('should init in load order and shut down in reverse', async () => {
+        const calls: string[] = [];
+        const plugin = (name: string): Plugin => ({
+            name,
+            init: async () => { calls.push(`init ${name}`); },
+            shutdown: () => {
+                calls.push(`shutdown ${name}`);
+                throw new Error('ignored');
+            },
+        });
+
+        const records: LogRecord[] = [];
+        const plugins = new PluginManager(new StructuredLogger([{ write: (r) => records.push(r) }]));
+        plugins.add(plugin('a'));
+        plugins.add(plugin('b'));
+        const metrics = new MetricsRegistry();
+        await plugins.init({ metrics });
+        expect(() => plugins.add(plugin('c'))).toThrow();
+
+        await plugins.shutdown();
+
+        expect(calls).toEqual(['init a', 'init b', 'shutdown b', 'shutdown a']);
+        expect(records.map((r) => r.msg)).toEqual(['b failed to shut down', 'a failed to shut down']);
+    });
+
+    test('should report proxy logins and their disconnects', async () => {
+        const proxy = new ProxyServer({ debug: false }, new MinecraftProtocol());
+        const onPlayerConnect = mock();
+        const onPlayerDisconnect = mock();
+        const plugins = new PluginManager();
+        plugins.add({ name: 'watcher', onPlayerConnect, onPlayerDisconnect });
+        await plugins.init({ proxy, metrics: new MetricsRegistry() });
+
+        const pipeline = (proxy as any).middleware;
+        const context = middlewareContext({ remoteAddress: '203.0.113.7' });
+        pipeline.loginStart({ username: 'Steve' }, context);
+        pipeline.close(context);
+        pipeline.close(middlewareContext({}));
+
+        const player = { id: '1', remoteAddress: '203.0.113.7', serverAddress: 'play.example.com', username: 'Steve', uuid: undefined };
+        expect(onPlayerConnect).toHaveBeenCalledTimes(1);
+        expect(onPlayerConnect.mock.calls[0]![0]).toEqual(player);
+        expect(onPlayerDisconnect).toHaveBeenCalledTimes(1);
+        expect(onPlayerDisconnect.mock.calls[0]![0]).toEqual(player);
+    });
+
+    test('should forward bridge events and log hook failures', async () => {
+        const bridge = new BridgeServerEnhanced({ port: 0, secret: 'secret' });
+        const onAgentConnect = mock(async () => { throw new Error('boom'); });
+        const onPlayerConnect = mock();
+        const records: LogRecord[] = [];
+        const plugins = new PluginManager(new StructuredLogger([{ write: (r) => records.push(r) }]));
+        plugins.add({ name: 'watcher', onAgentConnect, onPlayerConnect });
+        await plugins.init({ bridge, metrics: new MetricsRegistry() });
+
+        const emit = (bridge as any).emit.bind(bridge);
+        emit('agentAuthenticated', { agentId: 'home', remoteAddress: '198.51.100.1' });
+        emit('playerRouted', { connId: 'abc', agentId: 'home', remoteAddress: '203.0.113.7' });
+        await new Promise(r => setTimeout(r, 0));
+
+        expect(onAgentConnect).toHaveBeenCalledWith({ agentId: 'home', remoteAddress: '198.51.100.1' }, expect.anything());
+        expect(onPlayerConnect.mock.calls[0]![0]).toEqual({ id: 'abc', connId: 'abc', agentId: 'home', remoteAddress: '203.0.113.7' });
+        expect(records).toHaveLength(1);
+        expect(records[0]).toMatchObject({ level: 'error', msg: 'watcher failed in onAgentConnect' });
+    });
+});
@@ -0,0 +1,68 @@
+import { describe, expect, test } from 'bun:test';
+import { TokenManager, decodeSignedToken, encodeSignedToken } from '../../src/index.js';
+import type { TokenStore, TokenStoreSnapshot } from '../../src/index.js';
+
+describe('Signed tokens', () => {
+    const claims = { sub: 'home', ns: 'prod', iat: 1_700_000_000, exp: 1_700_003_600, scp: ['tunnel'] };
+
+    test('should round-trip claims and reject tampering', () => {
+        const token = encodeSignedToken(claims, 'k1', 'key-one');
+        expect(token).toMatch(/^v1\.k1\.[\w-]+\.[\w-]+$/);
+        expect(decodeSignedToken(token, { k1: 'key-one' }, 1_700_000_000_000)).toEqual(claims);
+
+        const [prefix, keyId, , signature] = token.split('.');
+        const forged = Buffer.from(JSON.stringify({ ...claims, sub: 'other' })).toString('base64url');
+        expect(decodeSignedToken(`${prefix}.${keyId}.${forged}.${signature}`, { k1: 'key-one' }, 1_700_000_000_000)).toBeNull();
+        expect(decodeSignedToken(token, { k1: 'key-two' }, 1_700_000_000_000)).toBeNull();
+        expect(decodeSignedToken(token, { k2: 'key-one' }, 1_700_000_000_000)).toBeNull();
+        expect(decodeSignedToken(token, { k1: 'key-one' }, 1_700_003_600_000)).toBeNull();
+        expect(decodeSignedToken('v1.k1.not-json.sig', { k1: 'key-one' })).toBeNull();
+    });
+
+    test('should be accepted by every manager sharing the key', () => {
+        const issuer = new TokenManager({ secret: 'shared-secret', signedTokens: true });
+        const other = new TokenManager({ secret: 'shared-secret', signedTokens: true });
+
+        const token = issuer.generateToken('home', 'prod', ['tunnel']);
+        expect(token.token).toStartWith('v1.default.');
+        expect(other.validateToken(token.token)).toEqual(token);
+        expect(issuer.getStats().totalTokens).toBe(0);
+
+        expect(new TokenManager({ secret: 'other-secret', signedTokens: true }).validateToken(token.token)).toBeNull();
+        // Managers without signed tokens ignore them
+        expect(new TokenManager({ secret: 'shared-secret' }).validateToken(token.token)).toBeNull();
+    });
+
+    test('should rotate signing keys', () => {
+        const before = new TokenManager({ secret: 'unused', signedTokens: true, signingKeys: { k1: 'key-one' }, signingKeyId: 'k1' });
+        const during = new TokenManager({ secret: 'unused', signedTokens: true, signingKeys: { k1: 'key-one', k2: 'key-two' }, signingKeyId: 'k2' });
+        const after = new TokenManager({ secret: 'unused', signedTokens: true, signingKeys: { k2: 'key-two' }, signingKeyId: 'k2' });
+
+        const old = before.generateToken('home', 'prod');
+        const fresh = during.generateToken('home', 'prod');
+        expect(fresh.token).toStartWith('v1.k2.');
+
+        expect(during.validateToken(old.token)).not.toBeNull();
+        expect(after.validateToken(fresh.token)).not.toBeNull();
+        expect(after.validateToken(old.token)).toBeNull();
+    });
+
+    test('should keep random tokens and claim codes working', () => {
+        let snapshot: TokenStoreSnapshot = { tokens: [], claimCodes: [] };
+        const store: TokenStore = { load: () => snapshot, save: (next) => { snapshot = next; } };
+        const random = new TokenManager({ secret: 'shared-secret' }, store).generateToken('home', 'prod');
+
+        // Restarted with signed tokens enabled
+        const manager = new TokenManager({ secret: 'shared-secret', signedTokens: true }, store);
+
+        expect(manager.validateToken(random.token)).not.toBeNull();
+        const redeemed = manager.redeemClaimCode(manager.generateClaimCode('lobby', 'prod'));
+        expect(redeemed?.token).toStartWith('v1.');
+        expect(manager.validateToken(redeemed!.token)).toMatchObject({ agentId: 'lobby', namespace: 'prod' });
+    });
+
+    test('should refuse a signing key that is not configured', () => {
+        expect(() => new TokenManager({ secret: 's', signedTokens: true, signingKeyId: 'k9' })).toThrow(/k9/);
+        expect(() => new TokenManager({ secret: 's', signedTokens: true, signingKeys: { 'a.b': 'k' }, signingKeyId: 'a.b' })).toThrow(/dots/);
+    });
+});
@@ -0,0 +1,75 @@
+import { describe, expect, test, afterEach, beforeEach } from 'bun:test';
+import { mkdtemp, readFile, readdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileTokenStore, StructuredLogger, TokenManager } from '../../src/index.js';
+import type { LogRecord, TokenStore } from '../../src/index.js';
+
+describe('FileTokenStore', () => {
+    const config = { secret: 'token-secret' };
+    let dir: string;
+    let path: string;
+
+    beforeEach(async () => {
+        dir = await mkdtemp(join(tmpdir(), 'token-store-test-'));
+        path = join(dir, 'state', 'tokens.json');
+    });
+
+    afterEach(async () => {
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    test('should keep tokens and claim codes across restarts', async () => {
+        const first = new TokenManager(config, new FileTokenStore(path));
+        const token = first.generateToken('home', 'prod');
+        const revoked = first.generateToken('home', 'prod');
+        first.revokeToken(revoked.token);
+        const code = first.generateClaimCode('lobby', 'prod');
+
+        const second = new TokenManager(config, new FileTokenStore(path));
+        expect(second.validateToken(token.token)).toEqual(token);
+        expect(second.validateToken(revoked.token)).toBeNull();
+        expect(second.getAgentTokenRecords('home')).toEqual([expect.objectContaining({ agentId: 'home', isActive: true })]);
+        expect(second.redeemClaimCode(code)).toMatchObject({ agentId: 'lobby', namespace: 'prod' });
+
+        // Redeeming saved the used code
+        expect(new TokenManager(config, new FileTokenStore(path)).redeemClaimCode(code)).toBeNull();
+    });
+
+    test('should only write hashes, atomically', async () => {
+        const manager = new TokenManager(config, new FileTokenStore(path));
+        const token = manager.generateToken('home', 'prod');
+        const code = manager.generateClaimCode('home', 'prod');
+
+        const content = await readFile(path, 'utf8');
+        expect(content).not.toContain(token.token);
+        expect(content).not.toContain(`"${code}"`);
+        expect(JSON.parse(content).tokens[0].tokenHash).toMatch(/^[0-9a-f]{64}$/);
+        expect(await readdir(join(dir, 'state'))).toEqual(['tokens.json']);
+    });
+
+    test('should drop expired entries when loading', async () => {
+        const manager = new TokenManager({ ...config, tokenExpiryHours: -1 }, new FileTokenStore(path));
+        manager.generateToken('home', 'prod');
+
+        expect(new TokenManager(config, new FileTokenStore(path)).getStats().totalTokens).toBe(0);
+    });
+
+    test('should refuse to load a corrupt file', async () => {
+        await writeFile(join(dir, 'broken.json'), '{ "tokens": [');
+        expect(() => new TokenManager(config, new FileTokenStore(join(dir, 'broken.json')))).toThrow(/not valid JSON/);
+    });
+
+    test('should keep serving tokens when a save fails', () => {
+        const records: LogRecord[] = [];
+        const store: TokenStore = {
+            load: () => ({ tokens: [], claimCodes: [] }),
+            save: () => { throw new Error('disk full'); },
+        };
+        const manager = new TokenManager(config, store, new StructuredLogger([{ write: (r) => records.push(r) }]));
+
+        const token = manager.generateToken('home', 'prod');
+        expect(manager.validateToken(token.token)).not.toBeNull();
+        expect(records[0]).toMatchObject({ level: 'error', msg: 'Failed to save tokens' });
+    });
+});
@@ -0,0 +1,56 @@
+import { describe, expect, test, mock } from 'bun:test';
+import { StructuredLogger, TypedEventEmitter } from '../../src/index.js';
+import type { LogRecord } from '../../src/index.js';
+
+interface TestEvents {
+    ping: { count: number };
+    error: { error: Error };
+}
+
+class TestEmitter extends TypedEventEmitter<TestEvents> {
+    fire<K extends keyof TestEvents>(event: K, payload: TestEvents[K]) {
+        this.emit(event, payload);
+    }
+}
+
+describe('TypedEventEmitter', () => {
+    test('should call listeners in order until removed', () => {
+        const emitter = new TestEmitter();
+        const calls: string[] = [];
+        const first = ({ count }: { count: number }) => calls.push(`first ${count}`);
+        emitter.on('ping', first).on('ping', ({ count }) => calls.push(`second ${count}`));
+
+        emitter.fire('ping', { count: 1 });
+        emitter.off('ping', first);
+        emitter.fire('ping', { count: 2 });
+
+        expect(calls).toEqual(['first 1', 'second 1', 'second 2']);
+        expect(emitter.listenerCount('ping')).toBe(1);
+    });
+
+    test('should call once listeners a single time', () => {
+        const emitter = new TestEmitter();
+        const listener = mock();
+        emitter.once('ping', listener);
+
+        emitter.fire('ping', { count: 1 });
+        emitter.fire('ping', { count: 2 });
+
+        expect(listener).toHaveBeenCalledTimes(1);
+        expect(emitter.listenerCount('ping')).toBe(0);
+    });
+
+    test('should ignore unhandled errors and keep going when a listener throws', () => {
+        const records: LogRecord[] = [];
+        const emitter = new TestEmitter(new StructuredLogger([{ write: (r) => records.push(r) }]));
+        const later = mock();
+        emitter.on('ping', () => { throw new Error('boom'); }).on('ping', later);
+
+        expect(() => emitter.fire('error', { error: new Error('nobody listens') })).not.toThrow();
+        emitter.fire('ping', { count: 1 });
+
+        expect(later).toHaveBeenCalledTimes(1);
+        expect(records).toHaveLength(1);
+        expect(records[0]).toMatchObject({ level: 'error', msg: "Listener for 'ping' failed" });
+    });
+});
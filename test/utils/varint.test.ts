@@ -1,5 +1,6 @@
 import { describe, expect, test } from 'bun:test';
-import { readVarIntSync, writeVarIntSync, varIntLength } from '../../src/core/varint.js';
+import { readVarIntSync, writeVarIntSync, varIntLength, readVarLongSync, writeVarLongSync, varLongLength, readVarLong } from '../../src/core/varint.js';
+import { StreamReader } from '../../src/core/stream.js';
 
 describe('VarInt', () => {
   test('readVarIntSync - single byte', () => {
@@ -68,3 +69,37 @@ describe('VarInt', () => {
     expect(varIntLength(2147483647)).toBe(5);
   });
 });
+
+describe('VarLong', () => {
+  test('round trip', () => {
+    const values = [0n, 1n, 127n, 128n, 2147483647n, 9223372036854775807n, -1n, -9223372036854775808n];
+    for (const value of values) {
+      const buffer = new Uint8Array(10);
+      const offset = writeVarLongSync(buffer, value, 0);
+      expect(offset).toBe(varLongLength(value));
+      expect(readVarLongSync(buffer, 0)).toEqual({ value, offset });
+    }
+  });
+
+  test('negative values use all 10 bytes', () => {
+    const buffer = new Uint8Array(10);
+    expect(writeVarLongSync(buffer, -1n, 0)).toBe(10);
+    expect(buffer).toEqual(new Uint8Array([0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0x01]));
+  });
+
+  test('rejects more than 10 bytes', () => {
+    expect(() => readVarLongSync(new Uint8Array(11).fill(0x80), 0)).toThrow('VarLong too big');
+  });
+
+  test('reads from a stream and keeps the bytes after it', async () => {
+    const reader = new StreamReader(new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(new Uint8Array([0xff, 0xff]));
+        controller.enqueue(new Uint8Array([0x7f, 0x05]));
+        controller.close();
+      },
+    }).getReader() as ReadableStreamDefaultReader<Uint8Array>);
+    expect(await readVarLong(reader)).toBe(2097151n);
+    expect(await reader.readExact(1)).toEqual(new Uint8Array([0x05]));
+  });
+});